@@ -1,48 +1,50 @@
-import { logger } from '../utils/logger';
-import { cleanDescription } from '../core/format';
+import { SummaryProvider } from '../types';
 
 // Minimal Anthropic client via fetch to avoid new deps
 // Uses Messages API v1
 
 const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
 const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-20241022';
+
 /**
- * Extract original text from AI prompt
- * @param promptText - The full prompt including instructions
- * @returns The original text portion
+ * Summary provider calling the Anthropic Messages API directly
+ * Reads ANTHROPIC_API_KEY and ANTHROPIC_MODEL when used, so tests and the CLI can change them
  */
-function extractOriginalText(promptText: string): string {
-  const marker = '## RELEASE DESCRIPTION TO SUMMARIZE:\n\n';
-  const markerIndex = promptText.indexOf(marker);
-  return markerIndex !== -1 ? promptText.substring(markerIndex + marker.length) : promptText;
-}
+export class AnthropicProvider implements SummaryProvider {
+  readonly name = 'anthropic';
+
+  readonly label = 'Anthropic';
 
-export async function summarizeWithAnthropic(text: string, model: string): Promise<string> {
-  const apiKey = process.env.ANTHROPIC_API_KEY?.trim();
-  if (!apiKey) {
-    logger.warn('ANTHROPIC_API_KEY not provided - skipping Anthropic summarization');
-    return cleanDescription(extractOriginalText(text));
+  private readonly fetch: typeof fetch;
+
+  constructor(fetchFn: typeof fetch = globalThis.fetch) {
+    this.fetch = fetchFn;
   }
 
-  const prompt = text;
+  isConfigured(): boolean {
+    return Boolean(process.env.ANTHROPIC_API_KEY?.trim());
+  }
 
-  const body = {
-    model,
-    max_tokens: 500,
-    messages: [
-      { role: 'user', content: prompt },
-    ],
-  } as const;
+  models(): string[] {
+    return [process.env.ANTHROPIC_MODEL?.trim() || DEFAULT_ANTHROPIC_MODEL];
+  }
 
-  try {
-    const response = await fetch(ANTHROPIC_API_URL, {
+  async summarize(prompt: string, model: string): Promise<string> {
+    const response = await this.fetch(ANTHROPIC_API_URL, {
       method: 'POST',
       headers: {
         'content-type': 'application/json',
-        'x-api-key': apiKey,
+        'x-api-key': process.env.ANTHROPIC_API_KEY?.trim() ?? '',
         'anthropic-version': ANTHROPIC_VERSION,
       },
-      body: JSON.stringify(body),
+      body: JSON.stringify({
+        model,
+        max_tokens: 500,
+        messages: [
+          { role: 'user', content: prompt },
+        ],
+      }),
     });
 
     if (!response.ok) {
@@ -55,16 +57,9 @@ export async function summarizeWithAnthropic(text: string, model: string): Promi
       ? (data.content[0].text ?? '')
       : '';
 
-    if (!content) {
-      logger.warn('Anthropic returned empty content; using original text');
-      return cleanDescription(extractOriginalText(text));
+    if (!content.trim()) {
+      throw new Error('Anthropic returned empty content');
     }
-
     return content;
-  } catch (error) {
-    logger.error(`Anthropic summarization failed: ${error}`);
-    return cleanDescription(extractOriginalText(text));
   }
 }
-
-
@@ -0,0 +1,57 @@
+import { GoogleGenAI } from '@google/genai';
+import { SummaryProvider } from '../types';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Part of the Gemini client the provider uses, so tests can pass a stub
+ */
+export interface GeminiClient {
+  models: Pick<GoogleGenAI['models'], 'generateContent'>;
+}
+
+/**
+ * Summary provider using the Google Gemini API
+ * Reads GEMINI_API_KEY and GEMINI_MODEL when used, so tests and the CLI can change them
+ */
+export class GeminiProvider implements SummaryProvider {
+  readonly name = 'gemini';
+
+  readonly label = 'Gemini';
+
+  private client: GeminiClient | null;
+
+  /**
+   * @param client - Gemini client to use instead of one created from GEMINI_API_KEY
+   */
+  constructor(client?: GeminiClient) {
+    this.client = client ?? null;
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null || Boolean(process.env.GEMINI_API_KEY?.trim());
+  }
+
+  models(): string[] {
+    return [process.env.GEMINI_MODEL?.trim() || DEFAULT_GEMINI_MODEL];
+  }
+
+  async summarize(prompt: string, model: string): Promise<string> {
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY?.trim() });
+    }
+
+    const response = await this.client.models.generateContent({
+      model,
+      contents: prompt,
+      config: { maxOutputTokens: 500 },
+    });
+
+    const summary = response.text;
+    if (!summary || !summary.trim()) {
+      const reason = response.candidates?.[0]?.finishReason;
+      throw new Error(`Gemini returned empty content${reason ? ` (finish reason: ${reason})` : ''}`);
+    }
+    return summary;
+  }
+}
@@ -0,0 +1,40 @@
+import OpenAI from 'openai';
+import { OpenAICompatibleProvider } from './openai-compatible';
+
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+// OpenAI clients require an API key; local servers such as Ollama ignore it
+const PLACEHOLDER_API_KEY = 'local';
+
+/**
+ * Summary provider for a self-hosted OpenAI-compatible server (Ollama, llama.cpp server, vLLM, ...)
+ * Reads LOCAL_AI_BASE_URL, LOCAL_AI_MODEL and LOCAL_AI_API_KEY when used, so release notes never leave the network
+ */
+export class LocalProvider extends OpenAICompatibleProvider {
+  readonly name = 'local';
+
+  readonly label = 'Local';
+
+  /**
+   * @param client - OpenAI client to use instead of one created from LOCAL_AI_BASE_URL
+   */
+  constructor(client?: OpenAI) {
+    super(client);
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null || Boolean(process.env.LOCAL_AI_BASE_URL?.trim());
+  }
+
+  models(): string[] {
+    return [process.env.LOCAL_AI_MODEL?.trim() || DEFAULT_LOCAL_MODEL];
+  }
+
+  protected baseURL(): string | undefined {
+    return process.env.LOCAL_AI_BASE_URL?.trim();
+  }
+
+  protected apiKey(): string {
+    return process.env.LOCAL_AI_API_KEY?.trim() || PLACEHOLDER_API_KEY;
+  }
+}
@@ -1,23 +1,15 @@
 import OpenAI from 'openai';
-import { config as dotenvConfig } from 'dotenv';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { cleanDescription, wrapText } from '../core/format';
-import { summarizeWithAnthropic } from './anthropic';
 import { logger } from '../utils/logger';
-import { getConfig } from '../utils/config';
+import { OpenAICompatibleProvider } from './openai-compatible';
 
-// Load environment variables
-dotenvConfig();
-
-// Initialize OpenAI client only if API key is provided
-let openai: OpenAI | null = null;
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
 
 // Default model configuration
 const DEFAULT_MODEL = 'anthropic/claude-sonnet-4';
 
-// Cache for loaded models and instructions
-let cachedInstructions: string | null = null;
+// Cache for loaded models
 let cachedFreeModels: string[] | null = null;
 
 /**
@@ -43,7 +35,7 @@ function loadFreeModels(): string[] {
     }
 
     // Cache the models
-    cachedFreeModels = models.freeModels;
+    cachedFreeModels = models.freeModels as string[];
     logger.debug(`Loaded ${cachedFreeModels.length} free models for fallback`);
     return cachedFreeModels;
   } catch (error) {
@@ -54,176 +46,42 @@ function loadFreeModels(): string[] {
 }
 
 /**
- * Get the next model to try based on priority order
- * @param attemptNumber - The current attempt number (0-based)
- * @returns string - The model name to try
+ * Summary provider using OpenRouter's OpenAI-compatible API
+ * Models are tried in priority order: AI_MODEL, the default model, then the free models of models.json
  */
-function getModelForAttempt(attemptNumber: number): string {
-  // Priority 1: From .env
-  if (attemptNumber === 0 && process.env.AI_MODEL) {
-    logger.debug(`Using model from environment: ${process.env.AI_MODEL}`);
-    return process.env.AI_MODEL;
-  }
-
-  // Priority 2: Default model
-  if (attemptNumber === 0 || (attemptNumber === 1 && !process.env.AI_MODEL)) {
-    logger.debug(`Using default model: ${DEFAULT_MODEL}`);
-    return DEFAULT_MODEL;
-  }
-
-  // Priority 3: Pick one from models.json
-  try {
-    const freeModels = loadFreeModels();
-    const modelIndex = (attemptNumber - (process.env.AI_MODEL ? 2 : 1)) % freeModels.length;
-    const selectedModel = freeModels[modelIndex];
-    logger.debug(`Using fallback model ${modelIndex + 1}/${freeModels.length}: ${selectedModel}`);
-    return selectedModel;
-  } catch (error) {
-    logger.error(`Failed to load free models, using default: ${DEFAULT_MODEL}`);
-    return DEFAULT_MODEL;
-  }
-}
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly name = 'openrouter';
 
-/**
- * Get the maximum number of attempts based on available models
- * @returns number - Maximum number of attempts
- */
-function getMaxAttempts(): number {
-  let attempts = 1; // Start with 1 attempt
+  readonly label = 'OpenRouter';
 
-  // Add 1 if we have a default model different from env
-  if (!process.env.AI_MODEL || process.env.AI_MODEL !== DEFAULT_MODEL) {
-    attempts++;
+  /**
+   * @param client - OpenAI client to use instead of one created from OPENROUTER_API_KEY
+   */
+  constructor(client?: OpenAI) {
+    super(client);
   }
 
-  // Add free models count
-  try {
-    const freeModels = loadFreeModels();
-    attempts += freeModels.length;
-  } catch (error) {
-    logger.warn('Could not load free models, limiting fallback attempts');
+  isConfigured(): boolean {
+    return this.client !== null || Boolean(process.env.OPENROUTER_API_KEY?.trim());
   }
 
-  return attempts;
-}
-
-// Wrap OpenRouter client init in a function
-function initOpenRouterClient(): boolean {
-  if (openai) return true;
-  const key = process.env.OPENROUTER_API_KEY;
-  if (!key) {
-    logger.warn('OPENROUTER_API_KEY not found in environment variables');
-    return false;
-  }
-  try {
-    openai = new OpenAI({ baseURL: 'https://openrouter.ai/api/v1', apiKey: key });
-    const initialModel = getModelForAttempt(0);
-    logger.info(`OpenAI client initialized successfully with OpenRouter API using model: ${initialModel}`);
-    return true;
-  } catch (error) {
-    logger.error(`Failed to initialize OpenAI client: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    openai = null;
-    return false;
-  }
-}
-
-/**
- * Load instructions from the markdown file with caching
- * @returns string - The instructions template
- * @throws Error if instructions file cannot be loaded or is invalid
- */
-function loadInstructions(): string {
-  // Return cached instructions if available
-  if (cachedInstructions !== null) {
-    return cachedInstructions;
-  }
-
-  try {
-    const instructionsPath = join(__dirname, 'instructions.md');
-    logger.debug(`Loading AI instructions from: ${instructionsPath}`);
-
-    const instructions = readFileSync(instructionsPath, 'utf-8');
+  models(): string[] {
+    const models = [process.env.AI_MODEL?.trim() || DEFAULT_MODEL, DEFAULT_MODEL];
 
-    // Validate that instructions contain the template variable
-    if (!instructions.includes('${text}')) {
-      throw new Error('Instructions file missing ${text} template variable');
+    try {
+      models.push(...loadFreeModels());
+    } catch (error) {
+      logger.warn('Could not load free models, limiting fallback attempts');
     }
 
-    // Cache the instructions
-    cachedInstructions = instructions;
-    logger.debug('AI instructions loaded and cached successfully');
-    return instructions;
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    logger.error(`Error loading AI instructions: ${errorMessage}`);
-    throw new Error(`Failed to load AI instructions: ${errorMessage}`);
+    return Array.from(new Set(models));
   }
-}
-
-
-
-/**
- * Create an executive summary of a release description for business stakeholders
- * Uses Anthropic as primary provider with OpenRouter as fallback for any errors
- * @param text - The release description text
- * @returns Promise<string> - The executive summary
- */
-export async function summarizeText(text: string): Promise<string> {
-  logger.info('Starting AI summarization...');
 
-  // Load instructions with error handling
-  let instructions: string;
-  try {
-    instructions = loadInstructions();
-  } catch (error) {
-    logger.error(`Failed to load AI instructions: ${error}`);
-    return cleanDescription(text);
+  protected baseURL(): string {
+    return OPENROUTER_BASE_URL;
   }
 
-  const prompt = instructions.replace('${text}', text);
-
-  // Try Anthropic first
-  try {
-    logger.info('Attempting summarization with Anthropic...');
-
-    // Get the Anthropic model from config
-    const config = getConfig();
-    const anthropicModel = config.anthropicModel || 'claude-3-5-sonnet-20241022';
-
-    const summary = await summarizeWithAnthropic(prompt, anthropicModel);
-    if (summary && summary.trim()) {
-      logger.info('AI summarization completed successfully with Anthropic');
-      logger.info('------------------------------------------------------');
-      return summary;
-    }
-  } catch (error) {
-    logger.error(`Anthropic failed: ${error}`);
+  protected apiKey(): string | undefined {
+    return process.env.OPENROUTER_API_KEY?.trim();
   }
-
-  // Fallback to OpenRouter
-  try {
-    logger.info('Falling back to OpenRouter...');
-    if (!openai && !initOpenRouterClient()) {
-      return cleanDescription(text);
-    }
-
-    const completion = await openai!.chat.completions.create({
-      model: getModelForAttempt(0),
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    const summary = completion.choices[0].message.content;
-    if (summary && summary.trim()) {
-      logger.info('AI summarization completed successfully with OpenRouter');
-      return summary;
-    }
-  } catch (error) {
-    logger.error(`OpenRouter failed: ${error}`);
-  }
-
-  // Both failed, return cleaned text
-  logger.warn('All AI providers failed, returning cleaned original text');
-  return cleanDescription(text);
 }
-
-
@@ -0,0 +1,49 @@
+import OpenAI from 'openai';
+import { SummaryProvider } from '../types';
+
+/**
+ * Base class for summary providers that speak the OpenAI chat completions API
+ * Subclasses supply the base URL and API key; the client is created on first use
+ */
+export abstract class OpenAICompatibleProvider implements SummaryProvider {
+  abstract readonly name: string;
+
+  abstract readonly label: string;
+
+  protected client: OpenAI | null;
+
+  /**
+   * @param client - OpenAI client to use instead of one created from the provider's settings
+   */
+  constructor(client?: OpenAI) {
+    this.client = client ?? null;
+  }
+
+  abstract isConfigured(): boolean;
+
+  abstract models(): string[];
+
+  /**
+   * Base URL of the OpenAI-compatible API, e.g. https://openrouter.ai/api/v1
+   */
+  protected abstract baseURL(): string | undefined;
+
+  protected abstract apiKey(): string | undefined;
+
+  async summarize(prompt: string, model: string): Promise<string> {
+    if (!this.client) {
+      this.client = new OpenAI({ baseURL: this.baseURL(), apiKey: this.apiKey() });
+    }
+
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const summary = completion.choices[0]?.message.content;
+    if (!summary || !summary.trim()) {
+      throw new Error(`${this.label} returned empty content`);
+    }
+    return summary;
+  }
+}
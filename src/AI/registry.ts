@@ -0,0 +1,27 @@
+import { SummaryProvider } from '../types';
+import { Registry } from '../utils/registry';
+import { AnthropicProvider } from './anthropic';
+import { GeminiProvider } from './gemini';
+import { LocalProvider } from './local';
+import { OpenRouterProvider } from './open-router';
+
+export type SummaryProviderFactory = () => SummaryProvider;
+
+/**
+ * Registry of AI summary providers keyed by name
+ * Config selects an ordered chain of registered names through AI_PROVIDERS
+ */
+export class SummaryProviderRegistry extends Registry<SummaryProviderFactory> {
+  constructor() {
+    super('summary provider', 'providers');
+  }
+}
+
+/**
+ * Default registry with the built-in Anthropic, Gemini, OpenRouter and local providers
+ */
+export const summaryProviderRegistry = new SummaryProviderRegistry();
+summaryProviderRegistry.register('anthropic', () => new AnthropicProvider());
+summaryProviderRegistry.register('gemini', () => new GeminiProvider());
+summaryProviderRegistry.register('openrouter', () => new OpenRouterProvider());
+summaryProviderRegistry.register('local', () => new LocalProvider());
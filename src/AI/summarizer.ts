@@ -0,0 +1,303 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SummaryAttempt, SummaryChainEntry, SummaryProvider, SummaryProviderRule } from '../types';
+import { cleanDescription } from '../core/format';
+import { globToRegExp } from '../core/repository-filter';
+import { logger } from '../utils/logger';
+import { SummaryProviderRegistry, summaryProviderRegistry } from './registry';
+import { SummaryCache, summaryCacheKey } from './summary-cache';
+
+/**
+ * Provider chain used when AI_PROVIDERS is not configured
+ */
+const DEFAULT_SUMMARY_PROVIDERS = ['anthropic', 'gemini', 'openrouter'];
+
+// Cache for loaded instructions
+let cachedInstructions: string | null = null;
+
+let defaultSummarizer: Summarizer | null = null;
+
+let summaryCache: SummaryCache | null = null;
+
+/**
+ * Parse AI_PROVIDERS entries: a provider name, optionally pinned to one model as provider:model
+ * @throws {Error} If an entry names a provider that is not registered
+ */
+export function parseSummaryChain(
+  entries: string[],
+  registry: SummaryProviderRegistry = summaryProviderRegistry
+): SummaryChainEntry[] {
+  const chain = entries.map(entry => {
+    // Model names may contain colons themselves (e.g. :free variants), so only the first one separates
+    const separator = entry.indexOf(':');
+    return {
+      provider: (separator === -1 ? entry : entry.slice(0, separator)).trim().toLowerCase(),
+      model: separator === -1 ? undefined : entry.slice(separator + 1).trim() || undefined
+    };
+  });
+
+  const unknown = chain.filter(entry => !registry.has(entry.provider)).map(entry => entry.provider);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown summary provider(s): ${unknown.join(', ')}. Registered providers: ${registry.names().join(', ')}`);
+  }
+
+  return chain;
+}
+
+/**
+ * Parse AI_REPOSITORY_PROVIDERS rules mapping repository patterns to a provider or provider:model
+ * @param rules - Chain entry keyed by repository pattern, in matching order
+ * @throws {Error} If a rule names a provider that is not registered
+ */
+export function parseSummaryRules(
+  rules: Record<string, string>,
+  registry: SummaryProviderRegistry = summaryProviderRegistry
+): SummaryProviderRule[] {
+  const patterns = Object.keys(rules);
+  const entries = parseSummaryChain(patterns.map(pattern => rules[pattern]), registry);
+  return patterns.map((pattern, index) => ({ pattern, entry: entries[index] }));
+}
+
+/**
+ * Whether a repository matches a rule pattern
+ * Patterns containing a slash match the org/repo name, others the bare repository name
+ */
+function matchesRepository(pattern: string, repository: string): boolean {
+  const bareName = repository.includes('/') ? repository.slice(repository.indexOf('/') + 1) : repository;
+  return globToRegExp(pattern).test(pattern.includes('/') ? repository : bareName);
+}
+
+/**
+ * Walks the configured chain of summary providers and their models until one returns a summary
+ */
+export class Summarizer {
+  private readonly chain: SummaryChainEntry[];
+
+  private readonly rules: SummaryProviderRule[];
+
+  private readonly providers = new Map<string, SummaryProvider>();
+
+  private lastAttempts: SummaryAttempt[] = [];
+
+  /**
+   * @param chain - Ordered providers, each optionally pinned to a model
+   * @param registry - Registry used to create the chain's providers
+   * @param rules - Repository rules that replace the chain for matching repositories
+   */
+  constructor(
+    chain: SummaryChainEntry[],
+    registry: SummaryProviderRegistry = summaryProviderRegistry,
+    rules: SummaryProviderRule[] = []
+  ) {
+    this.chain = chain;
+    this.rules = rules;
+    for (const entry of [...chain, ...rules.map(rule => rule.entry)]) {
+      if (!this.providers.has(entry.provider)) {
+        this.providers.set(entry.provider, registry.create(entry.provider));
+      }
+    }
+  }
+
+  /**
+   * Summarize a prompt with the first provider and model that succeeds
+   * Unconfigured providers are skipped; every attempt is logged with its latency and error
+   * A repository matching a rule only uses the rule's provider, never falling back to the chain
+   * @param repository - org/repo name of the summarized release notes
+   * @throws {Error} When every attempt fails or no provider in the chain is configured
+   */
+  async summarize(prompt: string, repository?: string): Promise<string> {
+    const attempts: SummaryAttempt[] = [];
+    this.lastAttempts = attempts;
+
+    const rule = this.ruleFor(repository);
+    const chain = rule ? [rule.entry] : this.chain;
+    if (rule) {
+      logger.info(`Summarizing ${repository} with ${rule.entry.provider} only (repository rule ${rule.pattern})`);
+    }
+
+    for (const entry of chain) {
+      const provider = this.providers.get(entry.provider)!;
+      if (!provider.isConfigured()) {
+        logger.warn(`Skipping summary provider ${provider.name}: not configured`);
+        continue;
+      }
+
+      for (const model of entry.model ? [entry.model] : provider.models()) {
+        const startedAt = Date.now();
+        try {
+          const summary = await provider.summarize(prompt, model);
+          attempts.push({ provider: provider.name, model, latencyMs: Date.now() - startedAt });
+          logger.info(`AI attempt ${attempts.length}: ${provider.label} ${model} succeeded in ${attempts[attempts.length - 1].latencyMs}ms`);
+          return summary;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          attempts.push({ provider: provider.name, model, latencyMs: Date.now() - startedAt, error: message });
+          logger.warn(`AI attempt ${attempts.length}: ${provider.label} ${model} failed in ${attempts[attempts.length - 1].latencyMs}ms: ${message}`);
+        }
+      }
+    }
+
+    if (attempts.length === 0) {
+      throw new Error(`No configured summary provider in chain: ${chain.map(entry => entry.provider).join(', ')}`);
+    }
+    throw new Error(`All ${attempts.length} AI attempts failed, last error: ${attempts[attempts.length - 1].error}`);
+  }
+
+  /**
+   * Attempts made by the most recent summarize call
+   */
+  getLastAttempts(): SummaryAttempt[] {
+    return this.lastAttempts;
+  }
+
+  /**
+   * provider:model entries a summary of the repository may be produced by, in the order they are tried
+   */
+  candidateModels(repository?: string): string[] {
+    const rule = this.ruleFor(repository);
+    return (rule ? [rule.entry] : this.chain).flatMap(entry => {
+      const provider = this.providers.get(entry.provider)!;
+      return (entry.model ? [entry.model] : provider.models()).map(model => `${provider.name}:${model}`);
+    });
+  }
+
+  private ruleFor(repository?: string): SummaryProviderRule | undefined {
+    return repository ? this.rules.find(rule => matchesRepository(rule.pattern, repository)) : undefined;
+  }
+}
+
+/**
+ * Set the provider chain and repository rules summarizeText uses
+ * @param entries - AI_PROVIDERS entries (default: the built-in chain)
+ * @param repositoryProviders - AI_REPOSITORY_PROVIDERS rules keyed by repository pattern
+ * @param registry - Registry the chain's providers are created from
+ * @throws {Error} If an entry or rule names a provider that is not registered
+ */
+export function configureSummarizer(
+  entries: string[] = DEFAULT_SUMMARY_PROVIDERS,
+  repositoryProviders: Record<string, string> = {},
+  registry: SummaryProviderRegistry = summaryProviderRegistry
+): void {
+  defaultSummarizer = new Summarizer(parseSummaryChain(entries, registry), registry, parseSummaryRules(repositoryProviders, registry));
+}
+
+/**
+ * Set the cache summarizeText consults before walking the provider chain
+ * @param cache - Summary cache, or null to summarize every text again (--no-cache)
+ */
+export function configureSummaryCache(cache: SummaryCache | null): void {
+  summaryCache = cache;
+}
+
+/**
+ * Load instructions from the markdown file with caching
+ * @returns string - The instructions template
+ * @throws Error if instructions file cannot be loaded or is invalid
+ */
+function loadInstructions(): string {
+  // Return cached instructions if available
+  if (cachedInstructions !== null) {
+    return cachedInstructions;
+  }
+
+  try {
+    const instructionsPath = join(__dirname, 'instructions.md');
+    logger.debug(`Loading AI instructions from: ${instructionsPath}`);
+
+    const instructions = readFileSync(instructionsPath, 'utf-8');
+
+    // Validate that instructions contain the template variable
+    if (!instructions.includes('${text}')) {
+      throw new Error('Instructions file missing ${text} template variable');
+    }
+
+    // Cache the instructions
+    cachedInstructions = instructions;
+    logger.debug('AI instructions loaded and cached successfully');
+    return instructions;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error loading AI instructions: ${errorMessage}`);
+    throw new Error(`Failed to load AI instructions: ${errorMessage}`);
+  }
+}
+
+/**
+ * Create an executive summary of a release description for business stakeholders
+ * Returns the cached summary when the summary cache holds one for the same prompt template, models and text,
+ * otherwise walks the configured provider chain (Anthropic, Gemini, then OpenRouter by default) and
+ * returns the cleaned original text when every attempt fails
+ * @param text - The release description text
+ * @param repository - org/repo name the text belongs to, matched against the repository rules
+ * @returns Promise<string> - The executive summary
+ */
+export async function summarizeText(text: string, repository?: string): Promise<string> {
+  logger.info('Starting AI summarization...');
+
+  // Load instructions with error handling
+  let instructions: string;
+  try {
+    instructions = loadInstructions();
+  } catch (error) {
+    logger.error(`Failed to load AI instructions: ${error}`);
+    return cleanDescription(text);
+  }
+
+  const prompt = instructions.replace('${text}', text);
+
+  try {
+    if (!defaultSummarizer) {
+      defaultSummarizer = new Summarizer(parseSummaryChain(DEFAULT_SUMMARY_PROVIDERS));
+    }
+
+    const cacheKey = summaryCacheKey(instructions, defaultSummarizer.candidateModels(repository), text);
+    const cached = await readCachedSummary(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const summary = await defaultSummarizer.summarize(prompt, repository);
+    const attempts = defaultSummarizer.getLastAttempts();
+    await storeCachedSummary(cacheKey, summary, attempts[attempts.length - 1]);
+    return summary;
+  } catch (error) {
+    logger.warn(`AI summarization failed, returning cleaned original text: ${error instanceof Error ? error.message : String(error)}`);
+    return cleanDescription(text);
+  }
+}
+
+/**
+ * Summary cached under the key, or undefined when there is none or the cache is disabled
+ * Cache failures are logged and treated as misses, so they never block summarization
+ */
+async function readCachedSummary(cacheKey: string): Promise<string | undefined> {
+  if (!summaryCache) {
+    return undefined;
+  }
+  try {
+    const entry = await summaryCache.get(cacheKey);
+    if (entry) {
+      logger.info(`Using cached summary from ${entry.provider} ${entry.model} (${entry.createdAt})`);
+    }
+    return entry?.summary;
+  } catch (error) {
+    logger.warn(`Could not read the summary cache: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+async function storeCachedSummary(cacheKey: string, summary: string, attempt: SummaryAttempt | undefined): Promise<void> {
+  if (!summaryCache || !attempt) {
+    return;
+  }
+  try {
+    await summaryCache.set(cacheKey, {
+      summary,
+      provider: attempt.provider,
+      model: attempt.model,
+      createdAt: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.warn(`Could not write the summary cache: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
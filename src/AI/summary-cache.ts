@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { SummaryCacheBackend, SummaryCacheEntry, SummaryCacheStats } from '../types';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Summary cache backend persisting entries in a local JSON file
+ */
+export class JsonFileSummaryCacheBackend implements SummaryCacheBackend {
+  private cache?: Record<string, SummaryCacheEntry>;
+
+  constructor(private readonly path: string) {}
+
+  async get(key: string): Promise<SummaryCacheEntry | undefined> {
+    return this.load()[key];
+  }
+
+  async set(key: string, entry: SummaryCacheEntry): Promise<void> {
+    this.load()[key] = entry;
+    this.save();
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    const entries = this.load();
+    keys.forEach(key => delete entries[key]);
+    this.save();
+  }
+
+  async entries(): Promise<Array<[string, SummaryCacheEntry]>> {
+    return Object.entries(this.load());
+  }
+
+  private load(): Record<string, SummaryCacheEntry> {
+    if (!this.cache) {
+      this.cache = existsSync(this.path)
+        ? JSON.parse(readFileSync(this.path, 'utf-8')) as Record<string, SummaryCacheEntry>
+        : {};
+    }
+    return this.cache;
+  }
+
+  private save(): void {
+    writeFileSync(this.path, `${JSON.stringify(this.cache ?? {}, null, 2)}\n`, 'utf-8');
+  }
+}
+
+/**
+ * Cache of AI summaries so reruns over overlapping windows do not send identical release notes again
+ * Entries older than the TTL count as misses; the oldest entries are evicted beyond the size limit
+ */
+export class SummaryCache {
+  private readonly stats: SummaryCacheStats = { hits: 0, misses: 0, stored: 0, expired: 0, evicted: 0 };
+
+  /**
+   * @param backend - Storage for cached summaries
+   * @param ttlDays - Days a summary stays valid
+   * @param maxEntries - Most summaries kept
+   */
+  constructor(
+    private readonly backend: SummaryCacheBackend,
+    private readonly ttlDays: number,
+    private readonly maxEntries: number
+  ) {}
+
+  /**
+   * Cached summary for a key, or undefined on a miss
+   * An expired entry is removed and counts as a miss
+   */
+  async get(key: string, now: Date = new Date()): Promise<SummaryCacheEntry | undefined> {
+    const entry = await this.backend.get(key);
+    if (entry && this.isExpired(entry, now)) {
+      await this.backend.delete([key]);
+      this.stats.expired++;
+    } else if (entry) {
+      this.stats.hits++;
+      return entry;
+    }
+    this.stats.misses++;
+    return undefined;
+  }
+
+  /**
+   * Store a summary, then drop expired entries and the oldest ones beyond the size limit
+   */
+  async set(key: string, entry: SummaryCacheEntry, now: Date = new Date()): Promise<void> {
+    await this.backend.set(key, entry);
+    this.stats.stored++;
+
+    const entries = await this.backend.entries();
+    const expired = entries.filter(([, cached]) => this.isExpired(cached, now)).map(([cachedKey]) => cachedKey);
+    const live = entries
+      .filter(([cachedKey]) => !expired.includes(cachedKey))
+      .sort(([, a], [, b]) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+    const evicted = live.slice(0, Math.max(0, live.length - this.maxEntries)).map(([cachedKey]) => cachedKey);
+
+    if (expired.length > 0 || evicted.length > 0) {
+      await this.backend.delete([...expired, ...evicted]);
+      this.stats.expired += expired.length;
+      this.stats.evicted += evicted.length;
+    }
+  }
+
+  getStats(): SummaryCacheStats {
+    return { ...this.stats };
+  }
+
+  logStats(): void {
+    const { hits, misses, stored, expired, evicted } = this.stats;
+    logger.info(`Summary cache: ${hits} hit${hits === 1 ? '' : 's'}, ${misses} miss${misses === 1 ? '' : 'es'} (${stored} stored, ${expired} expired, ${evicted} evicted)`);
+  }
+
+  private isExpired(entry: SummaryCacheEntry, now: Date): boolean {
+    const createdAt = Date.parse(entry.createdAt);
+    return Number.isNaN(createdAt) || now.getTime() - createdAt > this.ttlDays * DAY_MS;
+  }
+}
+
+/**
+ * Cache key of a summary: hash of the prompt template, the models that may answer it and the release notes
+ * @param instructions - Prompt template (instructions.md)
+ * @param models - provider:model entries tried for the summary, in order
+ * @param text - Combined release descriptions
+ */
+export function summaryCacheKey(instructions: string, models: string[], text: string): string {
+  return createHash('sha256').update(JSON.stringify({ instructions, models, text })).digest('hex');
+}
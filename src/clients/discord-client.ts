@@ -0,0 +1,62 @@
+import { DiscordMessage, RetryConfig } from '../types';
+import { logger } from '../utils/logger';
+import { deliveryError, withRetry } from '../utils/retry';
+
+type Fetch = typeof fetch;
+
+const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 10000,
+};
+
+/**
+ * Discord client posting embeds to a channel webhook
+ */
+export class DiscordClient {
+  private webhookUrl: string;
+
+  private fetch: Fetch;
+
+  private retryConfig: RetryConfig;
+
+  constructor(webhookUrl: string, retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG, fetchFn: Fetch = fetch) {
+    this.webhookUrl = webhookUrl;
+    this.retryConfig = retryConfig;
+    this.fetch = fetchFn;
+    if (!this.webhookUrl) {
+      throw new Error('Discord webhook URL is required');
+    }
+  }
+
+  /**
+   * Posts a message, retrying network failures, rate limiting and server errors
+   * Discord answers 204 No Content on success
+   */
+  async postMessage(message: DiscordMessage): Promise<void> {
+    try {
+      logger.info(`Posting ${message.embeds.length} embeds to Discord...`);
+
+      await withRetry(async () => {
+        const response = await this.fetch(this.webhookUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(message),
+        });
+
+        if (!response.ok) {
+          const responseBody = await response.text();
+          logger.error(`Discord webhook error: ${response.status} ${response.statusText} - ${responseBody}`);
+          throw deliveryError(`Discord webhook error (${response.status}): ${responseBody}`, response.status);
+        }
+      }, 'Discord post', this.retryConfig);
+
+      logger.info('Successfully posted to Discord');
+    } catch (error) {
+      logger.error(`Failed to post to Discord: ${error}`);
+      throw new Error(`Failed to post to Discord: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { EmailMessage, RetryConfig, SmtpSettings } from '../types';
+import { logger } from '../utils/logger';
+import { DeliveryError, withRetry } from '../utils/retry';
+
+const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 2,
+  baseDelay: 1000,
+  maxDelay: 10000,
+};
+
+/**
+ * SMTP failure as reported by nodemailer; responseCode is undefined for connection errors
+ */
+interface SmtpError extends DeliveryError {
+  responseCode?: number;
+}
+
+/**
+ * Connection failures and transient (4xx) SMTP replies are worth retrying; permanent (5xx) replies are not
+ */
+function isRetryableSmtpError(error: SmtpError): boolean {
+  return error.responseCode === undefined || (error.responseCode >= 400 && error.responseCode < 500);
+}
+
+/**
+ * SMTP client sending digests as multipart (HTML and plain-text) emails
+ */
+export class EmailClient {
+  private transporter: Transporter;
+
+  private retryConfig: RetryConfig;
+
+  constructor(smtp: SmtpSettings, retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG) {
+    if (!smtp.host) {
+      throw new Error('SMTP host is required');
+    }
+    this.retryConfig = retryConfig;
+    this.transporter = createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: smtp.user ? { user: smtp.user, pass: smtp.password } : undefined,
+    });
+  }
+
+  /**
+   * Sends a message to one recipient, retrying connection failures and transient SMTP errors
+   */
+  async sendMessage(from: string, to: string, message: EmailMessage): Promise<void> {
+    try {
+      logger.info(`Sending email digest to ${to}...`);
+
+      await withRetry(
+        () => this.transporter.sendMail({
+          from,
+          to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+        `Email to ${to}`,
+        this.retryConfig,
+        isRetryableSmtpError
+      );
+
+      logger.info(`Successfully sent email digest to ${to}`);
+    } catch (error) {
+      logger.error(`Failed to send email to ${to}: ${error}`);
+      throw new Error(`Failed to send email to ${to}: ${error}`);
+    }
+  }
+}
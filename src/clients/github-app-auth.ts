@@ -0,0 +1,143 @@
+import { createSign } from 'crypto';
+import { GitHubAppCredentials, GitHubTokenProvider, InstallationToken } from '../types';
+import { logger } from '../utils/logger';
+
+type FetchFunction = typeof fetch;
+
+const DEFAULT_API_URL = 'https://api.github.com';
+
+/**
+ * Refresh installation tokens this long before they expire (GitHub issues them for one hour)
+ */
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * After minting fails, keep using the fallback token this long before trying to mint again
+ */
+export const FALLBACK_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Encode a value as base64url (JWT segment encoding)
+ */
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Token provider authenticating as a GitHub App installation
+ * Mints installation access tokens, caches them and refreshes them shortly before expiry,
+ * so long paginated runs keep working past the one-hour token lifetime
+ */
+export class GitHubAppTokenProvider implements GitHubTokenProvider {
+  private readonly credentials: GitHubAppCredentials;
+  private readonly apiUrl: string;
+  private readonly fallbackToken?: string;
+  private readonly fetchFn: FetchFunction;
+  private cachedToken: InstallationToken | undefined;
+  private pendingToken: Promise<InstallationToken> | undefined;
+  private fallbackUntil = 0;
+
+  /**
+   * @param credentials - GitHub App ID, private key and installation ID
+   * @param apiUrl - Optional API base URL (GitHub Enterprise Server)
+   * @param fallbackToken - Optional personal access token used when minting fails
+   * @param fetchFn - Optional fetch implementation (used for testing)
+   */
+  constructor(
+    credentials: GitHubAppCredentials,
+    apiUrl?: string,
+    fallbackToken?: string,
+    fetchFn: FetchFunction = fetch
+  ) {
+    this.credentials = credentials;
+    this.apiUrl = (apiUrl || DEFAULT_API_URL).replace(/\/+$/, '');
+    this.fallbackToken = fallbackToken;
+    this.fetchFn = fetchFn;
+  }
+
+  /**
+   * Get a valid installation token, minting a new one when the cached token is missing or about to expire
+   * When minting fails the fallback PAT is reused for FALLBACK_BACKOFF_MS instead of retrying on every request
+   * @returns Promise<string> - Installation access token (or the fallback PAT if minting fails)
+   */
+  async getToken(): Promise<string> {
+    if (this.cachedToken && this.cachedToken.expiresAt.getTime() - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+      return this.cachedToken.token;
+    }
+    if (this.fallbackToken && Date.now() < this.fallbackUntil) {
+      return this.fallbackToken;
+    }
+
+    try {
+      // Share one in-flight request between concurrent callers
+      if (!this.pendingToken) {
+        this.pendingToken = this.mintInstallationToken();
+      }
+      this.cachedToken = await this.pendingToken;
+      return this.cachedToken.token;
+    } catch (error) {
+      if (this.fallbackToken) {
+        logger.warn(`GitHub App token minting failed, falling back to TOKEN_GITHUB for ${FALLBACK_BACKOFF_MS / 60000} minutes: ${error instanceof Error ? error.message : String(error)}`);
+        this.fallbackUntil = Date.now() + FALLBACK_BACKOFF_MS;
+        return this.fallbackToken;
+      }
+      throw error;
+    } finally {
+      this.pendingToken = undefined;
+    }
+  }
+
+  /**
+   * Create the short-lived JWT that authenticates as the GitHub App itself
+   * @param now - Current time (used for testing)
+   * @returns string - RS256-signed JWT
+   */
+  createAppJwt(now: Date = new Date()): string {
+    const issuedAt = Math.floor(now.getTime() / 1000) - 60; // Allow for clock drift
+    const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify({
+      iat: issuedAt,
+      exp: issuedAt + 10 * 60, // GitHub accepts at most 10 minutes
+      iss: this.credentials.appId,
+    }));
+
+    const signer = createSign('RSA-SHA256');
+    signer.update(`${header}.${payload}`);
+    const signature = base64Url(signer.sign(this.credentials.privateKey));
+
+    return `${header}.${payload}.${signature}`;
+  }
+
+  /**
+   * Exchange the app JWT for an installation access token
+   * @returns Promise<InstallationToken> - Token and its expiry
+   * @throws {Error} If GitHub rejects the request
+   */
+  private async mintInstallationToken(): Promise<InstallationToken> {
+    const url = `${this.apiUrl}/app/installations/${this.credentials.installationId}/access_tokens`;
+    logger.debug(`Minting GitHub App installation token for installation ${this.credentials.installationId}`);
+
+    const response = await this.fetchFn(url, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${this.createAppJwt()}`,
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to mint GitHub App installation token: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const body = await response.json() as { token?: string; expires_at?: string };
+    if (!body.token || !body.expires_at) {
+      throw new Error('GitHub App installation token response is missing token or expires_at');
+    }
+
+    const expiresAt = new Date(body.expires_at);
+    logger.info(`🔑 Minted GitHub App installation token (expires ${expiresAt.toISOString()})`);
+    return { token: body.token, expiresAt };
+  }
+}
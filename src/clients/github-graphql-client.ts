@@ -1,8 +1,40 @@
 import { graphql } from '@octokit/graphql';
-import { OrganizationResponse, RepositoryQueryVariables, GitHubRepository, SingleRepositoryResponse } from '../types';
+import {
+  OrganizationResponse,
+  RepositoryQueryVariables,
+  GitHubRepository,
+  SingleRepositoryResponse,
+  RepositoryReleasesResponse,
+  GitHubReleaseConnection,
+  GitHubAuth,
+  RepositoryPropertiesResponse,
+  OrganizationTeamsResponse,
+  RepositoryCodeownersResponse
+} from '../types';
 
 type GraphQLFunction = (query: string, variables?: any) => Promise<any>;
 
+/**
+ * Number of releases requested per follow-up page when paging through a repository's releases
+ */
+export const RELEASES_PAGE_SIZE = 50;
+
+/**
+ * Schema fields the queries in this client depend on, keyed by GraphQL type
+ * Covers every query the client can send, including the custom property, team and CODEOWNERS queries
+ * Older GitHub Enterprise Server versions may lack some of them
+ */
+export const REQUIRED_SCHEMA_FIELDS: Record<string, string[]> = {
+  Organization: ['repositories', 'repository', 'teams'],
+  Repository: ['name', 'updatedAt', 'isArchived', 'isFork', 'repositoryTopics', 'releases', 'repositoryCustomPropertyValues', 'object'],
+  Release: ['tagName', 'name', 'publishedAt', 'description', 'url', 'author', 'isPrerelease'],
+  PageInfo: ['hasNextPage', 'endCursor'],
+  RepositoryCustomPropertyValue: ['propertyName', 'value'],
+  Team: ['slug', 'repositories'],
+  TeamRepositoryEdge: ['permission', 'node'],
+  Blob: ['text'],
+};
+
 /**
  * Pure GraphQL client for GitHub API communication
  * Handles only the raw data fetching, no business logic
@@ -10,13 +42,28 @@ type GraphQLFunction = (query: string, variables?: any) => Promise<any>;
 export class GitHubGraphQLClient {
   private readonly graphqlClient: GraphQLFunction;
 
-  constructor(token: string, graphqlFn?: GraphQLFunction) {
+  /**
+   * @param auth - GitHub token, or a token provider resolved before every request (GitHub App)
+   * @param graphqlFn - Optional GraphQL function (used for testing)
+   * @param baseUrl - Optional API base URL for GitHub Enterprise Server (e.g. https://github.example.com/api/v3)
+   */
+  constructor(auth: GitHubAuth, graphqlFn?: GraphQLFunction, baseUrl?: string) {
     if (graphqlFn) {
       this.graphqlClient = graphqlFn;
-    } else {
+    } else if (typeof auth === 'string') {
       this.graphqlClient = graphql.defaults({
+        ...(baseUrl ? { baseUrl } : {}),
+        headers: {
+          authorization: `token ${auth}`,
+        },
+      });
+    } else {
+      const baseClient = graphql.defaults(baseUrl ? { baseUrl } : {});
+      // Resolve the token per request so expiring installation tokens are refreshed mid-run
+      this.graphqlClient = async (query: string, variables?: any) => baseClient(query, {
+        ...variables,
         headers: {
-          authorization: `token ${token}`,
+          authorization: `token ${await auth.getToken()}`,
         },
       });
     }
@@ -24,7 +71,7 @@ export class GitHubGraphQLClient {
 
   /**
    * GraphQL query for fetching repositories with releases
-   * Fetches up to 10 releases per repository - filtering by date happens in application layer
+   * Fetches the first 10 releases per repository - further pages are fetched with REPOSITORY_RELEASES_QUERY
    * Ordered by updatedAt DESC for early stopping optimization
    */
   private readonly REPOSITORIES_QUERY = `
@@ -38,7 +85,20 @@ export class GitHubGraphQLClient {
           nodes {
             name
             updatedAt
+            isArchived
+            isFork
+            repositoryTopics(first: 20) {
+              nodes {
+                topic {
+                  name
+                }
+              }
+            }
             releases(first: 10, orderBy: {field: CREATED_AT, direction: DESC}) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
               nodes {
                 tagName
                 name
@@ -67,7 +127,20 @@ export class GitHubGraphQLClient {
         repository(name: $repoName) {
           name
           updatedAt
+          isArchived
+          isFork
+          repositoryTopics(first: 20) {
+            nodes {
+              topic {
+                name
+              }
+            }
+          }
           releases(first: 10, orderBy: {field: CREATED_AT, direction: DESC}) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
             nodes {
               tagName
               name
@@ -85,6 +158,113 @@ export class GitHubGraphQLClient {
     }
   `;
 
+  /**
+   * GraphQL query for fetching a further page of a repository's releases
+   * Used to page past the releases returned with the repository itself
+   */
+  private readonly REPOSITORY_RELEASES_QUERY = `
+    query($orgName: String!, $repoName: String!, $first: Int!, $after: String) {
+      organization(login: $orgName) {
+        repository(name: $repoName) {
+          releases(first: $first, after: $after, orderBy: {field: CREATED_AT, direction: DESC}) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              tagName
+              name
+              publishedAt
+              description
+              url
+              author {
+                login
+              }
+              isPrerelease
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  /**
+   * GraphQL query for fetching a repository's custom property values
+   * Kept separate from the repository queries so only runs filtering on properties need it
+   */
+  private readonly REPOSITORY_PROPERTIES_QUERY = `
+    query($orgName: String!, $repoName: String!) {
+      organization(login: $orgName) {
+        repository(name: $repoName) {
+          repositoryCustomPropertyValues(first: 100) {
+            nodes {
+              propertyName
+              value
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  /**
+   * GraphQL query for fetching a page of organization teams with their repository permissions
+   */
+  private readonly TEAMS_QUERY = `
+    query($orgName: String!, $first: Int!, $after: String) {
+      organization(login: $orgName) {
+        teams(first: $first, after: $after) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            slug
+            repositories(first: 100) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              edges {
+                permission
+                node {
+                  name
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  /**
+   * GraphQL query for fetching a repository's CODEOWNERS file from every supported location
+   */
+  private readonly CODEOWNERS_QUERY = `
+    query($orgName: String!, $repoName: String!) {
+      organization(login: $orgName) {
+        repository(name: $repoName) {
+          github: object(expression: "HEAD:.github/CODEOWNERS") {
+            ... on Blob {
+              text
+            }
+          }
+          root: object(expression: "HEAD:CODEOWNERS") {
+            ... on Blob {
+              text
+            }
+          }
+          docs: object(expression: "HEAD:docs/CODEOWNERS") {
+            ... on Blob {
+              text
+            }
+          }
+        }
+      }
+    }
+  `;
+
   /**
    * Execute a single GraphQL query to fetch repositories page
    * @param variables - Query variables (orgName, first, after)
@@ -163,6 +343,164 @@ export class GitHubGraphQLClient {
     }
   }
 
+  /**
+   * Execute a GraphQL query to fetch the next page of a repository's releases
+   * @param orgName - Organization name
+   * @param repoName - Repository name
+   * @param after - Cursor of the last release already fetched
+   * @param first - Number of releases to fetch
+   * @returns Promise<GitHubReleaseConnection> - Releases with pagination info
+   */
+  async fetchRepositoryReleasesPage(
+    orgName: string,
+    repoName: string,
+    after: string,
+    first: number = RELEASES_PAGE_SIZE
+  ): Promise<GitHubReleaseConnection> {
+    try {
+      const response = await this.graphqlClient(this.REPOSITORY_RELEASES_QUERY, { orgName, repoName, first, after });
+
+      if (response && response.errors && response.errors.length > 0) {
+        const errorMessages = response.errors.map((error: any) => error.message).join(', ');
+        throw new Error(`GraphQL errors: ${errorMessages}`);
+      }
+
+      const result = response as RepositoryReleasesResponse;
+      if (!result?.organization?.repository) {
+        throw new Error(`Repository '${orgName}/${repoName}' not found while paging releases`);
+      }
+
+      return result.organization.repository.releases;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error(`GraphQL query failed: ${error}`);
+    }
+  }
+
+  /**
+   * Execute a GraphQL query to fetch a repository's custom property values
+   * @param orgName - Organization name
+   * @param repoName - Repository name
+   * @returns Promise<Record<string, string>> - Property values keyed by property name (multi-select values are comma-joined)
+   */
+  async fetchRepositoryProperties(orgName: string, repoName: string): Promise<Record<string, string>> {
+    try {
+      const response = await this.graphqlClient(this.REPOSITORY_PROPERTIES_QUERY, { orgName, repoName });
+
+      if (response && response.errors && response.errors.length > 0) {
+        const errorMessages = response.errors.map((error: any) => error.message).join(', ');
+        throw new Error(`GraphQL errors: ${errorMessages}`);
+      }
+
+      const result = response as RepositoryPropertiesResponse;
+      if (!result?.organization?.repository) {
+        throw new Error(`Repository '${orgName}/${repoName}' not found while fetching custom properties`);
+      }
+
+      const properties: Record<string, string> = {};
+      for (const { propertyName, value } of result.organization.repository.repositoryCustomPropertyValues.nodes) {
+        if (value !== null) {
+          properties[propertyName] = Array.isArray(value) ? value.join(',') : value;
+        }
+      }
+      return properties;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error(`GraphQL query failed: ${error}`);
+    }
+  }
+
+  /**
+   * Execute a GraphQL query to fetch a page of organization teams with their repository permissions
+   * @param orgName - Organization name
+   * @param after - Optional cursor of the previous page
+   * @param first - Number of teams to fetch
+   * @returns Promise<OrganizationTeamsResponse>
+   */
+  async fetchTeamsPage(orgName: string, after?: string, first: number = 50): Promise<OrganizationTeamsResponse> {
+    try {
+      const response = await this.graphqlClient(this.TEAMS_QUERY, { orgName, first, after });
+
+      if (response && response.errors && response.errors.length > 0) {
+        const errorMessages = response.errors.map((error: any) => error.message).join(', ');
+        throw new Error(`GraphQL errors: ${errorMessages}`);
+      }
+
+      const result = response as OrganizationTeamsResponse;
+      if (!result?.organization) {
+        throw new Error(`Organization '${orgName}' not found or access denied while fetching teams`);
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error(`GraphQL query failed: ${error}`);
+    }
+  }
+
+  /**
+   * Execute a GraphQL query to fetch a repository's CODEOWNERS file
+   * GitHub uses the first file found in .github/, the repository root, then docs/
+   * @param orgName - Organization name
+   * @param repoName - Repository name
+   * @returns Promise<string | null> - CODEOWNERS content, or null when the repository has none
+   */
+  async fetchCodeowners(orgName: string, repoName: string): Promise<string | null> {
+    try {
+      const response = await this.graphqlClient(this.CODEOWNERS_QUERY, { orgName, repoName });
+
+      if (response && response.errors && response.errors.length > 0) {
+        const errorMessages = response.errors.map((error: any) => error.message).join(', ');
+        throw new Error(`GraphQL errors: ${errorMessages}`);
+      }
+
+      const repository = (response as RepositoryCodeownersResponse)?.organization?.repository;
+      if (!repository) {
+        return null;
+      }
+
+      return repository.github?.text ?? repository.root?.text ?? repository.docs?.text ?? null;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error(`GraphQL query failed: ${error}`);
+    }
+  }
+
+  /**
+   * Introspect the endpoint's schema and report fields used by this client that it lacks
+   * @returns Promise<string[]> - Missing fields as Type.field (empty when the schema is compatible)
+   */
+  async findMissingSchemaFields(): Promise<string[]> {
+    const typeNames = Object.keys(REQUIRED_SCHEMA_FIELDS);
+    const typeQueries = typeNames
+      .map(typeName => `${typeName}: __type(name: "${typeName}") { fields { name } }`)
+      .join('\n');
+
+    const response = await this.graphqlClient(`query {\n${typeQueries}\n}`);
+    if (!response) {
+      throw new Error('GraphQL schema introspection returned no data');
+    }
+
+    const missing: string[] = [];
+    for (const typeName of typeNames) {
+      const fields: string[] = (response[typeName]?.fields ?? []).map((field: any) => field.name);
+      for (const field of REQUIRED_SCHEMA_FIELDS[typeName]) {
+        if (!fields.includes(field)) {
+          missing.push(`${typeName}.${field}`);
+        }
+      }
+    }
+    return missing;
+  }
+
   /**
    * Get the GraphQL query string (useful for debugging)
    */
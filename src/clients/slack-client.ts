@@ -1,8 +1,7 @@
-import fetch, { RequestInit, Response } from 'node-fetch';
 import { SlackMessage } from '../types';
 import { logger } from '../utils/logger';
 
-type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+type Fetch = typeof fetch;
 
 export class SlackClient {
   private webhookUrl: string;
@@ -0,0 +1,83 @@
+import { SlackApiResponse, SlackMessage } from '../types';
+import { logger } from '../utils/logger';
+
+type Fetch = typeof fetch;
+
+const DEFAULT_SLACK_API_URL = 'https://slack.com/api';
+
+/**
+ * Slack Web API client authenticated with a bot token
+ * Unlike incoming webhooks, chat.postMessage returns the message `ts`, which allows threading and updates
+ */
+export class SlackWebClient {
+  private token: string;
+
+  private fetch: Fetch;
+
+  private apiUrl: string;
+
+  constructor(token: string, fetchFn: Fetch = fetch, apiUrl: string = DEFAULT_SLACK_API_URL) {
+    this.token = token;
+    this.fetch = fetchFn;
+    this.apiUrl = apiUrl;
+    if (!this.token) {
+      throw new Error('Slack bot token is required');
+    }
+  }
+
+  /**
+   * Post a message to a channel, optionally as a reply in a thread
+   * @returns Promise<string> - Timestamp (`ts`) of the posted message
+   */
+  async postMessage(channel: string, message: SlackMessage, threadTs?: string): Promise<string> {
+    const response = await this.call('chat.postMessage', {
+      channel,
+      ...message,
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+    });
+    return response.ts!;
+  }
+
+  /**
+   * Replace the content of a previously posted message
+   */
+  async updateMessage(channel: string, ts: string, message: SlackMessage): Promise<void> {
+    await this.call('chat.update', { channel, ts, ...message });
+  }
+
+  /**
+   * Delete a previously posted message
+   */
+  async deleteMessage(channel: string, ts: string): Promise<void> {
+    await this.call('chat.delete', { channel, ts });
+  }
+
+  /**
+   * Call a Web API method; Slack reports most failures as HTTP 200 with `ok: false`
+   * @throws {Error} When the request fails or Slack returns an error code
+   */
+  private async call(method: string, body: Record<string, unknown>): Promise<SlackApiResponse> {
+    const response = await this.fetch(`${this.apiUrl}/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        Authorization: `Bearer ${this.token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const responseBody = await response.text();
+      logger.error(`Slack ${method} error: ${response.status} ${response.statusText} - ${responseBody}`);
+      throw new Error(`Slack ${method} error: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json() as SlackApiResponse;
+    if (!result.ok) {
+      logger.error(`Slack ${method} failed: ${result.error}`);
+      throw new Error(`Slack ${method} failed: ${result.error}`);
+    }
+
+    return result;
+  }
+}
@@ -1,6 +1,14 @@
 import * as snowflake from 'snowflake-sdk';
 import { logger } from '../utils/logger';
-import { ISnowflakeClient, ISnowflakeConnectionConfig } from '../types';
+import { ISnowflakeClient, ISnowflakeConnectionConfig, RepositoryFilter } from '../types';
+import { globToLikePattern, LIKE_ESCAPE_CHAR } from '../core/repository-filter';
+
+/**
+ * Quote a value as a SQL string literal
+ */
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
 
 
 
@@ -113,7 +121,14 @@ class SnowflakeClient implements ISnowflakeClient {
     });
   }
 
-  buildReleasesSql(startDate: Date, endDate: Date, repositories?: string[], tableName: string = 'release'): string {
+  buildReleasesSql(
+    startDate: Date,
+    endDate: Date,
+    repositories?: string[],
+    tableName: string = 'release',
+    organization?: string,
+    repositoryFilter?: RepositoryFilter
+  ): string {
     const { database, schema } = this.connectionOptions;
     const fullTableName = database && schema ? `${database}.${schema}.${tableName}` : tableName;
 
@@ -121,12 +136,55 @@ class SnowflakeClient implements ISnowflakeClient {
       AND release_published_at >= '${startDate.toISOString()}'
       AND release_published_at <= '${endDate.toISOString()}'`;
 
-    if (repositories && repositories.length > 0) {
-      const repoList = repositories.map(repo => `'${repo}'`).join(', ');
+    const patterns = repositoryFilter?.patterns ?? [];
+    const ilike = (pattern: string) => `repository_name ILIKE '${globToLikePattern(pattern)}' ESCAPE '${LIKE_ESCAPE_CHAR}'`;
+
+    if (patterns.length > 0) {
+      // Exact names and glob patterns are alternatives: a repository matching either is included
+      const includes = patterns.map(ilike);
+      if (repositories && repositories.length > 0) {
+        includes.unshift(`repository_name IN (${repositories.map(sqlString).join(', ')})`);
+      }
+      whereClause += `
+      AND (${includes.join(' OR ')})`;
+    } else if (repositories && repositories.length > 0) {
+      const repoList = repositories.map(sqlString).join(', ');
       whereClause += `
       AND repository_name IN (${repoList})`;
     }
 
+    for (const pattern of repositoryFilter?.exclude ?? []) {
+      whereClause += `
+      AND NOT ${ilike(pattern)}`;
+    }
+
+    if (repositoryFilter?.skipArchived) {
+      whereClause += `
+      AND COALESCE(repository_archived, FALSE) = FALSE`;
+    }
+
+    if (repositoryFilter?.skipForks) {
+      whereClause += `
+      AND COALESCE(repository_fork, FALSE) = FALSE`;
+    }
+
+    if (repositoryFilter?.topics && repositoryFilter.topics.length > 0) {
+      const topicList = repositoryFilter.topics.map(topic => sqlString(topic.toLowerCase())).join(', ');
+      whereClause += `
+      AND ARRAYS_OVERLAP(repository_topics, ARRAY_CONSTRUCT(${topicList}))`;
+    }
+
+    for (const [property, value] of Object.entries(repositoryFilter?.properties ?? {})) {
+      whereClause += `
+      AND repository_custom_properties:${JSON.stringify(property)}::STRING = ${sqlString(value)}`;
+    }
+
+    // Owner filter is only needed when the table holds releases for several organizations
+    if (organization) {
+      whereClause += `
+      AND repository_owner_login = ${sqlString(organization)}`;
+    }
+
     return `SELECT
       repository_name AS REPOSITORY,
       release_tag_name AS TAG_NAME,
@@ -0,0 +1,62 @@
+import { RetryConfig, TeamsMessage } from '../types';
+import { logger } from '../utils/logger';
+import { deliveryError, withRetry } from '../utils/retry';
+
+type Fetch = typeof fetch;
+
+const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 10000,
+};
+
+/**
+ * Microsoft Teams client posting Adaptive Cards to an incoming webhook or a Workflows (Power Automate) URL
+ */
+export class TeamsClient {
+  private webhookUrl: string;
+
+  private fetch: Fetch;
+
+  private retryConfig: RetryConfig;
+
+  constructor(webhookUrl: string, retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG, fetchFn: Fetch = fetch) {
+    this.webhookUrl = webhookUrl;
+    this.retryConfig = retryConfig;
+    this.fetch = fetchFn;
+    if (!this.webhookUrl) {
+      throw new Error('Teams webhook URL is required');
+    }
+  }
+
+  /**
+   * Posts a message, retrying network failures, rate limiting and server errors
+   * Incoming webhooks answer 200, Workflows URLs 202 Accepted
+   */
+  async postMessage(message: TeamsMessage): Promise<void> {
+    try {
+      logger.info('Posting summary to Teams...');
+
+      await withRetry(async () => {
+        const response = await this.fetch(this.webhookUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(message),
+        });
+
+        if (!response.ok) {
+          const responseBody = await response.text();
+          logger.error(`Teams webhook error: ${response.status} ${response.statusText} - ${responseBody}`);
+          throw deliveryError(`Teams webhook error (${response.status}): ${responseBody}`, response.status);
+        }
+      }, 'Teams post', this.retryConfig);
+
+      logger.info('Successfully posted to Teams');
+    } catch (error) {
+      logger.error(`Failed to post to Teams: ${error}`);
+      throw new Error(`Failed to post to Teams: ${error}`);
+    }
+  }
+}
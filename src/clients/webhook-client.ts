@@ -0,0 +1,87 @@
+import { createHmac } from 'crypto';
+import { DigestDocument, RetryConfig } from '../types';
+import { logger } from '../utils/logger';
+import { deliveryError, withRetry } from '../utils/retry';
+
+type Fetch = typeof fetch;
+
+const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 10000,
+};
+
+/**
+ * Header carrying the HMAC-SHA256 signature of the request body when a secret is configured
+ */
+export const SIGNATURE_HEADER = 'X-Release-Digest-Signature-256';
+
+/**
+ * Header carrying the schema version of the posted document
+ */
+export const SCHEMA_VERSION_HEADER = 'X-Release-Digest-Schema-Version';
+
+/**
+ * Signature of a request body: "sha256=" followed by the hex HMAC-SHA256 of the body
+ * Receivers recompute it over the raw body with the shared secret and compare in constant time
+ */
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Client POSTing the JSON digest document to an arbitrary URL
+ */
+export class WebhookClient {
+  private url: string;
+
+  private secret?: string;
+
+  private fetch: Fetch;
+
+  private retryConfig: RetryConfig;
+
+  constructor(url: string, secret?: string, retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG, fetchFn: Fetch = fetch) {
+    this.url = url;
+    this.secret = secret;
+    this.retryConfig = retryConfig;
+    this.fetch = fetchFn;
+    if (!this.url) {
+      throw new Error('Webhook URL is required');
+    }
+  }
+
+  /**
+   * Posts a document, signed when a secret is configured,
+   * retrying network failures, rate limiting and server errors
+   */
+  async postDocument(document: DigestDocument): Promise<void> {
+    try {
+      logger.info('Posting digest document to webhook...');
+
+      const body = JSON.stringify(document);
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        [SCHEMA_VERSION_HEADER]: String(document.schemaVersion),
+      };
+      if (this.secret) {
+        headers[SIGNATURE_HEADER] = signPayload(body, this.secret);
+      }
+
+      await withRetry(async () => {
+        const response = await this.fetch(this.url, { method: 'POST', headers, body });
+
+        if (!response.ok) {
+          const responseBody = await response.text();
+          logger.error(`Webhook error: ${response.status} ${response.statusText} - ${responseBody}`);
+          throw deliveryError(`Webhook error (${response.status}): ${responseBody}`, response.status);
+        }
+      }, 'Webhook post', this.retryConfig);
+
+      logger.info('Successfully posted digest document to webhook');
+    } catch (error) {
+      logger.error(`Failed to post to webhook: ${error}`);
+      throw new Error(`Failed to post to webhook: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { DeliveryLedgerBackend, DeliveryRecord, SummaryConfig } from '../types';
+import { logger } from '../utils/logger';
+import { digestThreadKey } from './slack-thread';
+
+/**
+ * Delivery ledger backend persisting records in a local JSON file
+ */
+export class JsonFileLedgerBackend implements DeliveryLedgerBackend {
+  private records?: Record<string, DeliveryRecord>;
+
+  constructor(private readonly path: string) {}
+
+  async get(key: string): Promise<DeliveryRecord | undefined> {
+    return this.load()[key];
+  }
+
+  async set(key: string, record: DeliveryRecord): Promise<void> {
+    const records = this.load();
+    records[key] = record;
+    writeFileSync(this.path, `${JSON.stringify(records, null, 2)}\n`, 'utf-8');
+  }
+
+  private load(): Record<string, DeliveryRecord> {
+    if (!this.records) {
+      this.records = existsSync(this.path)
+        ? JSON.parse(readFileSync(this.path, 'utf-8')) as Record<string, DeliveryRecord>
+        : {};
+    }
+    return this.records;
+  }
+}
+
+/**
+ * Records which digest messages were delivered to which target so reruns do not post them again
+ */
+export class DeliveryLedger {
+  /**
+   * @param backend - Storage for delivery records
+   * @param force - Ignore recorded deliveries and deliver every message (--force)
+   */
+  constructor(
+    private readonly backend: DeliveryLedgerBackend,
+    private readonly force: boolean = false
+  ) {}
+
+  /**
+   * Messages of a digest that still need delivering to a target that cannot edit posted messages (webhooks)
+   * Messages recorded for the key are skipped, so a rerun posts nothing and an interrupted run resumes.
+   * Every message is returned when nothing was recorded or force is set.
+   * @param key - Digest and target identity (see deliveryKey)
+   * @param target - Target label stored with the record
+   * @param messages - Formatted digest messages
+   */
+  async pendingMessages<T extends string | object>(key: string, target: string, messages: T[]): Promise<T[]> {
+    const record = await this.backend.get(key);
+    if (!record || this.force) {
+      if (record) {
+        logger.info(`Forcing delivery of ${key} despite an earlier delivery at ${record.deliveredAt}`);
+      }
+      await this.backend.set(key, { target, messageHashes: [], deliveredAt: new Date().toISOString() });
+      return messages;
+    }
+
+    const delivered = record.messageHashes.length;
+    if (messages.slice(0, delivered).some((message, index) => hashMessage(message) !== record.messageHashes[index])) {
+      // AI summaries differ between runs, so changed content alone does not justify posting again
+      logger.warn(`Digest ${key} changed since its delivery at ${record.deliveredAt}; delivered messages are not posted again (use --force)`);
+    }
+    return messages.slice(delivered);
+  }
+
+  /**
+   * Check whether exactly these messages were delivered for the key
+   * Force makes every digest count as undelivered
+   */
+  async isDelivered(key: string, messages: Array<string | object>): Promise<boolean> {
+    const record = await this.backend.get(key);
+    if (!record || this.force) {
+      return false;
+    }
+    return record.messageHashes.length === messages.length
+      && messages.every((message, index) => hashMessage(message) === record.messageHashes[index]);
+  }
+
+  /**
+   * Record one delivered message, appended after the messages already recorded for the key
+   */
+  async markDelivered(key: string, target: string, message: string | object): Promise<void> {
+    const record = await this.backend.get(key);
+    await this.backend.set(key, {
+      target,
+      messageHashes: [...(record?.messageHashes ?? []), hashMessage(message)],
+      deliveredAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Record a whole digest as delivered (e.g. after posting or updating a Slack thread)
+   */
+  async recordDelivery(key: string, target: string, messages: Array<string | object>): Promise<void> {
+    await this.backend.set(key, {
+      target,
+      messageHashes: messages.map(hashMessage),
+      deliveredAt: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Ledger key of a digest delivered to a target:
+ * organizations, timeframe and fetched window (see digestThreadKey), repository selection and target
+ * @param config - Application configuration
+ * @param summaryConfig - Summary configuration of the digest, with the window it was fetched for
+ * @param target - Target label from webhookTarget or channelTarget
+ * @param team - Team whose slice of the digest is delivered
+ */
+export function deliveryKey(config: any, summaryConfig: SummaryConfig, target: string, team?: string): string {
+  const orgNames: string[] = config.orgNames && config.orgNames.length > 0 ? config.orgNames : [config.orgName];
+  const selection = hashContent(JSON.stringify({
+    repositories: config.repositories ?? [],
+    topics: config.repositoryTopics ?? [],
+    properties: config.repositoryProperties ?? {},
+    skipArchived: !!config.skipArchived,
+    skipForks: !!config.skipForks
+  })).slice(0, 12);
+
+  return [orgNames.join(','), digestThreadKey({ ...summaryConfig, team }), selection, target].join('|');
+}
+
+/**
+ * Target label of an incoming webhook; the URL is a secret, so only its hash is stored
+ */
+export function webhookTarget(webhookUrl: string): string {
+  return `webhook:${hashContent(webhookUrl).slice(0, 12)}`;
+}
+
+/**
+ * Target label of a channel posted to with a bot token
+ */
+export function channelTarget(channel: string): string {
+  return `channel:${channel}`;
+}
+
+/**
+ * Target label of an email recipient
+ */
+export function emailTarget(address: string): string {
+  return `email:${address.toLowerCase()}`;
+}
+
+function hashMessage(message: string | object): string {
+  return hashContent(typeof message === 'string' ? message : JSON.stringify(message));
+}
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
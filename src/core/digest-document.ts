@@ -0,0 +1,90 @@
+import {
+  DigestDocument,
+  ReleaseInfo,
+  RepositorySummaries,
+  RepositorySummary,
+  SummaryConfig
+} from '../types';
+import { logger } from '../utils/logger';
+import {
+  extractVersionFromName,
+  getDateRangeText,
+  getOrganizations,
+  groupReleasesByRepository,
+  summariesByLabel,
+  validateReleases
+} from './format';
+
+/**
+ * Current schema version of the JSON digest document
+ */
+export const DIGEST_SCHEMA_VERSION = 1;
+
+/**
+ * Build the versioned JSON document of a digest: timeframe, statistics and releases grouped by repository,
+ * with each repository's AI summary when descriptions are included
+ */
+export async function createDigestDocument(
+  releases: ReleaseInfo[],
+  config: SummaryConfig,
+  repositorySummaries?: RepositorySummaries,
+  now: Date = new Date()
+): Promise<DigestDocument> {
+  try {
+    validateReleases(releases);
+    logger.info(`Building digest document for ${releases.length} releases`);
+
+    const summaries = config.includeDescriptions
+      ? summariesByLabel(releases, repositorySummaries)
+      : new Map<string, RepositorySummary>();
+    const { timeframe } = config;
+
+    const document: DigestDocument = {
+      schemaVersion: DIGEST_SCHEMA_VERSION,
+      type: 'release-digest',
+      generatedAt: now.toISOString(),
+      timeframe: {
+        type: timeframe.type,
+        value: timeframe.value instanceof Date ? timeframe.value.toISOString().split('T')[0] : timeframe.value,
+        startDate: timeframe.startDate?.toISOString(),
+        endDate: timeframe.endDate?.toISOString(),
+        text: getDateRangeText(config)
+      },
+      organizations: getOrganizations(releases),
+      team: config.team,
+      dataSource: config.dataSource,
+      stats: {
+        releases: releases.length,
+        stable: releases.filter(r => !r.isPrerelease).length,
+        prerelease: releases.filter(r => r.isPrerelease).length,
+        repositories: new Set(releases.map(r => r.repository)).size
+      },
+      repositories: []
+    };
+
+    for (const [repoName, repoReleases] of groupReleasesByRepository(releases)) {
+      const summary = summaries.get(repoName);
+      document.repositories.push({
+        name: repoName,
+        organization: repoReleases[0].organization,
+        summary: summary?.text,
+        summaryGenerated: summary?.generated,
+        releases: repoReleases.map(release => ({
+          tagName: release.tagName,
+          name: release.name,
+          version: extractVersionFromName(release.name),
+          url: release.url,
+          publishedAt: release.publishedAt,
+          author: release.author,
+          prerelease: release.isPrerelease,
+          teams: release.teams
+        }))
+      });
+    }
+
+    return document;
+  } catch (error) {
+    logger.error(`Error building digest document: ${error}`);
+    throw new Error(`Failed to build digest document: ${error}`);
+  }
+}
@@ -0,0 +1,219 @@
+import {
+  DigestDocumentRepository,
+  DigestExport,
+  DigestExportTeam,
+  ExportFormat,
+  ReleaseInfo,
+  ReleaseSummaryStats,
+  RepositorySummaries,
+  SummaryConfig
+} from '../types';
+import { logger } from '../utils/logger';
+import { createDigestDocument } from './digest-document';
+import { formatDateForTable, groupReleasesByRepository, groupReleasesByTeam } from './format';
+
+const MS_IN_HOUR = 60 * 60 * 1000;
+
+/**
+ * Columns of the CSV export, one row per release
+ */
+const CSV_COLUMNS = [
+  'organization',
+  'repository',
+  'version',
+  'tag',
+  'name',
+  'published_at',
+  'prerelease',
+  'author',
+  'teams',
+  'url',
+  'summary'
+];
+
+/**
+ * Compute the release statistics of a digest
+ * @param dateRange - Time range the releases were fetched for
+ * @param repositoriesChecked - Number of repositories checked, when known
+ */
+export function createReleaseSummaryStats(
+  releases: ReleaseInfo[],
+  dateRange: { startDate: Date; endDate: Date },
+  repositoriesChecked?: number
+): ReleaseSummaryStats {
+  const prereleases = releases.filter(release => release.isPrerelease).length;
+
+  return {
+    totalReleases: releases.length,
+    prereleases,
+    stableReleases: releases.length - prereleases,
+    repositoriesWithReleases: new Set(releases.map(release => release.repository)).size,
+    totalRepositoriesChecked: repositoriesChecked,
+    timeRange: {
+      from: dateRange.startDate.toISOString(),
+      to: dateRange.endDate.toISOString(),
+      hours: Math.round((dateRange.endDate.getTime() - dateRange.startDate.getTime()) / MS_IN_HOUR)
+    }
+  };
+}
+
+/**
+ * Build the export of a digest: statistics, releases grouped by repository (and by team when
+ * releases carry owning teams) and, when descriptions are included, each repository's AI summary
+ */
+export async function createDigestExport(
+  releases: ReleaseInfo[],
+  config: SummaryConfig,
+  stats: ReleaseSummaryStats,
+  summaries?: RepositorySummaries,
+  now: Date = new Date()
+): Promise<DigestExport> {
+  try {
+    const document = await createDigestDocument(releases, config, summaries, now);
+
+    const digestExport: DigestExport = {
+      generatedAt: document.generatedAt,
+      dateRange: document.timeframe.text,
+      organizations: document.organizations,
+      dataSource: document.dataSource,
+      stats,
+      repositories: document.repositories
+    };
+
+    if (releases.some(release => release.teams && release.teams.length > 0)) {
+      digestExport.teams = groupTeams(releases);
+    }
+
+    return digestExport;
+  } catch (error) {
+    logger.error(`Error building digest export: ${error}`);
+    throw new Error(`Failed to build digest export: ${error}`);
+  }
+}
+
+/**
+ * Serialize a digest export as JSON, CSV (one row per release) or Markdown
+ */
+export function formatDigestExport(digestExport: DigestExport, format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(digestExport, null, 2)}\n`;
+    case 'csv':
+      return formatCsv(digestExport);
+    case 'md':
+      return formatMarkdown(digestExport);
+    default:
+      throw new Error(`Unknown export format: ${format}`);
+  }
+}
+
+/**
+ * Repository labels per team, using the labels of the full digest
+ */
+function groupTeams(releases: ReleaseInfo[]): DigestExportTeam[] {
+  const releasesByRepo = groupReleasesByRepository(releases);
+
+  return Array.from(groupReleasesByTeam(releases), ([name, teamReleases]) => ({
+    name,
+    repositories: Array.from(releasesByRepo)
+      .filter(([, repoReleases]) => repoReleases.some(release => teamReleases.includes(release)))
+      .map(([repoName]) => repoName)
+  }));
+}
+
+function formatCsv(digestExport: DigestExport): string {
+  const rows = [CSV_COLUMNS];
+
+  for (const repository of digestExport.repositories) {
+    for (const release of repository.releases) {
+      rows.push([
+        repository.organization ?? '',
+        repository.name,
+        release.version,
+        release.tagName,
+        release.name,
+        release.publishedAt,
+        String(release.prerelease),
+        release.author,
+        (release.teams ?? []).join(';'),
+        release.url,
+        repository.summary ?? ''
+      ]);
+    }
+  }
+
+  return `${rows.map(row => row.map(escapeCsv).join(',')).join('\r\n')}\r\n`;
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ */
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatMarkdown(digestExport: DigestExport): string {
+  const { stats } = digestExport;
+  const lines = [`# Release Summary - ${digestExport.dateRange}`, ''];
+
+  if (digestExport.dataSource) {
+    lines.push(`Source: ${digestExport.dataSource}`, '');
+  }
+  lines.push(
+    `- **Releases:** ${stats.totalReleases} (${stats.stableReleases} stable, ${stats.prereleases} pre-release)`,
+    `- **Repositories with releases:** ${stats.repositoriesWithReleases}${stats.totalRepositoriesChecked !== undefined ? ` of ${stats.totalRepositoriesChecked} checked` : ''}`,
+    `- **Time range:** ${stats.timeRange.from} to ${stats.timeRange.to} (${stats.timeRange.hours} hours)`
+  );
+  if (digestExport.organizations.length > 0) {
+    lines.push(`- **Organizations:** ${digestExport.organizations.join(', ')}`);
+  }
+
+  if (digestExport.repositories.length === 0) {
+    lines.push('', 'No releases found.');
+    return `${lines.join('\n')}\n`;
+  }
+
+  if (digestExport.teams) {
+    for (const team of digestExport.teams) {
+      lines.push('', `## ${team.name}`, '');
+      lines.push(...markdownTable(digestExport.repositories.filter(repository => team.repositories.includes(repository.name))));
+    }
+  } else {
+    lines.push('', '## Releases', '');
+    lines.push(...markdownTable(digestExport.repositories));
+  }
+
+  const summarized = digestExport.repositories.filter(repository => repository.summary);
+  if (summarized.length > 0) {
+    lines.push('', '## Summaries');
+    for (const repository of summarized) {
+      lines.push('', `### ${repository.name}`, '', repository.summary!);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function markdownTable(repositories: DigestDocumentRepository[]): string[] {
+  const rows = ['| Repository | Version | Published At | Author |', '| --- | --- | --- | --- |'];
+
+  for (const repository of repositories) {
+    for (const release of repository.releases) {
+      const version = `${escapeMarkdownCell(release.version)}${release.prerelease ? ' (pre-release)' : ''}`;
+      rows.push([
+        '',
+        escapeMarkdownCell(repository.name),
+        release.url ? `[${version}](${release.url})` : version,
+        formatDateForTable(release.publishedAt),
+        escapeMarkdownCell(release.author),
+        ''
+      ].join(' | ').trim());
+    }
+  }
+
+  return rows;
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
@@ -0,0 +1,186 @@
+import {
+  DiscordEmbed,
+  DiscordEmbedField,
+  DiscordMessage,
+  ReleaseInfo,
+  RepositorySummaries,
+  RepositorySummary,
+  SummaryConfig
+} from '../types';
+import { logger } from '../utils/logger';
+import {
+  extractVersionFromName,
+  formatDateForTable,
+  getDateRangeText,
+  getOrganizations,
+  groupReleasesByRepository,
+  summariesByLabel,
+  validateReleases
+} from './format';
+
+/**
+ * Discord embed limits; see https://discord.com/developers/docs/resources/message#embed-object-embed-limits
+ */
+export const DISCORD_LIMITS = {
+  embedsPerMessage: 10,
+  charactersPerMessage: 6000, // Sum of titles, descriptions, field names and values and footers of all embeds
+  title: 256,
+  description: 4096,
+  fields: 25,
+  fieldName: 256,
+  fieldValue: 1024,
+  footer: 2048,
+} as const;
+
+const COLOR_HEADER = 0x5865f2;
+const COLOR_STABLE = 0x2da44e;
+const COLOR_PRERELEASE = 0xbf8700;
+
+/**
+ * Format releases as Discord webhook messages: a header embed with release statistics,
+ * then one embed per repository with a field per release and, when descriptions are included,
+ * the repository's AI summary. Embeds are packed into as few messages as the limits allow.
+ */
+export async function formatReleaseEmbeds(
+  releases: ReleaseInfo[],
+  config: SummaryConfig,
+  repositorySummaries?: RepositorySummaries
+): Promise<DiscordMessage[]> {
+  try {
+    validateReleases(releases);
+    logger.info(`Formatting Discord embeds for ${releases.length} releases`);
+
+    const embeds = [createHeaderEmbed(releases, config)];
+    if (releases.length > 0) {
+      const summaries = config.includeDescriptions
+        ? summariesByLabel(releases, repositorySummaries)
+        : new Map<string, RepositorySummary>();
+      for (const [repoName, repoReleases] of groupReleasesByRepository(releases)) {
+        embeds.push(createRepositoryEmbed(repoName, repoReleases, summaries.get(repoName), !config.team));
+      }
+    }
+
+    return packEmbeds(embeds).map(group => ({ embeds: group }));
+  } catch (error) {
+    logger.error(`Error formatting Discord release message: ${error}`);
+    throw new Error(`Failed to format Discord release message: ${error}`);
+  }
+}
+
+function createHeaderEmbed(releases: ReleaseInfo[], config: SummaryConfig): DiscordEmbed {
+  const dateRange = getDateRangeText(config);
+  const lines: string[] = [];
+
+  if (releases.length === 0) {
+    lines.push(`No releases found for ${dateRange}`);
+  } else {
+    const stableCount = releases.filter(r => !r.isPrerelease).length;
+    const repoCount = new Set(releases.map(r => r.repository)).size;
+    lines.push(`**${releases.length}** releases • **${stableCount}** stable • **${releases.length - stableCount}** pre-release • **${repoCount}** repositories`);
+
+    const organizations = getOrganizations(releases);
+    if (organizations.length > 1) {
+      lines.push(`Organizations: ${organizations.join(', ')}`);
+    }
+  }
+  if (config.dataSource) {
+    lines.push(`Source: ${config.dataSource}`);
+  }
+
+  return {
+    title: truncate(`📊 Release Summary - ${dateRange}${config.team ? ` - ${config.team}` : ''}`, DISCORD_LIMITS.title),
+    description: truncate(lines.join('\n'), DISCORD_LIMITS.description),
+    color: COLOR_HEADER,
+  };
+}
+
+/**
+ * Embed of one repository: a field per release (linked version and publish date),
+ * the summary as description and, when releases carry owning teams, the teams as footer
+ */
+function createRepositoryEmbed(
+  repoName: string,
+  repoReleases: ReleaseInfo[],
+  summary: RepositorySummary | undefined,
+  showTeams: boolean
+): DiscordEmbed {
+  const fields: DiscordEmbedField[] = repoReleases.map(release => ({
+    name: truncate(`${extractVersionFromName(release.name)}${release.isPrerelease ? ' (pre-release)' : ''}`, DISCORD_LIMITS.fieldName),
+    value: truncate(release.url ? `[Release notes](${release.url}) • ${formatDateForTable(release.publishedAt)}` : formatDateForTable(release.publishedAt), DISCORD_LIMITS.fieldValue),
+    inline: true,
+  }));
+
+  // The last field reports the releases that do not fit
+  if (fields.length > DISCORD_LIMITS.fields) {
+    const hidden = fields.length - (DISCORD_LIMITS.fields - 1);
+    fields.splice(DISCORD_LIMITS.fields - 1, fields.length, {
+      name: `…and ${hidden} more`,
+      value: `${hidden} older release${hidden > 1 ? 's' : ''} not shown`,
+      inline: false,
+    });
+  }
+
+  const embed: DiscordEmbed = {
+    title: truncate(repoName, DISCORD_LIMITS.title),
+    url: repoReleases[0].url || undefined,
+    color: repoReleases.every(release => release.isPrerelease) ? COLOR_PRERELEASE : COLOR_STABLE,
+    fields,
+  };
+
+  const teams = showTeams ? Array.from(new Set(repoReleases.flatMap(release => release.teams ?? []))) : [];
+  if (teams.length > 0) {
+    embed.footer = { text: truncate(`Teams: ${teams.join(', ')}`, DISCORD_LIMITS.footer) };
+  }
+
+  if (summary) {
+    // The description takes whatever room the message budget leaves
+    const room = Math.min(DISCORD_LIMITS.description, DISCORD_LIMITS.charactersPerMessage - embedLength(embed));
+    if (room > 0) {
+      embed.description = truncate(summary.text, room);
+    }
+  }
+
+  return embed;
+}
+
+/**
+ * Group embeds into messages of at most 10 embeds and 6000 characters, keeping their order
+ */
+export function packEmbeds(embeds: DiscordEmbed[]): DiscordEmbed[][] {
+  const groups: DiscordEmbed[][] = [];
+  let current: DiscordEmbed[] = [];
+  let currentLength = 0;
+
+  for (const embed of embeds) {
+    const length = embedLength(embed);
+    if (
+      current.length > 0
+      && (current.length >= DISCORD_LIMITS.embedsPerMessage || currentLength + length > DISCORD_LIMITS.charactersPerMessage)
+    ) {
+      groups.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(embed);
+    currentLength += length;
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+  return groups;
+}
+
+/**
+ * Characters of an embed counted against the per-message limit
+ */
+export function embedLength(embed: DiscordEmbed): number {
+  return (embed.title?.length ?? 0)
+    + (embed.description?.length ?? 0)
+    + (embed.footer?.text.length ?? 0)
+    + (embed.fields ?? []).reduce((total, field) => total + field.name.length + field.value.length, 0);
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+}
@@ -0,0 +1,61 @@
+import { Digest, Notifier, NotifierPreview, RenderedMessage } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Render the digest with every notifier without delivering it
+ * Nothing is posted and the delivery ledger and Slack thread records are left untouched.
+ * A notifier that fails to render is reported in its preview; the others still render.
+ */
+export async function renderPreviews(notifiers: Notifier[], digest: Digest): Promise<NotifierPreview[]> {
+  const previews: NotifierPreview[] = [];
+
+  for (const notifier of notifiers) {
+    try {
+      logger.info(`Dry run: rendering digest for ${notifier.label}...`);
+      previews.push({ notifier: notifier.name, label: notifier.label, messages: await notifier.render(digest) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Dry run: ${notifier.label} rendering failed: ${message}`);
+      previews.push({ notifier: notifier.name, label: notifier.label, messages: [], error: message });
+    }
+  }
+
+  return previews;
+}
+
+/**
+ * Plain-text listing of the rendered messages, one banner per message
+ */
+export function formatPreviewText(previews: NotifierPreview[]): string {
+  const sections: string[] = [];
+
+  for (const preview of previews) {
+    if (preview.error) {
+      sections.push(`===== ${preview.label}: rendering failed =====\n${preview.error}`);
+      continue;
+    }
+    preview.messages.forEach((message, index) => {
+      sections.push(
+        `===== ${preview.label} → ${message.target} (message ${index + 1}/${preview.messages.length}) =====\n`
+        + formatContent(message)
+      );
+    });
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function formatContent(message: RenderedMessage): string {
+  const { content } = message;
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  // Emails read better as their subject and plain-text alternative
+  const email = content as { subject?: unknown; text?: unknown; html?: unknown };
+  if (typeof email.subject === 'string' && typeof email.text === 'string' && typeof email.html === 'string') {
+    return `Subject: ${email.subject}\n\n${email.text}`;
+  }
+
+  return JSON.stringify(content, null, 2);
+}
@@ -0,0 +1,233 @@
+import {
+  EmailMessage,
+  ReleaseInfo,
+  RepositorySummaries,
+  RepositorySummary,
+  SummaryConfig
+} from '../types';
+import { escapeHtml } from '../utils/html';
+import { logger } from '../utils/logger';
+import {
+  createSummaryTable,
+  extractVersionFromName,
+  formatDateForTable,
+  getDateRangeText,
+  getOrganizations,
+  groupReleasesByRepository,
+  groupReleasesByTeam,
+  summariesByLabel,
+  validateReleases
+} from './format';
+
+/**
+ * Subject used when EMAIL_SUBJECT is not set
+ */
+export const DEFAULT_EMAIL_SUBJECT = 'Release Digest - {dateRange}';
+
+const STYLES = `
+  body { margin: 0; padding: 0; background: #f4f5f7; }
+  .container { max-width: 640px; margin: 0 auto; background: #ffffff; font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #24292f; }
+  .content { padding: 24px; }
+  h1 { font-size: 22px; margin: 0 0 8px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  .subtle { color: #57606a; font-size: 13px; }
+  .stats { background: #f6f8fa; border-radius: 6px; padding: 12px 16px; margin: 16px 0; font-size: 14px; }
+  .releases { width: 100%; border-collapse: collapse; font-size: 14px; }
+  .releases th { text-align: left; border-bottom: 2px solid #d0d7de; padding: 6px 8px; }
+  .releases td { border-bottom: 1px solid #eaeef2; padding: 6px 8px; vertical-align: top; }
+  .releases .team td { background: #f6f8fa; font-weight: 600; }
+  .summary { font-size: 14px; line-height: 1.5; margin: 0 0 12px; }
+  @media only screen and (max-width: 480px) {
+    .content { padding: 16px; }
+    .releases th { display: none; }
+    .releases td { display: block; border-bottom: none; padding: 2px 8px; }
+    .releases tr { display: block; border-bottom: 1px solid #eaeef2; padding: 6px 0; }
+  }
+`;
+
+/**
+ * Format releases as an email digest: a responsive HTML body and a plain-text alternative,
+ * both with an inline stats summary, the release table and, when descriptions are included,
+ * the AI summary of each repository
+ * @param subjectTemplate - Subject with {dateRange}, {releaseCount}, {repositoryCount} and {organizations} placeholders
+ */
+export async function formatReleaseEmail(
+  releases: ReleaseInfo[],
+  config: SummaryConfig,
+  repositorySummaries?: RepositorySummaries,
+  subjectTemplate: string = DEFAULT_EMAIL_SUBJECT
+): Promise<EmailMessage> {
+  try {
+    validateReleases(releases);
+    logger.info(`Formatting email digest for ${releases.length} releases`);
+
+    const dateRange = getDateRangeText(config);
+    const title = `Release Summary - ${dateRange}${config.team ? ` - ${config.team}` : ''}`;
+    const summaries = config.includeDescriptions
+      ? summariesByLabel(releases, repositorySummaries)
+      : new Map<string, RepositorySummary>();
+
+    const subject = renderSubject(subjectTemplate, {
+      dateRange,
+      releaseCount: String(releases.length),
+      repositoryCount: String(new Set(releases.map(r => r.repository)).size),
+      organizations: getOrganizations(releases).join(', ')
+    });
+
+    return {
+      subject,
+      html: createHtmlBody(releases, config, title, summaries),
+      text: createTextBody(releases, config, title, summaries)
+    };
+  } catch (error) {
+    logger.error(`Error formatting email release message: ${error}`);
+    throw new Error(`Failed to format email release message: ${error}`);
+  }
+}
+
+/**
+ * Replace {name} placeholders in a subject template; unknown placeholders are left as they are
+ */
+export function renderSubject(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * One-line release statistics shown below the title
+ */
+function createStatsLine(releases: ReleaseInfo[]): string {
+  const stableCount = releases.filter(r => !r.isPrerelease).length;
+  const preReleaseCount = releases.filter(r => r.isPrerelease).length;
+  const repoCount = new Set(releases.map(r => r.repository)).size;
+  let stats = `${releases.length} releases • ${stableCount} stable • ${preReleaseCount} pre-release • ${repoCount} repositories`;
+
+  const organizations = getOrganizations(releases);
+  if (organizations.length > 1) {
+    stats += ` • ${organizations.length} organizations (${organizations.join(', ')})`;
+  }
+  return stats;
+}
+
+function createHtmlBody(
+  releases: ReleaseInfo[],
+  config: SummaryConfig,
+  title: string,
+  summaries: Map<string, RepositorySummary>
+): string {
+  const sections: string[] = [`<h1>${escapeHtml(title)}</h1>`];
+  if (config.dataSource) {
+    sections.push(`<div class="subtle">Source: ${escapeHtml(config.dataSource)}</div>`);
+  }
+
+  if (releases.length === 0) {
+    sections.push(`<p>No releases found for ${escapeHtml(getDateRangeText(config))}</p>`);
+  } else {
+    sections.push(`<div class="stats">${escapeHtml(createStatsLine(releases))}</div>`);
+    sections.push(createHtmlTable(releases, !config.team));
+
+    if (summaries.size > 0) {
+      sections.push('<h2>Summaries</h2>');
+      for (const [repoName, summary] of summaries) {
+        sections.push(
+          `<p class="summary"><strong>${escapeHtml(repoName)}</strong><br>`
+          + `<span${summary.generated ? '' : ' class="subtle"'}>${escapeHtml(summary.text)}</span></p>`
+        );
+      }
+    }
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<div class="container"><div class="content">',
+    ...sections,
+    '</div></div>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Table of releases (repository, linked version, published at),
+ * with a row per team heading its releases when releases carry owning teams
+ */
+function createHtmlTable(releases: ReleaseInfo[], groupByTeam: boolean): string {
+  const releasesByRepo = groupReleasesByRepository(releases);
+  const rows: string[] = [];
+
+  const addRows = (rowsByRepo: Map<string, ReleaseInfo[]>) => {
+    for (const [repoName, repoReleases] of rowsByRepo) {
+      for (const release of repoReleases) {
+        const version = escapeHtml(extractVersionFromName(release.name));
+        const versionHtml = release.url ? `<a href="${escapeHtml(release.url)}">${version}</a>` : version;
+        rows.push(
+          `<tr><td>${escapeHtml(repoName)}</td>`
+          + `<td>${versionHtml}${release.isPrerelease ? ' <span class="subtle">(pre-release)</span>' : ''}</td>`
+          + `<td>${escapeHtml(formatDateForTable(release.publishedAt))}</td></tr>`
+        );
+      }
+    }
+  };
+
+  if (groupByTeam && releases.some(release => release.teams && release.teams.length > 0)) {
+    for (const [team, teamReleases] of groupReleasesByTeam(releases)) {
+      rows.push(`<tr class="team"><td colspan="3">${escapeHtml(team)}</td></tr>`);
+      const teamRows = new Map<string, ReleaseInfo[]>();
+      for (const [repoName, repoReleases] of releasesByRepo) {
+        const owned = repoReleases.filter(release => teamReleases.includes(release));
+        if (owned.length > 0) {
+          teamRows.set(repoName, owned);
+        }
+      }
+      addRows(teamRows);
+    }
+  } else {
+    addRows(releasesByRepo);
+  }
+
+  return [
+    '<table class="releases" role="presentation">',
+    '<tr><th>Repository</th><th>Version</th><th>Published At</th></tr>',
+    ...rows,
+    '</table>'
+  ].join('\n');
+}
+
+function createTextBody(
+  releases: ReleaseInfo[],
+  config: SummaryConfig,
+  title: string,
+  summaries: Map<string, RepositorySummary>
+): string {
+  const lines = [title];
+  if (config.dataSource) {
+    lines.push(`Source: ${config.dataSource}`);
+  }
+  lines.push('');
+
+  if (releases.length === 0) {
+    lines.push(`No releases found for ${getDateRangeText(config)}`);
+    return `${lines.join('\n')}\n`;
+  }
+
+  lines.push(`Summary: ${createStatsLine(releases)}`, '');
+  // The Slack table without its code fences
+  lines.push(createSummaryTable(releases, !config.team, config).replace(/```\n?/g, '').trimEnd());
+
+  if (summaries.size > 0) {
+    lines.push('', 'Summaries', '');
+    for (const [repoName, summary] of summaries) {
+      lines.push(`${repoName}:`, summary.text, '');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
@@ -0,0 +1,57 @@
+import { EmailMessage, EmailSettings, RetryConfig } from '../types';
+import { EmailClient } from '../clients/email-client';
+import { logger } from '../utils/logger';
+import { DeliveryLedger, emailTarget } from './delivery-ledger';
+
+/**
+ * Email integration module for sending GitHub release summaries
+ *
+ * This module handles:
+ * - Sending a separate copy of the digest to each recipient
+ * - Delivery ledger checks per recipient so reruns only email recipients that did not get the digest
+ * - Sending through EmailClient (with retry)
+ */
+
+/**
+ * Emails the digest to every configured recipient the ledger does not record as delivered
+ * A failed recipient does not stop the others; failures are reported together afterwards
+ *
+ * @param message - Rendered email digest
+ * @param settings - SMTP server, sender and recipients
+ * @param retryConfig - Attempts and backoff for failed sends
+ * @param ledger - Delivery ledger consulted before and updated after each send
+ * @param keyFor - Ledger key of the digest for a recipient target (see deliveryKey)
+ * @throws {Error} When sending to any recipient fails
+ */
+export async function deliverByEmail(
+  message: EmailMessage,
+  settings: EmailSettings,
+  retryConfig: RetryConfig,
+  ledger: DeliveryLedger,
+  keyFor: (target: string) => string
+): Promise<void> {
+  const client = new EmailClient(settings.smtp, retryConfig);
+  const failures: string[] = [];
+
+  for (const recipient of settings.recipients) {
+    const target = emailTarget(recipient);
+    const key = keyFor(target);
+    const [pending] = await ledger.pendingMessages(key, target, [message]);
+
+    if (!pending) {
+      logger.info(`Digest ${key} was already emailed to ${recipient}, skipping (use --force to send it again)`);
+      continue;
+    }
+
+    try {
+      await client.sendMessage(settings.from, recipient, message);
+      await ledger.markDelivered(key, target, pending);
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Email delivery failed for ${failures.length} of ${settings.recipients.length} recipients: ${failures.join('; ')}`);
+  }
+}
@@ -0,0 +1,240 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { XMLParser } from 'fast-xml-parser';
+import { FeedEntry, FeedFormat, FeedMetadata, ReleaseInfo, RepositorySummary } from '../types';
+import { logger } from '../utils/logger';
+import { groupReleasesByRepository } from './format';
+
+const ATOM_NAMESPACE = 'http://www.w3.org/2005/Atom';
+const DUBLIN_CORE_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+
+const PRERELEASE_CATEGORY = 'pre-release';
+
+/**
+ * Parser for previously written feeds; values stay strings so tags like 1.10 are not read as numbers
+ */
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  isArray: name => ['entry', 'item', 'link', 'category'].includes(name),
+});
+
+/**
+ * Create one feed entry per release, carrying its repository's summary when one was generated
+ * @param summaries - Repository summaries keyed by repository label
+ */
+export function createFeedEntries(
+  releases: ReleaseInfo[],
+  summaries: Map<string, RepositorySummary> = new Map()
+): FeedEntry[] {
+  const entries: FeedEntry[] = [];
+
+  for (const [repoName, repoReleases] of groupReleasesByRepository(releases)) {
+    for (const release of repoReleases) {
+      entries.push({
+        id: release.url || `${release.repository}@${release.tagName}`,
+        title: `${repoName} ${release.tagName}${release.isPrerelease ? ' (pre-release)' : ''}`,
+        link: release.url,
+        published: new Date(release.publishedAt).toISOString(),
+        author: release.author,
+        summary: summaries.get(repoName)?.text,
+        categories: [repoName, ...(release.teams ?? []), ...(release.isPrerelease ? [PRERELEASE_CATEGORY] : [])]
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Merge new entries into the entries of the previous feed
+ * Entries are keyed by id (new entries replace old ones), ordered newest first and capped at maxEntries
+ */
+export function mergeFeedEntries(existing: FeedEntry[], incoming: FeedEntry[], maxEntries: number): FeedEntry[] {
+  const byId = new Map<string, FeedEntry>();
+  for (const entry of [...existing, ...incoming]) {
+    byId.set(entry.id, entry);
+  }
+
+  return Array.from(byId.values())
+    .sort((a, b) => Date.parse(b.published) - Date.parse(a.published))
+    .slice(0, maxEntries);
+}
+
+/**
+ * Read the entries of a previously written Atom or RSS feed
+ * Entries without a valid date are skipped so one malformed entry does not discard the feed's history
+ * @throws {Error} If the document is neither an Atom nor an RSS feed
+ */
+export function parseFeedEntries(xml: string): FeedEntry[] {
+  const document = parser.parse(xml);
+
+  if (document.feed) {
+    return withValidDates((document.feed.entry ?? []).map((entry: any): FeedEntry => ({
+      id: text(entry.id),
+      title: text(entry.title),
+      link: (entry.link ?? []).find((link: any) => !link['@_rel'] || link['@_rel'] === 'alternate')?.['@_href'] ?? '',
+      published: isoDate(text(entry.published) || text(entry.updated)),
+      author: text(entry.author?.name),
+      summary: text(entry.summary) || undefined,
+      categories: (entry.category ?? []).map((category: any) => category['@_term'])
+    })));
+  }
+
+  if (document.rss) {
+    return withValidDates((document.rss.channel?.item ?? []).map((item: any): FeedEntry => ({
+      id: text(item.guid),
+      title: text(item.title),
+      link: text(item.link?.[0]),
+      published: isoDate(text(item.pubDate)),
+      author: text(item['dc:creator']),
+      summary: text(item.description) || undefined,
+      categories: (item.category ?? []).map(text)
+    })));
+  }
+
+  throw new Error('Not an Atom or RSS feed');
+}
+
+/**
+ * Drop entries whose date could not be read, logging each one
+ */
+function withValidDates(entries: FeedEntry[]): FeedEntry[] {
+  return entries.filter(entry => {
+    if (!entry.published) {
+      logger.warn(`Skipping feed entry ${entry.id || entry.title || '(untitled)'} without a valid date`);
+    }
+    return Boolean(entry.published);
+  });
+}
+
+/**
+ * Render entries as an Atom 1.0 feed
+ */
+export function formatAtomFeed(metadata: FeedMetadata, entries: FeedEntry[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<feed xmlns="${ATOM_NAMESPACE}">`,
+    `  <id>${escapeXml(metadata.id)}</id>`,
+    `  <title>${escapeXml(metadata.title)}</title>`,
+    `  <link rel="alternate" href="${escapeXml(metadata.link)}"/>`,
+    `  <updated>${metadata.updated}</updated>`,
+    '  <generator>github-release-digest</generator>'
+  ];
+
+  for (const entry of entries) {
+    lines.push(
+      '  <entry>',
+      `    <id>${escapeXml(entry.id)}</id>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(entry.link)}"/>`,
+      `    <published>${entry.published}</published>`,
+      `    <updated>${entry.published}</updated>`,
+      `    <author><name>${escapeXml(entry.author)}</name></author>`,
+      ...entry.categories.map(category => `    <category term="${escapeXml(category)}"/>`),
+      ...(entry.summary ? [`    <summary>${escapeXml(entry.summary)}</summary>`] : []),
+      '  </entry>'
+    );
+  }
+
+  lines.push('</feed>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Render entries as an RSS 2.0 feed; authors use dc:creator since RSS authors must be email addresses
+ */
+export function formatRssFeed(metadata: FeedMetadata, entries: FeedEntry[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<rss version="2.0" xmlns:dc="${DUBLIN_CORE_NAMESPACE}">`,
+    '  <channel>',
+    `    <title>${escapeXml(metadata.title)}</title>`,
+    `    <link>${escapeXml(metadata.link)}</link>`,
+    `    <description>${escapeXml(metadata.title)}</description>`,
+    `    <lastBuildDate>${new Date(metadata.updated).toUTCString()}</lastBuildDate>`,
+    '    <generator>github-release-digest</generator>'
+  ];
+
+  for (const entry of entries) {
+    lines.push(
+      '    <item>',
+      `      <guid isPermaLink="${entry.id === entry.link}">${escapeXml(entry.id)}</guid>`,
+      `      <title>${escapeXml(entry.title)}</title>`,
+      `      <link>${escapeXml(entry.link)}</link>`,
+      `      <pubDate>${new Date(entry.published).toUTCString()}</pubDate>`,
+      `      <dc:creator>${escapeXml(entry.author)}</dc:creator>`,
+      ...entry.categories.map(category => `      <category>${escapeXml(category)}</category>`),
+      ...(entry.summary ? [`      <description>${escapeXml(entry.summary)}</description>`] : []),
+      '    </item>'
+    );
+  }
+
+  lines.push('  </channel>', '</rss>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Render a feed file: the new entries merged with the entries already in the file
+ * An unreadable existing file is replaced rather than failing the run
+ */
+export function renderFeedFile(
+  file: string,
+  format: FeedFormat,
+  metadata: FeedMetadata,
+  entries: FeedEntry[],
+  maxEntries: number
+): string {
+  let existing: FeedEntry[] = [];
+  if (existsSync(file)) {
+    try {
+      existing = parseFeedEntries(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      logger.warn(`Could not read existing feed ${file}, starting a new feed: ${error}`);
+    }
+  }
+
+  const merged = mergeFeedEntries(existing, entries, maxEntries);
+  logger.info(`Feed ${file}: ${merged.length} entries (${existing.length} previous, ${entries.length} from this run, at most ${maxEntries})`);
+  return format === 'atom' ? formatAtomFeed(metadata, merged) : formatRssFeed(metadata, merged);
+}
+
+/**
+ * Write a feed file merged with its previous entries
+ */
+export function updateFeedFile(
+  file: string,
+  format: FeedFormat,
+  metadata: FeedMetadata,
+  entries: FeedEntry[],
+  maxEntries: number
+): void {
+  writeFileSync(file, renderFeedFile(file, format, metadata, entries, maxEntries), 'utf-8');
+}
+
+/**
+ * ISO form of a feed date (RFC 822 or RFC 3339), empty when missing or invalid
+ */
+function isoDate(value: string): string {
+  const time = Date.parse(value);
+  return value && !Number.isNaN(time) ? new Date(time).toISOString() : '';
+}
+
+function text(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return String((value as Record<string, unknown>)['#text'] ?? '');
+  }
+  return String(value);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
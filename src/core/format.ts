@@ -1,6 +1,7 @@
-import { ReleaseInfo, SummaryConfig } from '../types';
+import { ReleaseInfo, RepositorySummaries, RepositorySummary, SummaryConfig } from '../types';
 import { logger } from '../utils/logger';
-import { summarizeText } from '../AI/open-router';
+import { summarizeText } from '../AI/summarizer';
+import { createTemplateContext, getBuiltinTemplates } from './message-templates';
 
 /**
  * Format release information into separate messages for each repository
@@ -9,6 +10,7 @@ import { summarizeText } from '../AI/open-router';
 export async function formatReleaseMessage(
   releases: ReleaseInfo[],
   config: SummaryConfig,
+  summaries?: RepositorySummaries,
   requestedRepositories?: string[]
 ): Promise<string[]> {
   try {
@@ -20,12 +22,12 @@ export async function formatReleaseMessage(
     const header = createSummaryHeader(releases, config, requestedRepositories);
     messages.push(header);
 
-    const summaryTable = createSummaryTable(releases);
+    // A single team's slice is not split into team sections again
+    const summaryTable = createSummaryTable(releases, !config.team, config);
     messages.push(summaryTable);
 
     if (config.includeDescriptions) {
-      const details = await createSummaryDetails(releases, config);
-      messages.push(...details);
+      messages.push(...createSummaryDetails(releases, summariesByLabel(releases, summaries), config));
     }
 
     messages.forEach((message, index) => {
@@ -48,173 +50,183 @@ export async function formatReleaseMessage(
 /**
  * Create summary header with stats
  */
-function createSummaryHeader(
+export function createSummaryHeader(
   releases: ReleaseInfo[],
   config: SummaryConfig,
   requestedRepositories?: string[]
 ): string {
-  const dateRange = getDateRangeText(config);
+  const templates = config.templates ?? getBuiltinTemplates();
+  return templates.header(createTemplateContext(releases, config, { requestedRepositories }));
+}
 
-  if (releases.length === 0) {
-    return `:bar_chart: RELEASE SUMMARY: No releases found for ${dateRange}`;
+/**
+ * Get the distinct organizations of the releases, in order of first appearance
+ */
+export function getOrganizations(releases: ReleaseInfo[]): string[] {
+  const organizations: string[] = [];
+  for (const release of releases) {
+    if (release.organization && !organizations.includes(release.organization)) {
+      organizations.push(release.organization);
+    }
   }
+  return organizations;
+}
 
-  const stableCount = releases.filter(r => !r.isPrerelease).length;
-  const preReleaseCount = releases.filter(r => r.isPrerelease).length;
-  const repoCount = new Set(releases.map(r => r.repository)).size;
-
-  let summaryMessage = `:bar_chart: RELEASE SUMMARY - ${dateRange}`;
-
-  if (requestedRepositories && requestedRepositories.length > 0) {
-    const repoList = requestedRepositories.join(', ');
-    summaryMessage += ` - ${repoList}`;
+/**
+ * Get the label shown for a release's repository
+ * Multi-org digests show org/repo; single-org digests show the bare repository name
+ */
+export function getRepositoryLabel(release: ReleaseInfo, multiOrg: boolean): string {
+  const prefix = `${release.organization}/`;
+  if (!multiOrg && release.organization && release.repository.startsWith(prefix)) {
+    return release.repository.slice(prefix.length);
   }
-
-  summaryMessage += `\n\nSummary: ${releases.length} releases • ${stableCount} stable • ${preReleaseCount} pre-release • ${repoCount} repositories`;
-
-  return summaryMessage;
+  return release.repository;
 }
 
 /**
- * Create detailed repository descriptions
+ * Group releases by repository label, keeping repositories of the same organization together
  */
-async function createSummaryDetails(
-  releases: ReleaseInfo[],
-  config: SummaryConfig
-): Promise<string[]> {
-  const messages: string[] = [];
+export function groupReleasesByRepository(releases: ReleaseInfo[]): Map<string, ReleaseInfo[]> {
+  const organizations = getOrganizations(releases);
+  const multiOrg = organizations.length > 1;
+  const orgOrder = (release: ReleaseInfo) => organizations.indexOf(release.organization ?? '');
+  const ordered = multiOrg ? [...releases].sort((a, b) => orgOrder(a) - orgOrder(b)) : releases;
 
   const releasesByRepo = new Map<string, ReleaseInfo[]>();
-  releases.forEach(release => {
-    if (!releasesByRepo.has(release.repository)) {
-      releasesByRepo.set(release.repository, []);
+  ordered.forEach(release => {
+    const label = getRepositoryLabel(release, multiOrg);
+    if (!releasesByRepo.has(label)) {
+      releasesByRepo.set(label, []);
     }
-    releasesByRepo.get(release.repository)!.push(release);
+    releasesByRepo.get(label)!.push(release);
   });
+  return releasesByRepo;
+}
 
-  for (const [repoName, repoReleases] of releasesByRepo) {
-    let repoMessage = '';
+/**
+ * Label for releases whose repository has no owning team
+ */
+export const UNOWNED_TEAM = 'Unowned';
 
-    repoMessage += '```\n';
+/**
+ * Group releases by owning team, in order of first appearance with unowned releases last
+ * A release owned by several teams appears in each of their groups
+ */
+export function groupReleasesByTeam(releases: ReleaseInfo[]): Map<string, ReleaseInfo[]> {
+  const releasesByTeam = new Map<string, ReleaseInfo[]>();
+  const unowned: ReleaseInfo[] = [];
+
+  for (const release of releases) {
+    if (!release.teams || release.teams.length === 0) {
+      unowned.push(release);
+      continue;
+    }
+    for (const team of release.teams) {
+      if (!releasesByTeam.has(team)) {
+        releasesByTeam.set(team, []);
+      }
+      releasesByTeam.get(team)!.push(release);
+    }
+  }
 
-    repoMessage += `${repoName}:\n\n`;
+  if (unowned.length > 0) {
+    releasesByTeam.set(UNOWNED_TEAM, unowned);
+  }
+  return releasesByTeam;
+}
 
-    for (const release of repoReleases) {
-      const dateStr = formatDateForTable(release.publishedAt);
-      const versionText = extractVersionFromName(release.name);
-      repoMessage += `                  | ${versionText} | ${dateStr} | ${release.url}\n`;
-    }
+/**
+ * Summarize each repository's release descriptions, keyed by org/repo name
+ * Runs once per digest; notifiers, team slices and exports read the result through summariesByLabel
+ * Uses AI summarization and falls back to a generic summary when it fails
+ */
+export async function summarizeRepositories(releases: ReleaseInfo[]): Promise<RepositorySummaries> {
+  const summaries: RepositorySummaries = new Map();
 
+  for (const [repoName, repoReleases] of groupReleasesByRepository(releases)) {
+    const repository = repoReleases[0].repository;
     // Generate combined summary for all releases in this repository
     const allDescriptions = repoReleases.map(release => {
       const rawDescription = release.description || 'No description available';
       return rawDescription;
     }).filter(desc => desc !== 'No description' && desc.length > 0);
 
-    if (allDescriptions.length > 0) {
-      const combinedDescription = allDescriptions.join(' ');
-
-      // Only perform AI summarization if includeDescriptions is true
-      if (config.includeDescriptions) {
-        try {
-          const summarizedDescription = await summarizeText(combinedDescription);
-          repoMessage += `                  | Summary:\n`;
-
-          // Wrap the summary text to fit the column width
-          const detailsColWidth = 110;
-          const wrappedSummary = wrapText(summarizedDescription, detailsColWidth);
-          wrappedSummary.forEach(line => {
-            if (line.trim() !== '') {
-              repoMessage += `                  | ${line}\n`;
-            }
-          });
-
-          logger.info(`AI summarized combined description for ${repoName}`);
-        } catch (error) {
-          logger.warn(`Failed to summarize combined description for ${repoName}, using original: ${error}`);
-          // Use a simple fallback summary
-          const releaseCount = repoReleases.length;
-          const latestVersion = repoReleases[0].name;
-          repoMessage += `                  | *Summary:*\n`;
-          repoMessage += `                  | ${releaseCount} release${releaseCount > 1 ? 's' : ''} including ${latestVersion} with technical improvements and bug fixes.\n`;
-        }
-      } else {
-        // Skip AI summarization when includeDescriptions is false
-        logger.info(`Skipping AI summarization for ${repoName} (includeDescriptions: false)`);
-      }
-    } else {
-      repoMessage += `                  | *Summary:*\n`;
-      repoMessage += `                  | ${repoReleases.length} release${repoReleases.length > 1 ? 's' : ''} with technical updates.\n`;
+    if (allDescriptions.length === 0) {
+      summaries.set(repository, {
+        text: `${repoReleases.length} release${repoReleases.length > 1 ? 's' : ''} with technical updates.`,
+        generated: false
+      });
+      continue;
     }
 
-    // Close code block
-    repoMessage += '```\n';
-
-    messages.push(repoMessage);
+    const combinedDescription = allDescriptions.join(' ');
+    try {
+      const summarizedDescription = await summarizeText(combinedDescription, repository);
+      summaries.set(repository, { text: summarizedDescription, generated: true });
+      logger.info(`AI summarized combined description for ${repoName}`);
+    } catch (error) {
+      logger.warn(`Failed to summarize combined description for ${repoName}, using original: ${error}`);
+      // Use a simple fallback summary
+      const releaseCount = repoReleases.length;
+      const latestVersion = repoReleases[0].name;
+      summaries.set(repository, {
+        text: `${releaseCount} release${releaseCount > 1 ? 's' : ''} including ${latestVersion} with technical improvements and bug fixes.`,
+        generated: false
+      });
+    }
   }
 
-  return messages;
+  return summaries;
 }
 
 /**
- * Create a summary table of all releases
+ * Summaries of the repositories of a digest or team slice, keyed by the repository label the slice shows
+ * @param summaries - Summaries of the whole digest keyed by org/repo name (see summarizeRepositories)
  */
-export function createSummaryTable(releases: ReleaseInfo[]): string {
-  if (releases.length === 0) {
-    return '```\nNo releases found\n```';
+export function summariesByLabel(releases: ReleaseInfo[], summaries: RepositorySummaries = new Map()): Map<string, RepositorySummary> {
+  const labelled = new Map<string, RepositorySummary>();
+  for (const [repoName, repoReleases] of groupReleasesByRepository(releases)) {
+    const summary = summaries.get(repoReleases[0].repository);
+    if (summary) {
+      labelled.set(repoName, summary);
+    }
   }
+  return labelled;
+}
 
-  let tableMessage = '```\n';
+/**
+ * Create detailed repository descriptions, one message per repository
+ */
+export function createSummaryDetails(
+  releases: ReleaseInfo[],
+  summaries: Map<string, RepositorySummary>,
+  config: SummaryConfig
+): string[] {
+  const templates = config.templates ?? getBuiltinTemplates();
+  const context = createTemplateContext(releases, config, { summaries });
 
-  // Group releases by repository
-  const releasesByRepo = new Map<string, ReleaseInfo[]>();
-  releases.forEach(release => {
-    if (!releasesByRepo.has(release.repository)) {
-      releasesByRepo.set(release.repository, []);
-    }
-    releasesByRepo.get(release.repository)!.push(release);
-  });
+  return context.repositories.map(repository => templates.details({ ...context, repository }));
+}
 
+/**
+ * Create a summary table of all releases
+ * When releases carry owning teams, rows are grouped under a subheader per team
+ * @param config - Formatting config of the digest, for its templates and date range
+ */
+export function createSummaryTable(
+  releases: ReleaseInfo[],
+  groupByTeam: boolean = true,
+  config: Partial<SummaryConfig> = {}
+): string {
   // Log releasesByRepo with full details
-  logger.info('📋 Releases grouped by repository:');
-  const releasesByRepoObj = Object.fromEntries(releasesByRepo);
-  logger.info(JSON.stringify(releasesByRepoObj, null, 2));
-
-  // Calculate column widths
-  const repoColWidth = Math.max(
-    'Repository'.length,
-    ...Array.from(releasesByRepo.keys()).map(repo => repo.length)
-  );
-  const versionColWidth = 15;
-  const dateColWidth = 20; // Fixed width for date format
-  const urlColWidth = 60; // Fixed width for URL display
-
-  // Create header
-  const header = `Repository${' '.repeat(repoColWidth - 'Repository'.length)} | Version${' '.repeat(versionColWidth - 'Version'.length)} | Published At${' '.repeat(dateColWidth - 'Published At'.length)} | URL${' '.repeat(urlColWidth - 'URL'.length)}`;
-  tableMessage += `${header}\n`;
-
-  // Create separator
-  const separator = `${'-'.repeat(repoColWidth)}-+-${'-'.repeat(versionColWidth)}-+-${'-'.repeat(dateColWidth)}-+-${'-'.repeat(urlColWidth)}`;
-  tableMessage += `${separator}\n`;
-
-  // Add rows for each repository
-  for (const [repoName, repoReleases] of releasesByRepo) {
-    for (const release of repoReleases) {
-      const dateStr = formatDateForTable(release.publishedAt);
-
-      // Show repo name in every row for simplicity
-      const repoPadded = repoName.padEnd(repoColWidth);
-      const versionText = extractVersionFromName(release.name);
-      const versionPadded = versionText.padEnd(versionColWidth);
-      const datePadded = dateStr.padEnd(dateColWidth);
-      const urlPadded = release.url.padEnd(urlColWidth);
-
-      tableMessage += `${repoPadded} | ${versionPadded} | ${datePadded} | ${urlPadded}\n`;
-    }
+  if (releases.length > 0) {
+    logger.info('📋 Releases grouped by repository:');
+    logger.info(JSON.stringify(Object.fromEntries(groupReleasesByRepository(releases)), null, 2));
   }
 
-  tableMessage += '```\n';
-  return tableMessage;
+  const templates = config.templates ?? getBuiltinTemplates();
+  return templates.table(createTemplateContext(releases, config, { groupByTeam }));
 }
 
 /**
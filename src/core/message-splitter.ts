@@ -0,0 +1,216 @@
+import { SlackBlock, SlackMessage, SlackSizeLimits } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Slack limits applied when a destination has no configured limits
+ * Slack truncates message text beyond 40,000 characters but recommends staying under 4,000,
+ * and rejects messages with more than 50 blocks
+ */
+export const DEFAULT_SLACK_LIMITS: SlackSizeLimits = {
+  maxTextLength: 4000,
+  maxBlocks: 50,
+};
+
+/**
+ * Destination name of the primary digest (SLACK_WEBHOOK_URL or the bot channel); teams use their team name
+ */
+export const MAIN_DESTINATION = 'main';
+
+/**
+ * Smallest text limit the splitter works with, leaving room for fences, table headers and part markers
+ */
+export const MIN_TEXT_LENGTH = 200;
+
+const CODE_FENCE = '```';
+const PART_MARKER_RESERVE = '\n(part 999/999)'.length;
+const TABLE_SEPARATOR = /^-+(-\+-+)*$/;
+
+/**
+ * Size limits for a destination: configured defaults overridden by the destination's own limits
+ * @param config - Application configuration (slackMessageLimits, slackDestinationLimits)
+ * @param destination - MAIN_DESTINATION or a team name
+ */
+export function resolveSlackLimits(config: any, destination: string): SlackSizeLimits {
+  return {
+    ...DEFAULT_SLACK_LIMITS,
+    ...config.slackMessageLimits,
+    ...config.slackDestinationLimits?.[destination],
+  };
+}
+
+/**
+ * Split a digest so every message fits the destination's limits
+ * Messages within the limits are returned unchanged
+ */
+export function splitSlackMessages(
+  messages: Array<string | SlackMessage>,
+  limits: SlackSizeLimits
+): Array<string | SlackMessage> {
+  const result = messages.flatMap(message => splitSlackMessage(message, limits));
+  if (result.length > messages.length) {
+    logger.info(`Split ${messages.length} messages into ${result.length} to fit ${limits.maxTextLength} characters / ${limits.maxBlocks} blocks`);
+  }
+  return result;
+}
+
+/**
+ * Split one message: text at line (table row) boundaries, blocks after dividers (repository boundaries)
+ * Every part is marked "(part i/n)"
+ */
+export function splitSlackMessage(message: string | SlackMessage, limits: SlackSizeLimits): Array<string | SlackMessage> {
+  if (typeof message === 'string') {
+    return splitText(message, limits.maxTextLength);
+  }
+
+  if (!message.blocks || message.blocks.length === 0) {
+    return splitText(message.text, limits.maxTextLength).map(text => ({ ...message, text }));
+  }
+
+  // The fallback text only shows in notifications, so it is shortened rather than split
+  const text = message.text.length > limits.maxTextLength
+    ? chunkText(message.text, limits.maxTextLength)[0]
+    : message.text;
+
+  if (message.blocks.length <= limits.maxBlocks) {
+    return [{ ...message, text }];
+  }
+
+  // One block per part is reserved for the part marker
+  const parts = chunkBlocks(message.blocks, limits.maxBlocks - 1);
+  return parts.map((blocks, index) => {
+    const marker = `(part ${index + 1}/${parts.length})`;
+    return {
+      ...message,
+      text: index === 0 ? text : `${text.split('\n')[0]} ${marker}`,
+      blocks: [...blocks, { type: 'context', elements: [{ type: 'mrkdwn', text: `_${marker}_` }] }],
+    };
+  });
+}
+
+/**
+ * Split text into parts of at most maxLength characters, each ending with a "(part i/n)" marker
+ * @returns The text itself when it fits
+ */
+export function splitText(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  // Trailing newlines would separate the last part's closing fence from its marker
+  const chunks = chunkText(text.replace(/\n+$/, ''), maxLength - PART_MARKER_RESERVE);
+  return chunks.map((chunk, index) => `${chunk}\n(part ${index + 1}/${chunks.length})`);
+}
+
+/**
+ * Break text at line boundaries into chunks of at most maxLength characters
+ * A code block spanning chunks is closed at the end of one chunk and reopened at the start of the next,
+ * repeating the table header (a line followed by a `---+---` separator) when the block starts with one
+ */
+function chunkText(text: string, maxLength: number): string[] {
+  if (maxLength < MIN_TEXT_LENGTH - PART_MARKER_RESERVE) {
+    throw new Error(`Message length limit must be at least ${MIN_TEXT_LENGTH} characters`);
+  }
+
+  const lines = text.split('\n');
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  let openFence: string[] | undefined; // Opening fence and repeated table header of the open code block
+
+  const append = (line: string) => {
+    currentLength += (current.length > 0 ? 1 : 0) + line.length;
+    current.push(line);
+  };
+  const flush = () => {
+    if (openFence) {
+      append(CODE_FENCE);
+    }
+    chunks.push(current.join('\n'));
+    current = [];
+    currentLength = 0;
+    openFence?.forEach(append);
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const isFence = lines[index].trimStart().startsWith(CODE_FENCE);
+    let nextFence = openFence;
+    if (isFence) {
+      nextFence = openFence ? undefined : fenceWithTableHeader(lines, index, maxLength);
+    }
+
+    // Room for this line plus the fence that closes the chunk if a code block stays open
+    const fenceOverhead = nextFence ? CODE_FENCE.length + 1 : 0;
+    const reopenLength = openFence ? openFence.join('\n').length + 1 : 0;
+    const maxLineLength = Math.max(1, maxLength - fenceOverhead - reopenLength - 1);
+
+    for (const piece of splitLongLine(lines[index], maxLineLength)) {
+      const addedLength = (current.length > 0 ? 1 : 0) + piece.length;
+      const hasContent = current.length > (openFence?.length ?? 0);
+      if (hasContent && currentLength + addedLength + fenceOverhead > maxLength) {
+        flush();
+      }
+      append(piece);
+    }
+
+    openFence = nextFence;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current.join('\n'));
+  }
+  return chunks;
+}
+
+/**
+ * Opening fence line plus the table header lines following it, if any
+ * The header is only repeated when it takes up at most a third of a chunk
+ */
+function fenceWithTableHeader(lines: string[], fenceIndex: number, maxLength: number): string[] {
+  const header = lines[fenceIndex + 1];
+  const separator = lines[fenceIndex + 2];
+  if (
+    header !== undefined && separator !== undefined
+    && TABLE_SEPARATOR.test(separator.trim())
+    && header.length + separator.length + 2 <= maxLength / 3
+  ) {
+    return [lines[fenceIndex], header, separator];
+  }
+  return [lines[fenceIndex]];
+}
+
+/**
+ * Hard-wrap a single line that exceeds the limit on its own
+ */
+function splitLongLine(line: string, maxLength: number): string[] {
+  if (line.length <= maxLength) {
+    return [line];
+  }
+
+  const pieces: string[] = [];
+  for (let start = 0; start < line.length; start += maxLength) {
+    pieces.push(line.slice(start, start + maxLength));
+  }
+  return pieces;
+}
+
+/**
+ * Break blocks into groups of at most maxBlocks, cutting after the last divider that fits
+ * so a repository's section, context and divider stay together when possible
+ */
+function chunkBlocks(blocks: SlackBlock[], maxBlocks: number): SlackBlock[][] {
+  const chunks: SlackBlock[][] = [];
+  let remaining = blocks;
+
+  while (remaining.length > maxBlocks) {
+    const window = remaining.slice(0, maxBlocks);
+    const lastDivider = window.map(block => block.type).lastIndexOf('divider');
+    const cut = lastDivider > 0 ? lastDivider + 1 : maxBlocks;
+    chunks.push(remaining.slice(0, cut));
+    remaining = remaining.slice(cut);
+  }
+
+  if (remaining.length > 0) {
+    chunks.push(remaining);
+  }
+  return chunks;
+}
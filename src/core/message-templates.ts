@@ -0,0 +1,239 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import Handlebars from 'handlebars';
+import {
+  MessageTemplateName,
+  MessageTemplates,
+  ReleaseInfo,
+  RepositorySummary,
+  SummaryConfig,
+  TemplateContext,
+  TemplateRelease,
+  TemplateRepository
+} from '../types';
+import { logger } from '../utils/logger';
+import {
+  extractVersionFromName,
+  formatDateForTable,
+  getDateRangeText,
+  getOrganizations,
+  groupReleasesByRepository,
+  groupReleasesByTeam,
+  wrapText
+} from './format';
+
+/**
+ * Directory of the built-in templates, which reproduce the plain-text digest
+ */
+const BUILTIN_TEMPLATES_DIRECTORY = join(__dirname, '../templates');
+
+const TEMPLATE_NAMES: MessageTemplateName[] = ['header', 'table', 'details'];
+
+/**
+ * Handlebars environment of the message templates, with the helpers they may use:
+ * - pad value width: the value padded with spaces to width characters
+ * - repeat text count: the text repeated count times
+ * - wrap text width: the non-empty lines of the text wrapped at width characters
+ * - join list separator: the list items joined with the separator
+ */
+const handlebars = Handlebars.create();
+handlebars.registerHelper('pad', (value: unknown, width: number) => String(value ?? '').padEnd(width));
+handlebars.registerHelper('repeat', (text: string, count: number) => text.repeat(Math.max(count, 0)));
+handlebars.registerHelper('wrap', (text: string, width: number) => wrapText(text ?? '', width).filter(line => line.trim() !== ''));
+handlebars.registerHelper('join', (list: unknown[], separator: string) => (list ?? []).join(separator));
+
+let builtinTemplates: MessageTemplates | undefined;
+
+/**
+ * Options of the template context
+ */
+export interface TemplateContextOptions {
+  requestedRepositories?: string[];
+  groupByTeam?: boolean; // Group the table rows by owning team when releases carry teams
+  summaries?: Map<string, RepositorySummary>; // Repository summaries keyed by repository label
+}
+
+/**
+ * Build the context message templates are rendered with
+ * The date range is empty when the config has no timeframe
+ */
+export function createTemplateContext(
+  releases: ReleaseInfo[],
+  config: Partial<SummaryConfig>,
+  options: TemplateContextOptions = {}
+): TemplateContext {
+  const releasesByRepo = groupReleasesByRepository(releases);
+  const organizations = getOrganizations(releases);
+  const templateReleases = new Map<ReleaseInfo, TemplateRelease>();
+
+  const repositories: TemplateRepository[] = Array.from(releasesByRepo, ([name, repoReleases]) => ({
+    name,
+    organization: repoReleases[0].organization,
+    releases: repoReleases.map(release => {
+      const templateRelease = createTemplateRelease(release, name);
+      templateReleases.set(release, templateRelease);
+      return templateRelease;
+    }),
+    summary: options.summaries?.get(name)
+  }));
+
+  const groupByTeam = (options.groupByTeam ?? true) && releases.some(release => release.teams && release.teams.length > 0);
+  // Team sections keep the repository labels of the full digest
+  const teams = groupByTeam
+    ? Array.from(groupReleasesByTeam(releases), ([team, teamReleases]) => ({
+      name: team,
+      repositories: repositories
+        .map(repository => ({
+          ...repository,
+          releases: repository.releases.filter(release => teamReleases.some(owned => templateReleases.get(owned) === release))
+        }))
+        .filter(repository => repository.releases.length > 0)
+    }))
+    : [];
+
+  const prereleases = releases.filter(release => release.isPrerelease).length;
+
+  return {
+    dateRange: {
+      text: config.timeframe ? getDateRangeText({ ...config, timeframe: config.timeframe }) : '',
+      start: config.timeframe?.startDate?.toISOString(),
+      end: config.timeframe?.endDate?.toISOString()
+    },
+    team: config.team,
+    dataSource: config.dataSource,
+    requestedRepositories: options.requestedRepositories ?? [],
+    stats: {
+      releases: releases.length,
+      stable: releases.length - prereleases,
+      prerelease: prereleases,
+      repositories: new Set(releases.map(release => release.repository)).size,
+      organizations: organizations.length
+    },
+    organizations: organizations.map(organization => {
+      const orgReleases = releases.filter(release => release.organization === organization);
+      return {
+        name: organization,
+        releases: orgReleases.length,
+        repositories: new Set(orgReleases.map(release => release.repository)).size
+      };
+    }),
+    multipleOrganizations: organizations.length > 1,
+    releases: repositories.flatMap(repository => repository.releases),
+    repositories,
+    teams,
+    repositoryWidth: Math.max('Repository'.length, ...repositories.map(repository => repository.name.length))
+  };
+}
+
+/**
+ * Get the built-in message templates
+ */
+export function getBuiltinTemplates(): MessageTemplates {
+  if (!builtinTemplates) {
+    builtinTemplates = loadMessageTemplates();
+  }
+  return builtinTemplates;
+}
+
+/**
+ * Load the message templates of a directory (header.hbs, table.hbs and details.hbs)
+ * Templates missing from the directory fall back to the built-in ones. Every template is validated
+ * by rendering it against sample digests in strict mode, so a syntax error, an unknown helper or a
+ * misspelled context field fails at startup rather than when the digest is delivered.
+ * @param directory - Directory of user templates, only the built-in templates when omitted
+ * @throws {Error} If the directory does not exist or a template is invalid
+ */
+export function loadMessageTemplates(directory?: string): MessageTemplates {
+  if (directory && !existsSync(directory)) {
+    throw new Error(`Message templates directory not found: ${directory}`);
+  }
+
+  const sources = {} as Record<MessageTemplateName, string>;
+  for (const name of TEMPLATE_NAMES) {
+    const userFile = directory ? join(directory, `${name}.hbs`) : undefined;
+    const file = userFile && existsSync(userFile) ? userFile : join(BUILTIN_TEMPLATES_DIRECTORY, `${name}.hbs`);
+    sources[name] = readFileSync(file, 'utf-8');
+    validateTemplate(name, file, sources[name]);
+    if (file === userFile) {
+      logger.info(`Using message template ${file}`);
+    }
+  }
+
+  // Slack text is not HTML, so values are not escaped
+  return {
+    header: handlebars.compile(sources.header, { noEscape: true }),
+    table: handlebars.compile(sources.table, { noEscape: true }),
+    details: handlebars.compile(sources.details, { noEscape: true })
+  };
+}
+
+function validateTemplate(name: MessageTemplateName, file: string, source: string): void {
+  try {
+    const template = handlebars.compile(source, { noEscape: true, strict: true });
+    for (const context of createSampleContexts()) {
+      if (name === 'details') {
+        context.repositories.forEach(repository => template({ ...context, repository }));
+      } else {
+        template(context);
+      }
+    }
+  } catch (error) {
+    throw new Error(`Invalid message template ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Sample digests covering the branches templates usually take: a multi-org digest with and
+ * without team sections, pre-releases and both kinds of summaries, and a digest without releases
+ */
+function createSampleContexts(): TemplateContext[] {
+  const release = (repository: string, tagName: string, extra: Partial<ReleaseInfo> = {}): ReleaseInfo => ({
+    repository,
+    organization: repository.split('/')[0],
+    tagName,
+    name: tagName,
+    publishedAt: '2024-01-01T12:00:00Z',
+    description: '',
+    url: `https://github.com/${repository}/releases/tag/${tagName}`,
+    author: 'octocat',
+    isPrerelease: false,
+    ...extra
+  });
+  const releases = [
+    release('acme/api', 'v1.0.0', { teams: ['platform'] }),
+    release('acme/api', 'v1.1.0-beta.1', { isPrerelease: true, teams: ['platform'] }),
+    release('octo/web', 'web@2.0.0')
+  ];
+  const config: SummaryConfig = {
+    timeframe: { type: 'days', value: 7, startDate: new Date('2023-12-26T00:00:00Z'), endDate: new Date('2024-01-01T23:59:59Z') },
+    includeDescriptions: true,
+    dataSource: 'GitHub',
+    team: 'platform'
+  };
+  const summaries = new Map<string, RepositorySummary>([
+    ['acme/api', { text: 'Adds pagination to the releases endpoint.', generated: true }],
+    ['octo/web', { text: '1 release with technical updates.', generated: false }]
+  ]);
+
+  return [
+    createTemplateContext(releases, config, { requestedRepositories: ['api', 'web'], summaries }),
+    createTemplateContext(releases, { ...config, team: undefined }, { groupByTeam: false, summaries }),
+    createTemplateContext([], { timeframe: { type: 'hours', value: 24 } })
+  ];
+}
+
+function createTemplateRelease(release: ReleaseInfo, repository: string): TemplateRelease {
+  return {
+    repository,
+    organization: release.organization,
+    tagName: release.tagName,
+    name: release.name,
+    version: extractVersionFromName(release.name),
+    url: release.url,
+    publishedAt: release.publishedAt,
+    date: formatDateForTable(release.publishedAt),
+    author: release.author,
+    prerelease: release.isPrerelease,
+    teams: release.teams ?? []
+  };
+}
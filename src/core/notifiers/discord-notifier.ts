@@ -0,0 +1,45 @@
+import { Digest, Notifier, RenderedMessage } from '../../types';
+import { Config } from '../../utils/config';
+import { logger } from '../../utils/logger';
+import { DiscordClient } from '../../clients/discord-client';
+import { DeliveryLedger, deliveryKey, webhookTarget } from '../delivery-ledger';
+import { formatReleaseEmbeds } from '../discord-embeds';
+
+/**
+ * Discord notifier posting the digest as embeds, one per repository, to a channel webhook
+ * Messages already recorded in the delivery ledger are skipped, so an interrupted delivery resumes
+ */
+export class DiscordNotifier implements Notifier {
+  readonly name = 'discord';
+
+  readonly label = 'Discord';
+
+  constructor(
+    private readonly config: Config,
+    private readonly ledger: DeliveryLedger,
+    private readonly client?: DiscordClient
+  ) {}
+
+  async render(digest: Digest): Promise<RenderedMessage[]> {
+    const messages = await formatReleaseEmbeds(digest.releases, digest.summaryConfig, digest.summaries);
+    return messages.map(content => ({ target: 'webhook', content }));
+  }
+
+  async deliver(digest: Digest): Promise<void> {
+    const messages = await formatReleaseEmbeds(digest.releases, digest.summaryConfig, digest.summaries);
+    const target = webhookTarget(this.config.discordWebhookUrl!);
+    const key = deliveryKey(this.config, digest.summaryConfig, target);
+    const pending = await this.ledger.pendingMessages(key, target, messages);
+
+    if (pending.length === 0) {
+      logger.info(`Digest ${key} was already delivered to Discord, skipping (use --force to post it again)`);
+      return;
+    }
+
+    const client = this.client ?? new DiscordClient(this.config.discordWebhookUrl!, this.config.discordRetry);
+    for (const message of pending) {
+      await client.postMessage(message);
+      await this.ledger.markDelivered(key, target, message);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { Digest, Notifier, RenderedMessage } from '../../types';
+import { Config } from '../../utils/config';
+import { DeliveryLedger, deliveryKey } from '../delivery-ledger';
+import { deliverByEmail } from '../email';
+import { formatReleaseEmail } from '../email-format';
+
+/**
+ * Email notifier sending each recipient an HTML and plain-text copy of the digest
+ */
+export class EmailNotifier implements Notifier {
+  readonly name = 'email';
+
+  readonly label = 'Email';
+
+  constructor(private readonly config: Config, private readonly ledger: DeliveryLedger) {}
+
+  async render(digest: Digest): Promise<RenderedMessage[]> {
+    // Email settings may be incomplete in a dry run
+    const email = await formatReleaseEmail(digest.releases, digest.summaryConfig, digest.summaries, this.config.email?.subjectTemplate);
+    return [{ target: this.config.email?.recipients.join(', ') || 'recipients', content: email }];
+  }
+
+  async deliver(digest: Digest): Promise<void> {
+    const settings = this.config.email!;
+    const email = await formatReleaseEmail(digest.releases, digest.summaryConfig, digest.summaries, settings.subjectTemplate);
+    await deliverByEmail(email, settings, this.config.emailRetry, this.ledger, target => deliveryKey(this.config, digest.summaryConfig, target));
+  }
+}
@@ -0,0 +1,58 @@
+import { Digest, FeedEntry, FeedMetadata, FeedSettings, Notifier, RenderedMessage } from '../../types';
+import { Config } from '../../utils/config';
+import { createFeedEntries, renderFeedFile, updateFeedFile } from '../feed';
+import { summariesByLabel } from '../format';
+
+/**
+ * Feed notifier writing the releases to an Atom feed (and optionally an RSS 2.0 feed) for feed readers
+ * Each run merges its entries into the existing files, so the feeds accumulate releases across runs
+ * and a rerun replaces entries instead of duplicating them; the delivery ledger is not needed.
+ */
+export class FeedNotifier implements Notifier {
+  readonly name = 'feed';
+
+  readonly label = 'Feed';
+
+  constructor(
+    private readonly config: Config,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async render(digest: Digest): Promise<RenderedMessage[]> {
+    const settings = this.config.feed!;
+    const entries = this.createEntries(digest);
+    const metadata = this.metadata(settings);
+
+    const messages = [{ target: settings.file, content: renderFeedFile(settings.file, 'atom', metadata, entries, settings.maxEntries) }];
+    if (settings.rssFile) {
+      messages.push({ target: settings.rssFile, content: renderFeedFile(settings.rssFile, 'rss', metadata, entries, settings.maxEntries) });
+    }
+    return messages;
+  }
+
+  async deliver(digest: Digest): Promise<void> {
+    const settings = this.config.feed!;
+    const entries = this.createEntries(digest);
+    const metadata = this.metadata(settings);
+
+    updateFeedFile(settings.file, 'atom', metadata, entries, settings.maxEntries);
+    if (settings.rssFile) {
+      updateFeedFile(settings.rssFile, 'rss', metadata, entries, settings.maxEntries);
+    }
+  }
+
+  private createEntries(digest: Digest): FeedEntry[] {
+    const { releases, summaryConfig, summaries } = digest;
+    return createFeedEntries(releases, summaryConfig.includeDescriptions ? summariesByLabel(releases, summaries) : undefined);
+  }
+
+  private metadata(settings: FeedSettings): FeedMetadata {
+    const link = settings.link ?? `https://github.com/${this.config.orgNames[0]}`;
+    return {
+      id: link,
+      title: settings.title ?? `${this.config.orgNames.join(', ')} releases`,
+      link,
+      updated: this.now().toISOString()
+    };
+  }
+}
@@ -0,0 +1,13 @@
+export { SlackNotifier } from './slack-notifier';
+export { TeamsNotifier } from './teams-notifier';
+export { EmailNotifier } from './email-notifier';
+export { DiscordNotifier } from './discord-notifier';
+export { WebhookNotifier } from './webhook-notifier';
+export { FeedNotifier } from './feed-notifier';
+export {
+  NotifierRegistry,
+  NotifierContext,
+  NotifierFactory,
+  deliverToNotifiers,
+  notifierRegistry
+} from './registry';
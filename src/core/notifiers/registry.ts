@@ -0,0 +1,65 @@
+import { Notifier, NotifierFailure, Digest, TeamDefinition } from '../../types';
+import { Config } from '../../utils/config';
+import { logger } from '../../utils/logger';
+import { Registry } from '../../utils/registry';
+import { DeliveryLedger } from '../delivery-ledger';
+import { SlackNotifier } from './slack-notifier';
+import { TeamsNotifier } from './teams-notifier';
+import { EmailNotifier } from './email-notifier';
+import { DiscordNotifier } from './discord-notifier';
+import { WebhookNotifier } from './webhook-notifier';
+import { FeedNotifier } from './feed-notifier';
+
+/**
+ * Dependencies handed to notifier factories
+ */
+export interface NotifierContext {
+  config: Config;
+  ledger: DeliveryLedger;
+  teams: TeamDefinition[]; // Team definitions, for notifiers that route team slices
+}
+
+export type NotifierFactory = (context: NotifierContext) => Notifier;
+
+/**
+ * Registry of notifiers keyed by name
+ * Config selects the enabled names through NOTIFIERS
+ */
+export class NotifierRegistry extends Registry<NotifierFactory> {
+  constructor() {
+    super('notifier', 'notifiers');
+  }
+}
+
+/**
+ * Deliver a digest through every notifier in turn
+ * A failing notifier is logged and reported but does not stop the others
+ * @returns The failures, empty when every notifier delivered
+ */
+export async function deliverToNotifiers(notifiers: Notifier[], digest: Digest): Promise<NotifierFailure[]> {
+  const failures: NotifierFailure[] = [];
+
+  for (const notifier of notifiers) {
+    try {
+      logger.info(`Delivering digest via ${notifier.label}...`);
+      await notifier.deliver(digest);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`${notifier.label} delivery failed: ${message}`);
+      failures.push({ notifier: notifier.label, error: message });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Default registry with the built-in notifiers
+ */
+export const notifierRegistry = new NotifierRegistry();
+notifierRegistry.register('slack', ({ config, ledger, teams }) => new SlackNotifier(config, ledger, teams));
+notifierRegistry.register('teams', ({ config, ledger }) => new TeamsNotifier(config, ledger));
+notifierRegistry.register('email', ({ config, ledger }) => new EmailNotifier(config, ledger));
+notifierRegistry.register('discord', ({ config, ledger }) => new DiscordNotifier(config, ledger));
+notifierRegistry.register('webhook', ({ config, ledger }) => new WebhookNotifier(config, ledger));
+notifierRegistry.register('feed', ({ config }) => new FeedNotifier(config));
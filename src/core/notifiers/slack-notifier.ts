@@ -0,0 +1,128 @@
+import { Digest, Notifier, ReleaseInfo, RenderedMessage, SlackMessage, TeamDefinition } from '../../types';
+import { Config } from '../../utils/config';
+import { logger } from '../../utils/logger';
+import { SlackWebClient } from '../../clients/slack-web-client';
+import { DeliveryLedger, channelTarget, deliveryKey, webhookTarget } from '../delivery-ledger';
+import { formatReleaseMessage, groupReleasesByTeam } from '../format';
+import { MAIN_DESTINATION, resolveSlackLimits, splitSlackMessages } from '../message-splitter';
+import { formatReleaseBlocks } from '../slack-blocks';
+import { SlackThreadPublisher, SlackThreadStore, digestThreadKey } from '../slack-thread';
+import { deliverToSlack } from '../slack';
+
+/**
+ * Slack notifier: the digest goes to the channel (as one thread with a bot token, otherwise
+ * message by message to SLACK_WEBHOOK_URL), then each team with a webhook receives its own slice
+ * A failing target does not stop the others; failures are reported together afterwards
+ */
+export class SlackNotifier implements Notifier {
+  readonly name = 'slack';
+
+  readonly label = 'Slack';
+
+  constructor(
+    private readonly config: Config,
+    private readonly ledger: DeliveryLedger,
+    private readonly teams: TeamDefinition[] = []
+  ) {}
+
+  async render(digest: Digest): Promise<RenderedMessage[]> {
+    const mainTarget = this.mainTarget();
+    const rendered = (await this.formatMainDigest(digest)).map(content => ({ target: mainTarget, content }));
+
+    for (const [team, teamReleases] of this.teamSlices(digest)) {
+      const teamMessages = await this.formatTeamDigest(digest, team, teamReleases);
+      rendered.push(...teamMessages.map(content => ({ target: `team ${team.name}`, content })));
+    }
+    return rendered;
+  }
+
+  async deliver(digest: Digest): Promise<void> {
+    const failures: string[] = [];
+    const attempt = async (target: string, deliver: () => Promise<void>) => {
+      try {
+        await deliver();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`Slack delivery to ${target} failed: ${message}`);
+        failures.push(`${target}: ${message}`);
+      }
+    };
+
+    await attempt(this.mainTarget(), () => this.deliverMainDigest(digest));
+
+    for (const [team, teamReleases] of this.teamSlices(digest)) {
+      await attempt(`team ${team.name}`, async () => {
+        const teamMessages = await this.formatTeamDigest(digest, team, teamReleases);
+        const teamKey = deliveryKey(this.config, digest.summaryConfig, webhookTarget(team.webhookUrl!), team.name);
+        await deliverToSlack(teamMessages, team.webhookUrl!, this.ledger, teamKey, this.config.slackRetry);
+      });
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`Slack delivery failed for ${failures.length} target(s): ${failures.join('; ')}`);
+    }
+  }
+
+  private async deliverMainDigest(digest: Digest): Promise<void> {
+    const { config, ledger } = this;
+    const slackMessages = await this.formatMainDigest(digest);
+
+    if (config.slackBotToken) {
+      const target = channelTarget(config.slackChannel!);
+      const key = deliveryKey(config, digest.summaryConfig, target);
+      if (await ledger.isDelivered(key, slackMessages)) {
+        logger.info(`Digest ${key} was already delivered, skipping (use --force to post it again)`);
+        return;
+      }
+
+      const publisher = new SlackThreadPublisher(
+        new SlackWebClient(config.slackBotToken),
+        new SlackThreadStore(config.slackThreadsFile)
+      );
+      await publisher.publish(config.slackChannel!, slackMessages, digestThreadKey(digest.summaryConfig));
+      await ledger.recordDelivery(key, target, slackMessages);
+    } else {
+      const key = deliveryKey(config, digest.summaryConfig, webhookTarget(config.slackWebhookUrl!));
+      await deliverToSlack(slackMessages, config.slackWebhookUrl!, ledger, key, config.slackRetry);
+    }
+  }
+
+  private mainTarget(): string {
+    return this.config.slackBotToken ? `channel ${this.config.slackChannel}` : 'webhook';
+  }
+
+  /**
+   * Teams with a webhook and releases, each with its slice of the digest
+   */
+  private teamSlices(digest: Digest): Array<[TeamDefinition, ReleaseInfo[]]> {
+    const releasesByTeam = groupReleasesByTeam(digest.releases);
+    const slices: Array<[TeamDefinition, ReleaseInfo[]]> = [];
+
+    for (const team of this.teams.filter(t => t.webhookUrl)) {
+      const teamReleases = releasesByTeam.get(team.name);
+      if (!teamReleases || teamReleases.length === 0) {
+        logger.info(`No releases for team ${team.name}, skipping team digest`);
+        continue;
+      }
+      slices.push([team, teamReleases]);
+    }
+    return slices;
+  }
+
+  private async formatMainDigest(digest: Digest): Promise<Array<string | SlackMessage>> {
+    const digestMessages = await this.format(digest, digest.releases, { ...digest.summaryConfig, threaded: !!this.config.slackBotToken });
+    return splitSlackMessages(digestMessages, resolveSlackLimits(this.config, MAIN_DESTINATION));
+  }
+
+  private async formatTeamDigest(digest: Digest, team: TeamDefinition, teamReleases: ReleaseInfo[]): Promise<Array<string | SlackMessage>> {
+    return splitSlackMessages(
+      await this.format(digest, teamReleases, { ...digest.summaryConfig, team: team.name }),
+      resolveSlackLimits(this.config, team.name)
+    );
+  }
+
+  private format(digest: Digest, releases: ReleaseInfo[], summaryConfig: Digest['summaryConfig']) {
+    const formatDigest = this.config.slackMessageFormat === 'text' ? formatReleaseMessage : formatReleaseBlocks;
+    return formatDigest(releases, summaryConfig, digest.summaries, this.config.repositories);
+  }
+}
@@ -0,0 +1,27 @@
+import { Digest, Notifier, RenderedMessage } from '../../types';
+import { Config } from '../../utils/config';
+import { DeliveryLedger, deliveryKey, webhookTarget } from '../delivery-ledger';
+import { deliverToTeams } from '../teams';
+import { formatReleaseCard } from '../teams-cards';
+
+/**
+ * Microsoft Teams notifier posting the digest as one Adaptive Card
+ */
+export class TeamsNotifier implements Notifier {
+  readonly name = 'teams';
+
+  readonly label = 'Teams';
+
+  constructor(private readonly config: Config, private readonly ledger: DeliveryLedger) {}
+
+  async render(digest: Digest): Promise<RenderedMessage[]> {
+    return [{ target: 'webhook', content: await formatReleaseCard(digest.releases, digest.summaryConfig, digest.summaries) }];
+  }
+
+  async deliver(digest: Digest): Promise<void> {
+    const webhookUrl = this.config.teamsWebhookUrl!;
+    const card = await formatReleaseCard(digest.releases, digest.summaryConfig, digest.summaries);
+    const key = deliveryKey(this.config, digest.summaryConfig, webhookTarget(webhookUrl));
+    await deliverToTeams(card, webhookUrl, this.config.teamsRetry, this.ledger, key);
+  }
+}
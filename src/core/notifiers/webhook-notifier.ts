@@ -0,0 +1,41 @@
+import { Digest, Notifier, RenderedMessage } from '../../types';
+import { Config } from '../../utils/config';
+import { logger } from '../../utils/logger';
+import { WebhookClient } from '../../clients/webhook-client';
+import { DeliveryLedger, deliveryKey, webhookTarget } from '../delivery-ledger';
+import { createDigestDocument } from '../digest-document';
+
+/**
+ * Generic webhook notifier POSTing the digest as a versioned JSON document, HMAC-signed when a secret is set
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name = 'webhook';
+
+  readonly label = 'Webhook';
+
+  constructor(
+    private readonly config: Config,
+    private readonly ledger: DeliveryLedger,
+    private readonly client?: WebhookClient
+  ) {}
+
+  async render(digest: Digest): Promise<RenderedMessage[]> {
+    return [{ target: 'webhook', content: await createDigestDocument(digest.releases, digest.summaryConfig, digest.summaries) }];
+  }
+
+  async deliver(digest: Digest): Promise<void> {
+    const document = await createDigestDocument(digest.releases, digest.summaryConfig, digest.summaries);
+    const target = webhookTarget(this.config.jsonWebhookUrl!);
+    const key = deliveryKey(this.config, digest.summaryConfig, target);
+    const [pending] = await this.ledger.pendingMessages(key, target, [document]);
+
+    if (!pending) {
+      logger.info(`Digest ${key} was already delivered to the webhook, skipping (use --force to post it again)`);
+      return;
+    }
+
+    const client = this.client ?? new WebhookClient(this.config.jsonWebhookUrl!, this.config.jsonWebhookSecret, this.config.jsonWebhookRetry);
+    await client.postDocument(document);
+    await this.ledger.markDelivered(key, target, pending);
+  }
+}
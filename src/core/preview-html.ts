@@ -0,0 +1,161 @@
+import { NotifierPreview, RenderedMessage, SlackBlock, SlackMessage } from '../types';
+import { escapeHtml } from '../utils/html';
+
+/**
+ * Emoji shortcodes the digest uses, shown as Slack would render them
+ */
+const EMOJI: Record<string, string> = {
+  bar_chart: '📊',
+  rocket: '🚀',
+  warning: '⚠️',
+  white_check_mark: '✅',
+};
+
+const STYLES = `
+  body { margin: 0; background: #f8f8f8; font-family: Lato, -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1d1c1d; }
+  .page { max-width: 960px; margin: 0 auto; padding: 24px; }
+  .banner { background: #fff4d6; border: 1px solid #e8c66e; border-radius: 6px; padding: 10px 14px; margin-bottom: 24px; font-size: 14px; }
+  h2 { font-size: 18px; margin: 32px 0 12px; }
+  .channel { background: #ffffff; border: 1px solid #dddddd; border-radius: 8px; padding: 8px 0; }
+  .message { display: flex; padding: 8px 20px; }
+  .message:hover { background: #f8f8f8; }
+  .avatar { width: 36px; height: 36px; border-radius: 4px; background: #4a154b; color: #ffffff; font-weight: 700; display: flex; align-items: center; justify-content: center; margin-right: 8px; flex-shrink: 0; }
+  .body { min-width: 0; flex: 1; font-size: 15px; line-height: 1.47; }
+  .sender { font-weight: 900; }
+  .badge { background: #dddddd; color: #616061; font-size: 10px; font-weight: 700; border-radius: 2px; padding: 1px 3px; margin-left: 4px; vertical-align: middle; }
+  .target { color: #616061; font-size: 12px; margin-left: 6px; }
+  pre { background: #f8f8f8; border: 1px solid #dddddd; border-radius: 4px; padding: 8px; font-size: 12px; white-space: pre; overflow-x: auto; margin: 4px 0; }
+  code { font-family: Monaco, Menlo, Consolas, monospace; font-size: 12px; color: #e01e5a; background: #f8f8f8; border: 1px solid #dddddd; border-radius: 3px; padding: 1px 3px; }
+  pre code { color: inherit; background: none; border: none; padding: 0; }
+  a { color: #1264a3; text-decoration: none; }
+  .block-header { font-size: 18px; font-weight: 900; margin: 4px 0; }
+  .fields { display: grid; grid-template-columns: 1fr 1fr; gap: 8px 16px; margin: 4px 0; }
+  .context { color: #616061; font-size: 12px; margin: 4px 0; }
+  hr { border: none; border-top: 1px solid #dddddd; margin: 8px 0; }
+  .error { color: #e01e5a; }
+  iframe { width: 100%; height: 640px; border: 1px solid #dddddd; border-radius: 8px; background: #ffffff; }
+`;
+
+/**
+ * Render a dry run as a local HTML page: Slack messages as they would appear in the channel,
+ * emails as their HTML body, and the other notifiers' payloads as formatted JSON
+ * @param title - Page title, e.g. the digest's date range
+ */
+export function formatPreviewHtml(previews: NotifierPreview[], title: string): string {
+  const sections = previews.map(preview => {
+    const heading = `<h2>${escapeHtml(preview.label)}</h2>`;
+    if (preview.error) {
+      return `${heading}\n<p class="error">Rendering failed: ${escapeHtml(preview.error)}</p>`;
+    }
+    if (preview.notifier === 'slack') {
+      return `${heading}\n<div class="channel">\n${preview.messages.map(renderSlackMessage).join('\n')}\n</div>`;
+    }
+    return `${heading}\n${preview.messages.map(renderPayload).join('\n')}`;
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>Preview - ${escapeHtml(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<div class="page">',
+    `<div class="banner">Dry run preview of <strong>${escapeHtml(title)}</strong> - nothing was posted.</div>`,
+    ...sections,
+    '</div>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Convert Slack mrkdwn to HTML: code blocks, inline code, <url|text> links, *bold*, _italic_, ~strike~ and emoji
+ */
+export function mrkdwnToHtml(text: string): string {
+  return text
+    .split('```')
+    .map((segment, index) => {
+      // Odd segments sit between fences
+      if (index % 2 === 1) {
+        return `<pre><code>${escapeHtml(segment.replace(/^\n/, ''))}</code></pre>`;
+      }
+      return escapeHtml(segment)
+        .replace(/`([^`\n]+)`/g, '<code>$1</code>')
+        .replace(/&lt;(https?:\/\/[^|\s]+?)\|(.+?)&gt;/g, '<a href="$1">$2</a>')
+        .replace(/&lt;(https?:\/\/\S+?)&gt;/g, '<a href="$1">$1</a>')
+        .replace(/(^|[\s(])\*([^*\n]+)\*(?=$|[\s).,:;!?])/gm, '$1<strong>$2</strong>')
+        .replace(/(^|[\s(])_([^_\n]+)_(?=$|[\s).,:;!?])/gm, '$1<em>$2</em>')
+        .replace(/(^|[\s(])~([^~\n]+)~(?=$|[\s).,:;!?])/gm, '$1<s>$2</s>')
+        .replace(/:([a-z0-9_+-]+):/g, (shortcode, name: string) => EMOJI[name] ?? shortcode)
+        .replace(/\n/g, '<br>');
+    })
+    .join('');
+}
+
+function renderSlackMessage(message: RenderedMessage): string {
+  const content = message.content as string | SlackMessage;
+  let body: string;
+  if (typeof content === 'string') {
+    body = mrkdwnToHtml(content);
+  } else if (content.blocks && content.blocks.length > 0) {
+    body = content.blocks.map(renderBlock).join('\n');
+  } else {
+    body = mrkdwnToHtml(content.text);
+  }
+
+  return [
+    '<div class="message">',
+    '<div class="avatar">RD</div>',
+    '<div class="body">',
+    `<div><span class="sender">Release Digest</span><span class="badge">APP</span><span class="target">${escapeHtml(message.target)}</span></div>`,
+    body,
+    '</div>',
+    '</div>'
+  ].join('\n');
+}
+
+function renderBlock(block: SlackBlock): string {
+  const text = (object?: { type: string; text: string }) => {
+    if (!object) {
+      return '';
+    }
+    return object.type === 'mrkdwn' ? mrkdwnToHtml(object.text) : escapeHtml(object.text);
+  };
+
+  switch (block.type) {
+    case 'header':
+      return `<div class="block-header">${text(block.text)}</div>`;
+    case 'section': {
+      const fields = block.fields && block.fields.length > 0
+        ? `<div class="fields">${block.fields.map(field => `<div>${text(field)}</div>`).join('')}</div>`
+        : '';
+      return `<div>${text(block.text)}</div>${fields}`;
+    }
+    case 'context':
+      return `<div class="context">${(block.elements ?? []).map(element => (element.type === 'mrkdwn' ? mrkdwnToHtml(element.text ?? '') : escapeHtml(element.text ?? ''))).join(' ')}</div>`;
+    case 'divider':
+      return '<hr>';
+    default:
+      return `<pre>${escapeHtml(JSON.stringify(block, null, 2))}</pre>`;
+  }
+}
+
+function renderPayload(message: RenderedMessage): string {
+  const { content } = message;
+  const target = `<div class="target">→ ${escapeHtml(message.target)}</div>`;
+  if (typeof content === 'string') {
+    return `${target}<pre>${escapeHtml(content)}</pre>`;
+  }
+
+  const email = content as { subject?: unknown; html?: unknown };
+  if (typeof email.subject === 'string' && typeof email.html === 'string') {
+    return `${target}<p><strong>Subject:</strong> ${escapeHtml(email.subject)}</p><iframe sandbox srcdoc="${escapeHtml(email.html)}"></iframe>`;
+  }
+
+  return `${target}<pre>${escapeHtml(JSON.stringify(content, null, 2))}</pre>`;
+}
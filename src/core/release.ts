@@ -1,12 +1,19 @@
 import {
   ReleaseInfo,
-  GitHubRepository,
-  ReleaseFetchParams,
+  DataSourceOrder,
+  ReleaseSource,
+  ReleaseSourceHealth,
+  GitHubAuth,
+  RepositoryFilter,
 } from '../types';
 import { logger } from '../utils/logger';
+import { getMaxDateRangeDays } from '../utils/config';
 import { Repository } from './repository';
+import { ReleaseSourceRegistry, releaseSourceRegistry } from './sources';
+import { buildRepositoryFilter, selectRepositoriesForOrg } from './repository-filter';
 
-import { fetchReleasesFromSnowflake } from './snowflake-releases';
+const MS_IN_DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_CHUNK_DAYS = 7;
 
 // Type definitions for date range calculations
 type DateRangeResult = {
@@ -15,6 +22,11 @@ type DateRangeResult = {
   description: string;
 };
 
+type DateChunk = {
+  startDate: Date;
+  endDate: Date;
+};
+
 type Timeframe = {
   type: 'hours' | 'days' | 'date';
   value: number | Date;
@@ -24,159 +36,246 @@ type Timeframe = {
 
 /**
  * Release service handling release-related operations
- * Processes release data, filters by date, and provides business logic
+ * Resolves the configured chain of release sources and fails over between them
  */
 export class Release {
   private readonly repository: Repository;
 
-  constructor(token: string) {
-    this.repository = new Repository(token);
+  private readonly registry: ReleaseSourceRegistry;
+
+  private lastSource: ReleaseSource | undefined;
+
+  private lastDateRange: DateChunk | undefined;
+
+  private sourceHealth: ReleaseSourceHealth[] = [];
+
+  /**
+   * @param auth - GitHub token or token provider (GitHub App installation)
+   * @param registry - Registry used to resolve the configured source chain
+   * @param githubApiUrl - Optional GitHub Enterprise Server API base URL
+   */
+  constructor(
+    auth: GitHubAuth,
+    registry: ReleaseSourceRegistry = releaseSourceRegistry,
+    githubApiUrl?: string
+  ) {
+    this.repository = new Repository(auth, githubApiUrl);
+    this.registry = registry;
+  }
+
+  /**
+   * Validate that the GitHub endpoint supports the fields the GitHub source queries
+   */
+  async validateGitHubSchema(): Promise<void> {
+    await this.repository.validateSchema();
   }
 
   /**
    * Fetches releases based on configuration
+   * Tries each source in the configured chain and returns the first successful result
    * @param config - Application configuration containing orgName, timeframe, repositories, snowflake config, etc.
    * @returns Promise<ReleaseInfo[]> - Array of release information
+   * @throws {Error} When every source in the chain fails
    */
   async getReleases(config: any): Promise<ReleaseInfo[]> {
-    const { orgName, timeframe, repositories, snowflake: snowflakeConfig } = config;
-    const { startDate, endDate } = this.calculateDateRange(timeframe);
-    let releases: ReleaseInfo[] = [];
-
-    this.validateDateRange(startDate, endDate);
-
-    logger.info(`Fetching releases for organization: ${orgName}`);
+    const { timeframe, repositories } = config;
+    const orgNames: string[] = config.orgNames && config.orgNames.length > 0 ? config.orgNames : [config.orgName];
+    const maxDays: number = config.maxDateRangeDays ?? getMaxDateRangeDays();
+    const { startDate, endDate } = this.calculateDateRange(timeframe, maxDays);
+    const chain = this.resolveSourceChain(config);
+    let lastError: unknown;
+
+    this.validateDateRange(startDate, endDate, maxDays);
+    const chunks = this.splitIntoChunks(startDate, endDate, config.fetchChunkDays ?? DEFAULT_CHUNK_DAYS);
+    this.lastSource = undefined;
+    this.lastDateRange = { startDate, endDate };
+    this.sourceHealth = [];
+
+    logger.info(`Fetching releases for organization(s): ${orgNames.join(', ')}`);
     logger.info(`Timeframe: ${timeframe.type} = ${timeframe.value}`);
     logger.info(`Time range: ${startDate.toISOString()} to ${endDate.toISOString()}`);
+    logger.info(`Release source chain: ${chain.join(' -> ')}`);
 
     if (repositories && repositories.length > 0) {
       logger.info(`Repository filter: ${repositories.join(', ')}`);
     }
+    const repositoryFilter = buildRepositoryFilter(config);
+
+    const sources = chain.map(name => this.registry.create(name, { config, repository: this.repository }));
 
     try {
-      if (!snowflakeConfig) {
-        throw new Error('No Snowflake configuration found');
+      for (const [index, source] of sources.entries()) {
+        const nextSource = sources[index + 1];
+
+        if (!source.isConfigured()) {
+          lastError = new Error(`${source.label} is not configured`);
+          logger.warn(`Skipping release source ${source.name}: not configured`);
+          continue;
+        }
+
+        try {
+          // Paging sources (GitHub) list repositories and page releases newest first, so one pass down to the
+          // window start covers every chunk; fetching chunk by chunk would repeat those calls for each chunk
+          const sourceChunks = source.fetchesInChunks ? chunks : [{ startDate, endDate }];
+          if (sourceChunks.length > 1) {
+            logger.info(`Fetching in ${sourceChunks.length} chunks of up to ${config.fetchChunkDays ?? DEFAULT_CHUNK_DAYS} days`);
+          }
+          const releases = await this.fetchInChunks(source, sourceChunks, orgNames, repositories, repositoryFilter);
+          this.lastSource = source;
+          return releases;
+        } catch (error) {
+          lastError = error;
+          if (nextSource) {
+            logger.error(`${source.label} fetch failed, falling back to ${nextSource.label}: ${error}`);
+          } else {
+            logger.error(`${source.label} fetch failed: ${error}`);
+          }
+        }
       }
-      logger.info('Using Snowflake to fetch releases...');
-      releases = await fetchReleasesFromSnowflake(config, startDate, endDate);
-    } catch (error) {
-      logger.error('Snowflake fetch failed, falling back to GitHub API:', error);
-
-      // Fallback to GitHub API
-      // releases = await this.fetchReleases({
-      //   orgName,
-      //   startDate,
-      //   endDate,
-      //   repositories
-      // });
+    } finally {
+      this.sourceHealth = sources.map(source => source.getHealth());
+      this.logSourceHealth();
     }
-    return releases;
+
+    throw new Error(`All release sources failed (${chain.join(', ')}): ${lastError}`);
   }
 
   /**
- * Fetch and process releases from repositories
- */
-  private async fetchReleases(params: ReleaseFetchParams): Promise<ReleaseInfo[]> {
-    const { orgName, startDate, endDate, repositories } = params;
-
-    try {
-      let repositoriesToProcess: GitHubRepository[];
-
-      // Use efficient single repository fetching if specific repositories are requested
-      if (repositories && repositories.length > 0) {
-        logger.info(`🎯 Using efficient single repository fetching for: ${repositories.join(', ')}`);
-        repositoriesToProcess = await this.repository.fetchSpecificRepositories(orgName, repositories);
-      } else {
-        // Fetch all repositories using pagination (existing behavior)
-        logger.info(`📄 Fetching all repositories with pagination...`);
-        repositoriesToProcess = await this.repository.fetchAllRepositories(params);
+   * Fetch every chunk for every organization from a single source and merge the results
+   * Any failing chunk fails the whole source so the digest never mixes sources
+   */
+  private async fetchInChunks(
+    source: ReleaseSource,
+    chunks: DateChunk[],
+    orgNames: string[],
+    repositories?: string[],
+    repositoryFilter?: RepositoryFilter
+  ): Promise<ReleaseInfo[]> {
+    const merged: ReleaseInfo[] = [];
+    const seen = new Set<string>();
+
+    for (const [index, chunk] of chunks.entries()) {
+      if (chunks.length > 1) {
+        logger.info(`📆 Chunk ${index + 1}/${chunks.length}: ${chunk.startDate.toISOString()} to ${chunk.endDate.toISOString()}`);
       }
 
-      // Process releases from the repositories
-      const releases = this.processRepositories(
-        repositoriesToProcess,
-        { startDate, endDate }
-      );
-      return releases;
-
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const errorStack = error instanceof Error ? error.stack : undefined;
+      const releases: ReleaseInfo[] = [];
+      for (const orgName of orgNames) {
+        const selection = selectRepositoriesForOrg(repositories, orgName, repositoryFilter);
+        if (!selection) {
+          logger.info(`Skipping organization ${orgName}: no requested repositories belong to it`);
+          continue;
+        }
 
-      logger.error(`Release fetching failed: ${errorMessage}`);
-      if (errorStack) {
-        logger.error(`Release fetching stack trace: ${errorStack}`);
+        releases.push(...await source.fetchReleases({ orgName, ...selection, ...chunk }));
       }
 
-      // Log additional context for debugging
-      logger.error(`Release fetching context - Organization: ${orgName}, Date Range: ${startDate.toISOString()} to ${endDate.toISOString()}`);
-      if (repositories && repositories.length > 0) {
-        logger.error(`Release fetching context - Requested repositories: ${repositories.join(', ')}`);
+      for (const release of releases) {
+        // Chunk boundaries are inclusive on both ends, so drop releases seen in a previous chunk
+        const key = `${release.repository}@${release.tagName}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          merged.push(release);
+        }
       }
-
-      throw error;
     }
+
+    return merged;
   }
 
   /**
-   * Process repositories to extract and filter releases
+   * Split a date range into consecutive chunks of at most chunkDays, newest first
    */
-  private processRepositories(
-    repositories: GitHubRepository[],
-    dateRange: { startDate: Date; endDate?: Date }
-  ): ReleaseInfo[] {
-    const releases: ReleaseInfo[] = [];
-    let totalReleases = 0;
-
-    for (const repo of repositories) {
-      // Process releases for this repository
-      for (const release of repo.releases.nodes) {
-        totalReleases++;
-
-        if (this.isReleaseInDateRange(release.publishedAt, dateRange)) {
-          releases.push({
-            repository: repo.name,
-            tagName: release.tagName,
-            name: release.name || release.tagName,
-            publishedAt: release.publishedAt,
-            description: release.description || '',
-            url: release.url,
-            author: release.author.login,
-            isPrerelease: release.isPrerelease
-          });
-        }
-      }
+  private splitIntoChunks(startDate: Date, endDate: Date, chunkDays: number): DateChunk[] {
+    const chunkMs = chunkDays * MS_IN_DAY;
+    const chunks: DateChunk[] = [];
+
+    let chunkEnd = new Date(endDate);
+    while (chunkEnd >= startDate) {
+      const chunkStart = new Date(Math.max(chunkEnd.getTime() - chunkMs + 1, startDate.getTime()));
+      chunks.push({ startDate: chunkStart, endDate: chunkEnd });
+      chunkEnd = new Date(chunkStart.getTime() - 1);
     }
 
-    logger.info(`📦 Processed ${repositories.length} repositories`);
-    return releases;
+    return chunks;
+  }
+
+  /**
+   * Get the name of the source that produced the most recent getReleases result
+   * @returns string | undefined - Undefined until a fetch succeeds
+   */
+  getLastSource(): string | undefined {
+    return this.lastSource?.name;
+  }
+
+  /**
+   * Get the display label of the source that produced the most recent getReleases result
+   */
+  getLastSourceLabel(): string | undefined {
+    return this.lastSource?.label;
+  }
+
+  /**
+   * Get the time range the most recent getReleases call fetched
+   * @returns Undefined until getReleases is called
+   */
+  getLastDateRange(): { startDate: Date; endDate: Date } | undefined {
+    return this.lastDateRange;
+  }
+
+  /**
+   * Get health reported by each source in the chain during the most recent getReleases call
+   */
+  getSourceHealth(): ReleaseSourceHealth[] {
+    return this.sourceHealth;
   }
 
   /**
-   * Check if a release falls within the specified date range
-   * @param publishedAt - Release publish date string
-   * @param dateRange - Date range to check against
-   * @returns boolean
+   * Resolve the ordered list of source names to try
+   * An explicit releaseSources list takes precedence over the dataSourceOrder preset
+   * @throws {Error} If the chain names a source that is not registered
    */
-  private isReleaseInDateRange(
-    publishedAt: string,
-    dateRange: { startDate: Date; endDate?: Date }
-  ): boolean {
-    const publishedDate = new Date(publishedAt);
-    const { startDate, endDate } = dateRange;
-
-    if (publishedDate < startDate) {
-      return false;
+  private resolveSourceChain(config: any): string[] {
+    const chain: string[] = config.releaseSources && config.releaseSources.length > 0
+      ? config.releaseSources
+      : this.resolveSourceOrder(config.dataSourceOrder);
+
+    const unknown = chain.filter(name => !this.registry.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown release source(s): ${unknown.join(', ')}. Registered sources: ${this.registry.names().join(', ')}`);
     }
 
-    if (endDate && publishedDate > endDate) {
-      return false;
+    return chain;
+  }
+
+  /**
+   * Map the configured data source order to the list of sources to try
+   */
+  private resolveSourceOrder(order: DataSourceOrder = 'snowflake-first'): string[] {
+    switch (order) {
+      case 'snowflake-first':
+        return ['snowflake', 'github'];
+      case 'github-first':
+        return ['github', 'snowflake'];
+      case 'github-only':
+        return ['github'];
+      case 'snowflake-only':
+        return ['snowflake'];
+      default:
+        throw new Error(`Unknown data source order: ${order}`);
     }
+  }
 
-    return true;
+  private logSourceHealth(): void {
+    for (const health of this.sourceHealth) {
+      const status = health.healthy ? 'healthy' : 'unhealthy';
+      const latency = health.lastLatencyMs !== undefined ? ` (${health.lastLatencyMs}ms)` : '';
+      const detail = health.lastError ? ` - ${health.lastError}` : '';
+      logger.info(`Release source ${health.name}: ${status}${latency}${detail}`);
+    }
   }
 
-  private validateDateRange(startDate: Date, endDate: Date): void {
+  private validateDateRange(startDate: Date, endDate: Date, maxDays: number): void {
     if (startDate > endDate) {
       throw new Error('Start date cannot be after end date');
     }
@@ -185,24 +284,23 @@ export class Release {
       throw new Error('Start date cannot be in the future');
     }
 
-    // Guard against windows exceeding 7 days inclusive
-    const msInDay = 24 * 60 * 60 * 1000;
+    // Guard against windows exceeding the MAX_DATE_RANGE_DAYS policy (inclusive)
     const startMidnight = new Date(startDate);
     startMidnight.setUTCHours(0, 0, 0, 0);
     const endMidnight = new Date(endDate);
     endMidnight.setUTCHours(0, 0, 0, 0);
-    const inclusiveDays = Math.floor((endMidnight.getTime() - startMidnight.getTime()) / msInDay) + 1;
-    if (inclusiveDays > 7) {
-      throw new Error(`Date range exceeds 7 days: ${inclusiveDays} days`);
+    const inclusiveDays = Math.floor((endMidnight.getTime() - startMidnight.getTime()) / MS_IN_DAY) + 1;
+    if (inclusiveDays > maxDays) {
+      throw new Error(`Date range exceeds ${maxDays} days: ${inclusiveDays} days`);
     }
   }
 
-  private calculateDateRange(timeframe: Timeframe): DateRangeResult {
+  private calculateDateRange(timeframe: Timeframe, maxDays: number): DateRangeResult {
     const now = new Date();
 
     // If explicit start and end dates are provided, use them
     if (timeframe.startDate && timeframe.endDate) {
-      return this.calculateDateRangeFromStartEnd(timeframe.startDate, timeframe.endDate);
+      return this.calculateDateRangeFromStartEnd(timeframe.startDate, timeframe.endDate, maxDays);
     }
 
     switch (timeframe.type) {
@@ -245,19 +343,18 @@ export class Release {
     return { startDate, endDate, description: `in the last ${hoursBack} hours` };
   }
 
-  private calculateDateRangeFromStartEnd(start: Date, end: Date): DateRangeResult {
+  private calculateDateRangeFromStartEnd(start: Date, end: Date, maxDays: number): DateRangeResult {
     const startDate = new Date(start);
     startDate.setUTCHours(0, 0, 0, 0);
 
     const endDate = new Date(end);
     endDate.setUTCHours(23, 59, 59, 999);
 
-    const msInDay = 24 * 60 * 60 * 1000;
     const startMidnight = new Date(startDate);
     const endMidnight = new Date(endDate);
-    const inclusiveDays = Math.floor((endMidnight.getTime() - startMidnight.getTime()) / msInDay) + 1;
-    if (inclusiveDays > 7) {
-      throw new Error(`Date range too large: ${inclusiveDays} days. Maximum allowed is 7 days.`);
+    const inclusiveDays = Math.floor((endMidnight.getTime() - startMidnight.getTime()) / MS_IN_DAY) + 1;
+    if (inclusiveDays > maxDays) {
+      throw new Error(`Date range too large: ${inclusiveDays} days. Maximum allowed is ${maxDays} days.`);
     }
 
     const description = `from ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`;
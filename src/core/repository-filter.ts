@@ -0,0 +1,181 @@
+import { RepositoryFilter, RepositoryMetadata } from '../types';
+
+/**
+ * Escape character used in generated LIKE / ILIKE predicates
+ * Repository names cannot contain it, so it never collides with a literal character
+ */
+export const LIKE_ESCAPE_CHAR = '^';
+
+/**
+ * Repository names and filter to use for a single organization
+ */
+export interface RepositorySelection {
+  repositories?: string[]; // Exact repository names (fetched directly)
+  repositoryFilter?: RepositoryFilter;
+}
+
+/**
+ * Check whether a repository entry is a glob pattern rather than an exact name
+ */
+export function isGlobPattern(value: string): boolean {
+  return /[*?]/.test(value);
+}
+
+/**
+ * Convert a glob pattern into a case-insensitive regular expression
+ * `*` matches any run of characters and `?` a single character
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Convert a glob pattern into a SQL LIKE pattern (used with ESCAPE LIKE_ESCAPE_CHAR)
+ * Literal `%`, `_` and the escape character are escaped, quotes are doubled
+ */
+export function globToLikePattern(pattern: string): string {
+  return pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '%';
+      if (char === '?') return '_';
+      if (char === '%' || char === '_' || char === LIKE_ESCAPE_CHAR) return `${LIKE_ESCAPE_CHAR}${char}`;
+      if (char === "'") return "''";
+      return char;
+    })
+    .join('');
+}
+
+/**
+ * Check whether a filter selects anything beyond exact repository names
+ */
+export function hasRepositoryFilter(filter?: RepositoryFilter): boolean {
+  return !!filter && (
+    (filter.patterns?.length ?? 0) > 0 ||
+    (filter.exclude?.length ?? 0) > 0 ||
+    (filter.topics?.length ?? 0) > 0 ||
+    Object.keys(filter.properties ?? {}).length > 0 ||
+    !!filter.skipArchived ||
+    !!filter.skipForks
+  );
+}
+
+/**
+ * Build the organization-independent part of the repository filter from configuration
+ */
+export function buildRepositoryFilter(config: any): RepositoryFilter {
+  return {
+    topics: config.repositoryTopics,
+    properties: config.repositoryProperties,
+    skipArchived: config.skipArchived,
+    skipForks: config.skipForks,
+  };
+}
+
+/**
+ * Narrow the configured repository entries to one organization
+ * Entries may be exact names, glob patterns or !exclude patterns, optionally prefixed with org/.
+ * Bare entries apply to every organization, org/ entries only to their own organization.
+ * @param entries - Raw REPOSITORIES / --repos entries
+ * @param orgName - Organization being fetched
+ * @param baseFilter - Topic, property and archived/fork selection shared by every organization
+ * @returns RepositorySelection, or undefined when includes are configured but none belong to orgName
+ */
+export function selectRepositoriesForOrg(
+  entries: string[] | undefined,
+  orgName: string,
+  baseFilter: RepositoryFilter = {}
+): RepositorySelection | undefined {
+  const names: string[] = [];
+  const patterns: string[] = [];
+  const exclude: string[] = [];
+  let hasIncludes = false;
+
+  for (const entry of entries ?? []) {
+    const negated = entry.startsWith('!');
+    const value = negated ? entry.slice(1) : entry;
+    if (!negated) {
+      hasIncludes = true;
+    }
+
+    const slash = value.indexOf('/');
+    if (slash !== -1 && value.slice(0, slash).toLowerCase() !== orgName.toLowerCase()) {
+      continue;
+    }
+    const name = slash !== -1 ? value.slice(slash + 1) : value;
+
+    if (negated) {
+      exclude.push(name);
+    } else if (isGlobPattern(name)) {
+      patterns.push(name);
+    } else {
+      names.push(name);
+    }
+  }
+
+  if (hasIncludes && names.length === 0 && patterns.length === 0) {
+    return undefined;
+  }
+
+  const repositoryFilter: RepositoryFilter = { ...baseFilter, patterns, exclude };
+  return {
+    repositories: names.length > 0 ? names : undefined,
+    repositoryFilter: hasRepositoryFilter(repositoryFilter) ? repositoryFilter : undefined,
+  };
+}
+
+/**
+ * Check a repository against exact names and the repository filter
+ * A repository is included when it matches an exact name or include pattern (or no includes are set),
+ * matches no exclude pattern, has one of the topics, matches every property and passes the archived/fork flags
+ */
+export function matchesRepositoryFilter(
+  repo: RepositoryMetadata,
+  names?: string[],
+  filter?: RepositoryFilter
+): boolean {
+  const patterns = filter?.patterns ?? [];
+  const hasIncludes = (names?.length ?? 0) > 0 || patterns.length > 0;
+
+  if (hasIncludes) {
+    const byName = names?.some(name => name.toLowerCase() === repo.name.toLowerCase()) ?? false;
+    if (!byName && !patterns.some(pattern => globToRegExp(pattern).test(repo.name))) {
+      return false;
+    }
+  }
+
+  if (filter?.exclude?.some(pattern => globToRegExp(pattern).test(repo.name))) {
+    return false;
+  }
+
+  if (filter?.skipArchived && repo.isArchived) {
+    return false;
+  }
+
+  if (filter?.skipForks && repo.isFork) {
+    return false;
+  }
+
+  if (filter?.topics && filter.topics.length > 0) {
+    const topics = (repo.topics ?? []).map(topic => topic.toLowerCase());
+    if (!filter.topics.some(topic => topics.includes(topic.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  for (const [property, value] of Object.entries(filter?.properties ?? {})) {
+    if (repo.properties?.[property] !== value) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -4,7 +4,9 @@ import {
   ReleaseFetchParams,
   RepositoryQueryVariables,
   PaginationStats,
-  EarlyStopConfig
+  EarlyStopConfig,
+  GitHubAuth,
+  TeamRepositoryAccess
 } from '../types';
 import { logger } from '../utils/logger';
 import { GitHubGraphQLClient } from '../clients/github-graphql-client';
@@ -36,18 +38,116 @@ export class Repository {
     timeout: 60000, // Close circuit after 60 seconds
   };
 
-  constructor(token: string) {
-    this.graphqlClient = new GitHubGraphQLClient(token);
+  private lastPaginationStats: PaginationStats | undefined;
+
+  /**
+   * @param auth - GitHub token or token provider (GitHub App installation)
+   * @param apiUrl - Optional GitHub Enterprise Server API base URL
+   */
+  constructor(auth: GitHubAuth, apiUrl?: string) {
+    this.graphqlClient = new GitHubGraphQLClient(auth, undefined, apiUrl);
+  }
+
+  /**
+   * Check that the GitHub endpoint's GraphQL schema has every field the release queries use
+   * Detects GitHub Enterprise Server versions that are too old for this service
+   * @throws {Error} If the schema lacks required fields
+   */
+  async validateSchema(): Promise<void> {
+    const missing = await this.executeWithRetry(
+      () => this.graphqlClient.findMissingSchemaFields(),
+      'introspect GraphQL schema'
+    );
+
+    if (missing.length > 0) {
+      throw new Error(`GitHub GraphQL schema is missing required fields: ${missing.join(', ')}. The endpoint may run an unsupported GitHub Enterprise Server version.`);
+    }
+
+    logger.info('✅ GitHub GraphQL schema provides all required fields');
+  }
+
+  /**
+   * Fetch a repository's custom property values
+   * @param orgName - Organization name
+   * @param repoName - Repository name
+   * @returns Promise<Record<string, string>> - Property values keyed by property name
+   */
+  async fetchRepositoryProperties(orgName: string, repoName: string): Promise<Record<string, string>> {
+    return this.executeWithRetry(
+      () => this.graphqlClient.fetchRepositoryProperties(orgName, repoName),
+      `fetch custom properties of ${repoName}`
+    );
+  }
+
+  /**
+   * Fetch every team of an organization with the repositories it has access to
+   * @param orgName - Organization name
+   * @returns Promise<TeamRepositoryAccess[]> - Teams with their repository permissions
+   */
+  async fetchTeamRepositories(orgName: string): Promise<TeamRepositoryAccess[]> {
+    const teams: TeamRepositoryAccess[] = [];
+    let cursor: string | undefined;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await this.executeWithRetry(
+        () => this.graphqlClient.fetchTeamsPage(orgName, cursor),
+        `fetch teams of ${orgName}`
+      );
+      const connection = page.organization!.teams;
+
+      for (const team of connection.nodes) {
+        if (team.repositories.pageInfo.hasNextPage) {
+          logger.warn(`⚠️  Team ${team.slug} has access to more than 100 repositories; only the first 100 are used for ownership`);
+        }
+        teams.push({
+          slug: team.slug,
+          repositories: team.repositories.edges.map(edge => ({ name: edge.node.name, permission: edge.permission })),
+        });
+      }
+
+      hasNextPage = connection.pageInfo.hasNextPage;
+      cursor = connection.pageInfo.endCursor ?? undefined;
+    }
+
+    logger.info(`👥 Fetched ${teams.length} teams for ${orgName}`);
+    return teams;
+  }
+
+  /**
+   * Fetch a repository's CODEOWNERS file
+   * @param orgName - Organization name
+   * @param repoName - Repository name
+   * @returns Promise<string | null> - CODEOWNERS content, or null when the repository has none
+   */
+  async fetchCodeowners(orgName: string, repoName: string): Promise<string | null> {
+    return this.executeWithRetry(
+      () => this.graphqlClient.fetchCodeowners(orgName, repoName),
+      `fetch CODEOWNERS of ${repoName}`
+    );
+  }
+
+  /**
+   * Get pagination statistics from the most recent fetch
+   */
+  getPaginationStats(): PaginationStats | undefined {
+    return this.lastPaginationStats;
   }
 
   /**
    * Fetch specific repositories efficiently using single repository queries
    * @param orgName - Organization name
    * @param repositoryNames - Array of repository names to fetch
+   * @param startDate - Optional start of the date window; when given, releases are paged until it is passed
    * @returns Promise<GitHubRepository[]> - Array of repositories
    */
-  async fetchSpecificRepositories(orgName: string, repositoryNames: string[]): Promise<GitHubRepository[]> {
+  async fetchSpecificRepositories(
+    orgName: string,
+    repositoryNames: string[],
+    startDate?: Date
+  ): Promise<GitHubRepository[]> {
     const repositories: GitHubRepository[] = [];
+    const stats = this.createStats();
 
     logger.info(`🎯 Fetching ${repositoryNames.length} specific repositories...`);
 
@@ -60,6 +160,11 @@ export class Repository {
         );
 
         if (repository) {
+          stats.totalRepositories++;
+          if (startDate) {
+            await this.fetchRemainingReleases(orgName, repository, startDate, stats);
+          }
+          stats.totalReleases += repository.releases.nodes.length;
           repositories.push(repository);
           logger.info(`✅ Successfully fetched repository: ${repoName}`);
         } else {
@@ -71,6 +176,10 @@ export class Repository {
       }
     }
 
+    stats.repositoriesScanned = repositories.length;
+    this.lastPaginationStats = stats;
+    this.logReleasePages(stats);
+
     logger.info(`📊 Specific repository fetching complete. Found ${repositories.length} out of ${repositoryNames.length} requested repositories.`);
     return repositories;
   }
@@ -85,14 +194,8 @@ export class Repository {
     let hasNextPage = true;
     let cursor: string | null = null;
 
-    const stats: PaginationStats = {
-      totalRepositories: 0,
-      totalReleases: 0,
-      filteredReleases: 0,
-      pageCount: 0,
-      earlyStopEnabled: this.earlyStopConfig.enabled,
-      repositoriesScanned: 0
-    };
+    const stats = this.createStats();
+    this.lastPaginationStats = stats;
 
     // Calculate cutoff date for early stopping optimization
     const cutoffDate = new Date(startDate);
@@ -131,6 +234,15 @@ export class Repository {
         const repos = repoPage.nodes;
         stats.totalRepositories += repos.length;
 
+        // Page past the first batch of releases for repositories that will be processed
+        for (const repo of repos) {
+          if (this.earlyStopConfig.enabled && new Date(repo.updatedAt) < cutoffDate) {
+            break;
+          }
+          await this.fetchRemainingReleases(orgName, repo, cutoffDate, stats);
+          stats.totalReleases += repo.releases.nodes.length;
+        }
+
         // Check for early stopping and collect repositories
         const { shouldStop, processedRepos } = this.processRepositoryPage(
           repos,
@@ -156,6 +268,8 @@ export class Repository {
       }
 
       logger.info(`\n📊 Repository fetching Results:`);
+      logger.info(`Repository pages: ${stats.pageCount}, repositories scanned: ${stats.repositoriesScanned}, releases fetched: ${stats.totalReleases}, releases in window: ${stats.filteredReleases}`);
+      this.logReleasePages(stats);
       return repositories;
 
     } catch (error) {
@@ -201,6 +315,8 @@ export class Repository {
         return releaseDate >= cutoffDate;
       });
 
+      stats.filteredReleases += filteredReleases.length;
+
       // Create a new repository object with filtered releases
       const filteredRepo: GitHubRepository = {
         ...repo,
@@ -215,6 +331,63 @@ export class Repository {
     return { shouldStop, processedRepos };
   }
 
+  /**
+   * Page through a repository's releases until the start of the date window is passed
+   * Releases are ordered newest first, so paging stops once the oldest fetched release predates startDate
+   * Appends fetched releases to repo.releases.nodes and records the page count in stats
+   */
+  private async fetchRemainingReleases(
+    orgName: string,
+    repo: GitHubRepository,
+    startDate: Date,
+    stats: PaginationStats
+  ): Promise<void> {
+    let pages = 1;
+    let { pageInfo } = repo.releases;
+
+    while (pageInfo?.hasNextPage && pageInfo.endCursor && this.oldestReleaseIsInWindow(repo, startDate)) {
+      pages++;
+      const cursor = pageInfo.endCursor;
+      const page = await this.executeWithRetry(
+        () => this.graphqlClient.fetchRepositoryReleasesPage(orgName, repo.name, cursor),
+        `fetch releases page ${pages} of ${repo.name}`
+      );
+
+      repo.releases.nodes.push(...page.nodes);
+      ({ pageInfo } = page);
+    }
+
+    repo.releases.pageInfo = pageInfo;
+    stats.releasePagesByRepository[repo.name] = pages;
+  }
+
+  private oldestReleaseIsInWindow(repo: GitHubRepository, startDate: Date): boolean {
+    const { nodes } = repo.releases;
+    if (nodes.length === 0) {
+      return false;
+    }
+    return new Date(nodes[nodes.length - 1].publishedAt) >= startDate;
+  }
+
+  private createStats(): PaginationStats {
+    return {
+      totalRepositories: 0,
+      totalReleases: 0,
+      filteredReleases: 0,
+      pageCount: 0,
+      earlyStopEnabled: this.earlyStopConfig.enabled,
+      repositoriesScanned: 0,
+      releasePagesByRepository: {}
+    };
+  }
+
+  private logReleasePages(stats: PaginationStats): void {
+    const paged = Object.entries(stats.releasePagesByRepository).filter(([, pages]) => pages > 1);
+    for (const [repoName, pages] of paged) {
+      logger.info(`📑 ${repoName}: fetched ${pages} release pages`);
+    }
+  }
+
   /**
    * Execute operation with exponential backoff retry
    */
@@ -0,0 +1,295 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { DigestExport, SiteData, SiteRelease, SiteRepository } from '../types';
+import { escapeHtml } from '../utils/html';
+import { logger } from '../utils/logger';
+import { formatDateForTable } from './format';
+
+const STYLES = `body { margin: 0; background: #f6f8fa; color: #1f2328; font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; font-size: 15px; line-height: 1.5; }
+main { max-width: 960px; margin: 0 auto; padding: 24px; }
+h1 { font-size: 24px; margin: 0 0 4px; }
+h2 { font-size: 18px; margin: 32px 0 8px; }
+a { color: #0969da; text-decoration: none; }
+a:hover { text-decoration: underline; }
+.subtle { color: #59636e; font-size: 13px; }
+.card { background: #ffffff; border: 1px solid #d1d9e0; border-radius: 6px; padding: 12px 16px; margin: 8px 0; }
+table { width: 100%; border-collapse: collapse; background: #ffffff; border: 1px solid #d1d9e0; border-radius: 6px; }
+th, td { text-align: left; padding: 6px 12px; border-bottom: 1px solid #d1d9e0; font-size: 14px; }
+th { background: #f6f8fa; }
+.badge { display: inline-block; background: #fff8c5; border: 1px solid #d4a72c; border-radius: 10px; font-size: 11px; padding: 0 6px; margin-left: 4px; }
+#search { width: 100%; box-sizing: border-box; padding: 8px 12px; font-size: 15px; border: 1px solid #d1d9e0; border-radius: 6px; margin: 16px 0 0; }
+.timeline { list-style: none; padding: 0; margin: 0; border-left: 2px solid #d1d9e0; }
+.timeline li { position: relative; padding: 4px 0 12px 16px; }
+.timeline li::before { content: ''; position: absolute; left: -6px; top: 10px; width: 10px; height: 10px; border-radius: 50%; background: #1f883d; }
+.timeline li.prerelease::before { background: #d4a72c; }
+.summary { white-space: pre-wrap; }
+@media only screen and (max-width: 600px) { main { padding: 12px; } th, td { padding: 4px 6px; } .hide-small { display: none; } }
+`;
+
+/**
+ * Filters release rows by the search box and hides weeks without matches
+ */
+const SEARCH_SCRIPT = `const search = document.getElementById('search');
+const empty = document.getElementById('no-results');
+search.addEventListener('input', () => {
+  const terms = search.value.toLowerCase().split(/\\s+/).filter(Boolean);
+  let visible = 0;
+  for (const week of document.querySelectorAll('section.week')) {
+    let weekVisible = 0;
+    for (const row of week.querySelectorAll('tr[data-search]')) {
+      const match = terms.every(term => row.dataset.search.includes(term));
+      row.hidden = !match;
+      weekVisible += match ? 1 : 0;
+    }
+    week.hidden = weekVisible === 0;
+    visible += weekVisible;
+  }
+  empty.hidden = visible > 0;
+});
+`;
+
+/**
+ * Read the JSON digest exports (written with --output json) stored in a directory
+ * Files that are not digest exports are skipped with a warning
+ * @throws {Error} If the directory does not exist
+ */
+export function loadDigestExports(directory: string): DigestExport[] {
+  if (!existsSync(directory)) {
+    throw new Error(`Digest directory not found: ${directory}`);
+  }
+
+  const exports: DigestExport[] = [];
+  for (const file of readdirSync(directory).filter(name => name.endsWith('.json')).sort()) {
+    try {
+      const value = JSON.parse(readFileSync(join(directory, file), 'utf-8'));
+      if (isDigestExport(value)) {
+        exports.push(value);
+      } else {
+        logger.warn(`Skipping ${file}: not a digest export`);
+      }
+    } catch (error) {
+      logger.warn(`Skipping ${file}: ${error}`);
+    }
+  }
+
+  logger.info(`Loaded ${exports.length} digest exports from ${directory}`);
+  return exports;
+}
+
+/**
+ * Collect the releases and repository summaries of every digest export
+ * A release exported by several digests appears once, with the details of the most recent digest
+ */
+export function buildSiteData(exports: DigestExport[]): SiteData {
+  const ordered = [...exports].sort((a, b) => a.generatedAt.localeCompare(b.generatedAt));
+  const releases = new Map<string, SiteRelease>();
+  const repositories = new Map<string, Omit<SiteRepository, 'label' | 'slug' | 'releases'>>();
+
+  for (const digest of ordered) {
+    for (const repository of digest.repositories) {
+      const name = repository.organization && repository.name.startsWith(`${repository.organization}/`)
+        ? repository.name.slice(repository.organization.length + 1)
+        : repository.name;
+      const key = repository.organization ? `${repository.organization}/${name}` : name;
+
+      if (!repositories.has(key)) {
+        repositories.set(key, { key, organization: repository.organization, summaries: [] });
+      }
+      // The generic fallback summary carries no information worth keeping
+      if (repository.summary && repository.summaryGenerated !== false) {
+        repositories.get(key)!.summaries.unshift({ dateRange: digest.dateRange, generatedAt: digest.generatedAt, text: repository.summary });
+      }
+
+      for (const release of repository.releases) {
+        releases.set(`${key}@${release.tagName}`, {
+          repository: key,
+          tagName: release.tagName,
+          name: release.name,
+          version: release.version,
+          url: release.url,
+          publishedAt: release.publishedAt,
+          author: release.author,
+          prerelease: release.prerelease,
+          teams: release.teams
+        });
+      }
+    }
+  }
+
+  const allReleases = Array.from(releases.values())
+    .sort((a, b) => Date.parse(b.publishedAt) - Date.parse(a.publishedAt));
+  const multiOrg = new Set(Array.from(repositories.values()).map(repository => repository.organization)).size > 1;
+  const slugs = new Set<string>();
+
+  const siteRepositories = Array.from(repositories.values()).map(repository => {
+    const label = multiOrg || !repository.organization ? repository.key : repository.key.slice(repository.organization.length + 1);
+    return {
+      ...repository,
+      label,
+      slug: uniqueSlug(repository.key, slugs),
+      releases: allReleases.filter(release => release.repository === repository.key)
+    };
+  }).sort((a, b) => a.label.localeCompare(b.label));
+
+  return { releases: allReleases, repositories: siteRepositories, digestCount: exports.length };
+}
+
+/**
+ * Render the dashboard site: an index of releases by week with search, and a page per repository
+ * with its release timeline and AI summaries
+ * @returns File contents keyed by path relative to the site root
+ */
+export function renderSite(data: SiteData, title: string, now: Date = new Date()): Map<string, string> {
+  const files = new Map<string, string>();
+  files.set('style.css', STYLES);
+  files.set('index.html', renderIndex(data, title, now));
+
+  for (const repository of data.repositories) {
+    files.set(`repos/${repository.slug}.html`, renderRepositoryPage(repository, title));
+  }
+
+  return files;
+}
+
+/**
+ * Write the rendered site files below a directory
+ */
+export function writeSite(outputDirectory: string, files: Map<string, string>): void {
+  for (const [path, content] of files) {
+    const target = join(outputDirectory, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content, 'utf-8');
+  }
+  logger.info(`Wrote ${files.size} files to ${outputDirectory}`);
+}
+
+/**
+ * Monday (UTC) of the week a release was published in, as YYYY-MM-DD
+ */
+export function weekStart(isoString: string): string {
+  const date = new Date(isoString);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().split('T')[0];
+}
+
+function renderIndex(data: SiteData, title: string, now: Date): string {
+  const repositories = new Map(data.repositories.map(repository => [repository.key, repository]));
+  const weeks = new Map<string, SiteRelease[]>();
+  for (const release of data.releases) {
+    const week = weekStart(release.publishedAt);
+    if (!weeks.has(week)) {
+      weeks.set(week, []);
+    }
+    weeks.get(week)!.push(release);
+  }
+
+  const body = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<div class="subtle">${data.releases.length} releases • ${data.repositories.length} repositories • ${data.digestCount} digests • generated ${formatDateForTable(now.toISOString())}</div>`,
+    '<input id="search" type="search" placeholder="Search releases by repository, tag or title" aria-label="Search releases">',
+    '<p id="no-results" class="subtle" hidden>No releases match the search.</p>'
+  ];
+
+  for (const [week, releases] of weeks) {
+    const rows = releases.map(release => {
+      const repository = repositories.get(release.repository)!;
+      const search = `${repository.label} ${release.tagName} ${release.name}`.toLowerCase();
+      return [
+        `<tr data-search="${escapeHtml(search)}">`,
+        `<td><a href="repos/${repository.slug}.html">${escapeHtml(repository.label)}</a></td>`,
+        `<td>${releaseLink(release)}</td>`,
+        `<td>${formatDateForTable(release.publishedAt)}</td>`,
+        `<td class="hide-small">${escapeHtml(release.author)}</td>`,
+        '</tr>'
+      ].join('');
+    });
+    body.push(
+      '<section class="week">',
+      `<h2>Week of ${week}</h2>`,
+      '<table>',
+      '<tr><th>Repository</th><th>Version</th><th>Published At</th><th class="hide-small">Author</th></tr>',
+      ...rows,
+      '</table>',
+      '</section>'
+    );
+  }
+
+  if (data.releases.length === 0) {
+    body.push('<p class="subtle">No releases in the stored digests.</p>');
+  }
+
+  body.push('<h2>Repositories</h2>', '<div class="card">');
+  body.push(data.repositories
+    .map(repository => `<a href="repos/${repository.slug}.html">${escapeHtml(repository.label)}</a> <span class="subtle">(${repository.releases.length})</span>`)
+    .join(' · '));
+  body.push('</div>', `<script>\n${SEARCH_SCRIPT}</script>`);
+
+  return page(title, 'style.css', body);
+}
+
+function renderRepositoryPage(repository: SiteRepository, title: string): string {
+  const body = [
+    `<p><a href="../index.html">← ${escapeHtml(title)}</a></p>`,
+    `<h1>${escapeHtml(repository.label)}</h1>`,
+    `<div class="subtle">${repository.releases.length} releases${repository.releases.length > 0 ? ` • latest ${formatDateForTable(repository.releases[0].publishedAt)}` : ''}</div>`
+  ];
+
+  if (repository.summaries.length > 0) {
+    body.push('<h2>Summaries</h2>');
+    for (const summary of repository.summaries) {
+      body.push(`<div class="card"><div class="subtle">${escapeHtml(summary.dateRange)}</div><div class="summary">${escapeHtml(summary.text)}</div></div>`);
+    }
+  }
+
+  body.push('<h2>Releases</h2>', '<ol class="timeline">');
+  for (const release of repository.releases) {
+    const teams = release.teams && release.teams.length > 0 ? ` • ${escapeHtml(release.teams.join(', '))}` : '';
+    body.push(`<li${release.prerelease ? ' class="prerelease"' : ''}>${releaseLink(release)}<div class="subtle">${formatDateForTable(release.publishedAt)} • ${escapeHtml(release.author)}${teams}</div></li>`);
+  }
+  body.push('</ol>');
+
+  return page(`${repository.label} - ${title}`, '../style.css', body);
+}
+
+function releaseLink(release: SiteRelease): string {
+  const version = escapeHtml(release.version);
+  const link = release.url ? `<a href="${escapeHtml(release.url)}">${version}</a>` : version;
+  return `${link}${release.prerelease ? '<span class="badge">pre-release</span>' : ''}`;
+}
+
+function page(title: string, stylesheet: string, body: string[]): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<link rel="stylesheet" href="${stylesheet}">`,
+    '</head>',
+    '<body>',
+    '<main>',
+    ...body,
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+function uniqueSlug(key: string, taken: Set<string>): string {
+  const base = key.toLowerCase().replace(/[^a-z0-9._-]+/g, '-');
+  let slug = base;
+  for (let suffix = 2; taken.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  taken.add(slug);
+  return slug;
+}
+
+function isDigestExport(value: any): value is DigestExport {
+  return typeof value === 'object' && value !== null
+    && typeof value.generatedAt === 'string'
+    && typeof value.stats === 'object'
+    && Array.isArray(value.repositories);
+}
@@ -0,0 +1,258 @@
+import {
+  ReleaseInfo,
+  RepositorySummaries,
+  RepositorySummary,
+  SlackBlock,
+  SlackMessage,
+  SummaryConfig
+} from '../types';
+import { logger } from '../utils/logger';
+import {
+  createSummaryHeader,
+  createSummaryTable,
+  extractVersionFromName,
+  formatDateForTable,
+  getDateRangeText,
+  getOrganizations,
+  groupReleasesByRepository,
+  groupReleasesByTeam,
+  summariesByLabel,
+  validateReleases
+} from './format';
+
+/**
+ * Slack Block Kit limits
+ */
+export const MAX_BLOCKS_PER_MESSAGE = 50;
+const MAX_HEADER_TEXT = 150;
+const MAX_SECTION_TEXT = 3000;
+
+/**
+ * Format releases as Slack Block Kit messages
+ * The first message carries the code-block header and table as fallback `text`,
+ * later messages (when the digest exceeds the per-message block limit) carry a continuation line.
+ * With `config.threaded` the intro blocks form a message of their own (the thread parent)
+ * and the repository blocks follow as replies, the first one carrying the table as fallback.
+ */
+export async function formatReleaseBlocks(
+  releases: ReleaseInfo[],
+  config: SummaryConfig,
+  summaries?: RepositorySummaries,
+  requestedRepositories?: string[]
+): Promise<SlackMessage[]> {
+  try {
+    validateReleases(releases);
+    logger.info(`Formatting Block Kit messages for ${releases.length} releases`);
+
+    const headerText = createSummaryHeader(releases, config, requestedRepositories);
+    const fallbackText = releases.length > 0
+      ? `${headerText}\n\n${createSummaryTable(releases, !config.team, config)}`
+      : headerText;
+
+    const introBlocks = createIntroBlocks(releases, config);
+    if (releases.length === 0) {
+      return [{ text: fallbackText, blocks: introBlocks }];
+    }
+
+    const units = createRepositoryUnits(releases, config.includeDescriptions ? summariesByLabel(releases, summaries) : undefined, !config.team);
+
+    const continuationText = `${headerText.split('\n')[0]} (continued)`;
+    const messages = config.threaded
+      ? [
+        { text: headerText, blocks: introBlocks },
+        ...packBlocks([], units).map((blocks, index) => ({
+          text: index === 0 ? createSummaryTable(releases, !config.team, config) : continuationText,
+          blocks
+        }))
+      ]
+      : packBlocks(introBlocks, units).map((blocks, index) => ({
+        text: index === 0 ? fallbackText : continuationText,
+        blocks
+      }));
+
+    logger.info(`Built ${messages.length} Block Kit message(s) with ${messages.reduce((sum, m) => sum + m.blocks.length, 0)} blocks`);
+    return messages;
+  } catch (error) {
+    logger.error(`Error formatting Block Kit release message: ${error}`);
+    throw new Error(`Failed to format Block Kit release message: ${error}`);
+  }
+}
+
+/**
+ * Header block, stats fields and divider opening the digest
+ */
+function createIntroBlocks(releases: ReleaseInfo[], config: SummaryConfig): SlackBlock[] {
+  const dateRange = getDateRangeText(config);
+  const title = `📊 Release Summary - ${dateRange}${config.team ? ` - ${config.team}` : ''}`;
+  const blocks: SlackBlock[] = [
+    { type: 'header', text: { type: 'plain_text', text: truncate(title, MAX_HEADER_TEXT), emoji: true } }
+  ];
+
+  if (releases.length === 0) {
+    blocks.push(section(`No releases found for ${escapeMrkdwn(dateRange)}`));
+  } else {
+    const organizations = getOrganizations(releases);
+    const fields = [
+      field('Releases', releases.length),
+      field('Stable', releases.filter(r => !r.isPrerelease).length),
+      field('Pre-release', releases.filter(r => r.isPrerelease).length),
+      field('Repositories', new Set(releases.map(r => r.repository)).size)
+    ];
+    if (organizations.length > 1) {
+      fields.push(field('Organizations', organizations.join(', ')));
+    }
+    if (config.team) {
+      fields.push(field('Team', config.team));
+    }
+    blocks.push({ type: 'section', fields });
+  }
+
+  if (config.dataSource) {
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `Source: ${escapeMrkdwn(config.dataSource)}` }] });
+  }
+  blocks.push({ type: 'divider' });
+  return blocks;
+}
+
+/**
+ * Blocks for each repository (section with linked versions, context with authors, divider),
+ * preceded by a team subheader when releases carry owning teams
+ * Each unit is kept together when blocks are split across messages
+ */
+function createRepositoryUnits(
+  releases: ReleaseInfo[],
+  summaries: Map<string, RepositorySummary> | undefined,
+  groupByTeam: boolean
+): SlackBlock[][] {
+  const releasesByRepo = groupReleasesByRepository(releases);
+  const units: SlackBlock[][] = [];
+
+  const addRepositories = (rows: Map<string, ReleaseInfo[]>, subheader?: string) => {
+    let first = true;
+    for (const [repoName, repoReleases] of rows) {
+      const unit = createRepositoryBlocks(repoName, repoReleases, summaries?.get(repoName));
+      if (first && subheader) {
+        unit.unshift(section(`*👥 ${escapeMrkdwn(subheader)}*`));
+      }
+      first = false;
+      units.push(unit);
+    }
+  };
+
+  if (groupByTeam && releases.some(release => release.teams && release.teams.length > 0)) {
+    for (const [team, teamReleases] of groupReleasesByTeam(releases)) {
+      const teamRows = new Map<string, ReleaseInfo[]>();
+      for (const [repoName, repoReleases] of releasesByRepo) {
+        const owned = repoReleases.filter(release => teamReleases.includes(release));
+        if (owned.length > 0) {
+          teamRows.set(repoName, owned);
+        }
+      }
+      addRepositories(teamRows, team);
+    }
+  } else {
+    addRepositories(releasesByRepo);
+  }
+
+  return units;
+}
+
+/**
+ * Blocks describing one repository
+ * A repository too long for one section is split across sections (versions first, then the summary)
+ * at version and word boundaries, so links are never cut and no release is dropped
+ */
+function createRepositoryBlocks(
+  repoName: string,
+  repoReleases: ReleaseInfo[],
+  summary?: RepositorySummary
+): SlackBlock[] {
+  const versions = repoReleases.map(release => {
+    const version = escapeMrkdwn(extractVersionFromName(release.name));
+    const link = release.url ? `<${release.url}|${version}>` : version;
+    return release.isPrerelease ? `${link} _(pre-release)_` : link;
+  });
+
+  const title = `*${escapeMrkdwn(repoName)}*`;
+  let texts = [`${title}\n${versions.join(' · ')}${summary ? `\n${escapeMrkdwn(summary.text)}` : ''}`];
+  if (texts[0].length > MAX_SECTION_TEXT) {
+    texts = packSectionText([`${title}\n${versions[0]}`, ...versions.slice(1)], ' · ');
+    if (summary) {
+      texts.push(...packSectionText(summary.text.split(' ').map(escapeMrkdwn), ' '));
+    }
+  }
+
+  const authors = Array.from(new Set(repoReleases.map(release => release.author).filter(Boolean)));
+  const context = [`📅 ${formatDateForTable(repoReleases[0].publishedAt)}`];
+  if (authors.length > 0) {
+    context.unshift(`👤 ${authors.map(escapeMrkdwn).join(', ')}`);
+  }
+
+  return [
+    ...texts.map(section),
+    { type: 'context', elements: [{ type: 'mrkdwn', text: context.join(' • ') }] },
+    { type: 'divider' }
+  ];
+}
+
+/**
+ * Join pieces into section texts of at most MAX_SECTION_TEXT characters without splitting a piece
+ * Only a single piece longer than a whole section is truncated
+ */
+function packSectionText(pieces: string[], separator: string): string[] {
+  const texts: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + separator.length + piece.length > MAX_SECTION_TEXT) {
+      texts.push(current);
+      current = '';
+    }
+    current = current ? `${current}${separator}${piece}` : truncate(piece, MAX_SECTION_TEXT);
+  }
+
+  if (current) {
+    texts.push(current);
+  }
+  return texts;
+}
+
+/**
+ * Pack the intro and repository units into messages of at most MAX_BLOCKS_PER_MESSAGE blocks
+ */
+function packBlocks(introBlocks: SlackBlock[], units: SlackBlock[][]): SlackBlock[][] {
+  const messages: SlackBlock[][] = [];
+  let current = [...introBlocks];
+
+  for (const unit of units) {
+    if (current.length + unit.length > MAX_BLOCKS_PER_MESSAGE && current.length > 0) {
+      messages.push(current);
+      current = [];
+    }
+    current.push(...unit);
+  }
+
+  if (current.length > 0) {
+    messages.push(current);
+  }
+  return messages;
+}
+
+function section(text: string): SlackBlock {
+  return { type: 'section', text: { type: 'mrkdwn', text } };
+}
+
+function field(label: string, value: string | number) {
+  return { type: 'mrkdwn' as const, text: `*${label}*\n${escapeMrkdwn(String(value))}` };
+}
+
+/**
+ * Escape the characters Slack mrkdwn treats as control sequences
+ */
+export function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
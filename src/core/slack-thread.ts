@@ -0,0 +1,143 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { SlackMessage, SlackThreadRecord, SummaryConfig } from '../types';
+import { SlackWebClient } from '../clients/slack-web-client';
+import { logger } from '../utils/logger';
+import { generateTimeframeText } from './format';
+
+/**
+ * Persists the Slack thread posted for each digest in a JSON file, keyed by digest
+ */
+export class SlackThreadStore {
+  private records?: Record<string, SlackThreadRecord>;
+
+  constructor(private readonly path: string) {}
+
+  get(key: string): SlackThreadRecord | undefined {
+    return this.load()[key];
+  }
+
+  set(key: string, record: SlackThreadRecord): void {
+    const records = this.load();
+    records[key] = record;
+    writeFileSync(this.path, `${JSON.stringify(records, null, 2)}\n`, 'utf-8');
+  }
+
+  private load(): Record<string, SlackThreadRecord> {
+    if (!this.records) {
+      this.records = existsSync(this.path)
+        ? JSON.parse(readFileSync(this.path, 'utf-8')) as Record<string, SlackThreadRecord>
+        : {};
+    }
+    return this.records;
+  }
+}
+
+/**
+ * Posts a digest as a Slack thread: the first message is the parent, the rest are replies
+ * When the digest was posted before, the recorded thread is updated in place instead of duplicated
+ */
+export class SlackThreadPublisher {
+  constructor(
+    private readonly client: SlackWebClient,
+    private readonly store: SlackThreadStore
+  ) {}
+
+  /**
+   * Post or update the thread for a digest
+   * @param channel - Channel ID to post to
+   * @param messages - Formatted digest; the first entry becomes the thread parent
+   * @param key - Digest identity used to find a previously posted thread (see digestThreadKey)
+   * @returns Promise<SlackThreadRecord> - Timestamps of the parent and replies
+   */
+  async publish(channel: string, messages: Array<string | SlackMessage>, key: string): Promise<SlackThreadRecord> {
+    const [parent, ...replies] = messages.map(message => (typeof message === 'string' ? { text: message } : message));
+    if (!parent) {
+      throw new Error('At least one message is required to start a Slack thread');
+    }
+
+    try {
+      const existing = this.store.get(key);
+      let record: SlackThreadRecord | undefined;
+
+      if (existing && existing.channel === channel) {
+        record = await this.updateThread(existing, parent, replies);
+      }
+      if (!record) {
+        record = await this.postThread(channel, parent, replies);
+      }
+
+      this.store.set(key, record);
+      return record;
+    } catch (error) {
+      logger.error(`Error posting Slack thread: ${error}`);
+      throw new Error(`Failed to post Slack thread: ${error}`);
+    }
+  }
+
+  private async postThread(channel: string, parent: SlackMessage, replies: SlackMessage[]): Promise<SlackThreadRecord> {
+    logger.info(`Posting digest thread to ${channel} with ${replies.length} replies`);
+    const parentTs = await this.client.postMessage(channel, parent);
+
+    const replyTs: string[] = [];
+    for (const reply of replies) {
+      replyTs.push(await this.client.postMessage(channel, reply, parentTs));
+    }
+
+    logger.info(`Posted digest thread ${parentTs}`);
+    return { channel, parentTs, replyTs, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Update a recorded thread: replies are updated in order, extra replies posted and surplus ones deleted
+   * @returns Updated record, or undefined when the parent message no longer exists
+   */
+  private async updateThread(
+    existing: SlackThreadRecord,
+    parent: SlackMessage,
+    replies: SlackMessage[]
+  ): Promise<SlackThreadRecord | undefined> {
+    const { channel, parentTs } = existing;
+    logger.info(`Updating digest thread ${parentTs} in ${channel}`);
+
+    try {
+      await this.client.updateMessage(channel, parentTs, parent);
+    } catch (error) {
+      if (String(error).includes('message_not_found')) {
+        logger.warn(`Recorded thread ${parentTs} no longer exists, posting a new thread`);
+        return undefined;
+      }
+      throw error;
+    }
+
+    const replyTs: string[] = [];
+    for (const [index, reply] of replies.entries()) {
+      const ts = existing.replyTs[index];
+      if (ts) {
+        await this.client.updateMessage(channel, ts, reply);
+        replyTs.push(ts);
+      } else {
+        replyTs.push(await this.client.postMessage(channel, reply, parentTs));
+      }
+    }
+
+    for (const ts of existing.replyTs.slice(replies.length)) {
+      await this.client.deleteMessage(channel, ts);
+    }
+
+    logger.info(`Updated digest thread ${parentTs}`);
+    return { channel, parentTs, replyTs, updatedAt: new Date().toISOString() };
+  }
+}
+
+/**
+ * Key identifying a digest across reruns: the timeframe, the start and end of its fetched window and the team
+ * Rerunning the same window maps to the same thread, while each new window (e.g. hourly runs) gets its own
+ */
+export function digestThreadKey(config: Pick<SummaryConfig, 'timeframe' | 'team' | 'dateRange'>): string {
+  const { timeframe, dateRange } = config;
+  const timeframeText = generateTimeframeText(timeframe);
+  const key = timeframe.type === 'date' || !dateRange
+    ? timeframeText
+    : `${timeframeText}@${dateRange.startDate.toISOString()}..${dateRange.endDate.toISOString()}`;
+  return config.team ? `${key}#${config.team}` : key;
+}
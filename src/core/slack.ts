@@ -1,5 +1,7 @@
-import { SlackMessage } from '../types';
+import { RetryConfig, SlackMessage } from '../types';
 import { logger } from '../utils/logger';
+import { deliveryError, withRetry } from '../utils/retry';
+import { DeliveryLedger, webhookTarget } from './delivery-ledger';
 
 /**
  * Slack integration module for posting GitHub release summaries
@@ -10,24 +12,31 @@ import { logger } from '../utils/logger';
  * - Error handling and logging
  */
 
-
+/**
+ * Single attempt per message unless SLACK_RETRY_ATTEMPTS configures retries
+ */
+const NO_RETRY: RetryConfig = { maxRetries: 1, baseDelay: 1000, maxDelay: 10000 };
 
 /**
  * Posts a pre-formatted message to Slack
  *
- * @param message - Pre-formatted message to send
+ * @param message - Pre-formatted text, or a Block Kit message with fallback text
  * @param webhookUrl - Slack webhook URL for posting
+ * @param retryConfig - Attempts and backoff for network failures, rate limiting and server errors
  * @throws {Error} When validation fails or Slack API returns an error
  */
 export async function postToSlack(
-  message: string,
-  webhookUrl: string
+  message: string | SlackMessage,
+  webhookUrl: string,
+  retryConfig: RetryConfig = NO_RETRY
 ): Promise<void> {
   try {
     logger.info('Posting summary to Slack...');
 
+    const formattedMessage = typeof message === 'string' ? message : message?.text;
+
     // Validate inputs
-    if (!message || message.trim() === '') {
+    if (!formattedMessage || formattedMessage.trim() === '') {
       throw new Error('Message is required');
     }
 
@@ -35,12 +44,10 @@ export async function postToSlack(
       throw new Error('Slack webhook URL is required');
     }
 
-    const formattedMessage = message;
-
     // Create Slack message payload
-    const slackMessage: SlackMessage = {
-      text: formattedMessage
-    };
+    const slackMessage: SlackMessage = typeof message === 'string'
+      ? { text: formattedMessage }
+      : message;
 
     // Log the exact payload being sent
     logger.info(`Slack payload length: ${JSON.stringify(slackMessage).length} characters`);
@@ -48,25 +55,27 @@ export async function postToSlack(
     logger.info(`Message ends with: ...${formattedMessage.substring(formattedMessage.length - 100)}`);
 
     // Send to Slack
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(slackMessage),
-    });
+    await withRetry(async () => {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(slackMessage),
+      });
 
-    // Log the full Slack response for debugging
-    logger.info(`📄 Full Slack Response:`);
-    logger.info(`Status: ${response.status} ${response.statusText}`);
-    const responseText = await response.text();
-    logger.info(`Body: ${responseText}`);
+      // Log the full Slack response for debugging
+      logger.info(`📄 Full Slack Response:`);
+      logger.info(`Status: ${response.status} ${response.statusText}`);
+      const responseText = await response.text();
+      logger.info(`Body: ${responseText}`);
 
-    if (!response.ok) {
-      logger.error(`Slack API response: ${response.status} ${response.statusText}`);
-      logger.error(`Slack API error body: ${responseText}`);
-      throw new Error(`Slack API error (${response.status}): ${responseText}`);
-    }
+      if (!response.ok) {
+        logger.error(`Slack API response: ${response.status} ${response.statusText}`);
+        logger.error(`Slack API error body: ${responseText}`);
+        throw deliveryError(`Slack API error (${response.status}): ${responseText}`, response.status);
+      }
+    }, 'Slack post', retryConfig);
 
     logger.info('Successfully posted to Slack');
   } catch (error) {
@@ -74,3 +83,36 @@ export async function postToSlack(
     throw new Error(`Failed to post to Slack: ${error}`);
   }
 }
+
+/**
+ * Posts a digest's messages to a webhook, skipping messages the delivery ledger already recorded
+ *
+ * @param messages - Formatted digest messages
+ * @param webhookUrl - Slack webhook URL for posting
+ * @param ledger - Delivery ledger consulted before and updated after each post
+ * @param key - Ledger key of the digest for this webhook (see deliveryKey)
+ * @param retryConfig - Attempts and backoff for each message
+ */
+export async function deliverToSlack(
+  messages: Array<string | SlackMessage>,
+  webhookUrl: string,
+  ledger: DeliveryLedger,
+  key: string,
+  retryConfig?: RetryConfig
+): Promise<void> {
+  const target = webhookTarget(webhookUrl);
+  const pending = await ledger.pendingMessages(key, target, messages);
+
+  if (pending.length === 0) {
+    logger.info(`Digest ${key} was already delivered, skipping (use --force to post it again)`);
+    return;
+  }
+  if (pending.length < messages.length) {
+    logger.info(`Resuming delivery of ${key}: ${messages.length - pending.length} of ${messages.length} messages already posted`);
+  }
+
+  for (const message of pending) {
+    await postToSlack(message, webhookUrl, retryConfig);
+    await ledger.markDelivered(key, target, message);
+  }
+}
@@ -49,8 +49,13 @@ function mapRowToRelease(row: any): ReleaseInfo {
   };
 }
 
-export async function fetchReleasesFromSnowflake(config: any, startDate: Date, endDate: Date): Promise<ReleaseInfo[]> {
-  const { snowflake: snowflakeConfig, repositories } = config;
+export async function fetchReleasesFromSnowflake(
+  config: any,
+  startDate: Date,
+  endDate: Date,
+  organization?: string
+): Promise<ReleaseInfo[]> {
+  const { snowflake: snowflakeConfig, repositories, repositoryFilter } = config;
   const tableName = snowflakeConfig?.tableName || 'release';
 
   if (!snowflakeConfig) {
@@ -61,6 +66,9 @@ export async function fetchReleasesFromSnowflake(config: any, startDate: Date, e
   if (repositories && repositories.length > 0) {
     logger.info(`Repository filter: ${repositories.join(', ')}`);
   }
+  if (organization) {
+    logger.info(`Organization filter: ${organization}`);
+  }
 
   const client = new SnowflakeClient(snowflakeConfig);
 
@@ -68,7 +76,7 @@ export async function fetchReleasesFromSnowflake(config: any, startDate: Date, e
     await client.connect();
     logger.info('Connected to Snowflake. Executing release query...');
 
-    const sql = client.buildReleasesSql(startDate, endDate, repositories, tableName);
+    const sql = client.buildReleasesSql(startDate, endDate, repositories, tableName, organization, repositoryFilter);
 
     const rows = await client.executeQuery(sql);
     logger.info(`Snowflake returned ${rows?.length ?? 0} rows`);
@@ -0,0 +1,83 @@
+import {
+  ReleaseInfo,
+  ReleaseSource,
+  ReleaseSourceHealth,
+  ReleaseSourceQuery
+} from '../../types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Base class for release sources
+ * Times every fetch and records the outcome so the source can report its health
+ */
+export abstract class BaseReleaseSource implements ReleaseSource {
+  abstract readonly name: string;
+
+  abstract readonly label: string;
+
+  private lastLatencyMs: number | undefined;
+
+  private lastError: string | undefined;
+
+  private lastCheckedAt: string | undefined;
+
+  private consecutiveFailures = 0;
+
+  abstract isConfigured(): boolean;
+
+  /**
+   * Fetch releases from the underlying provider
+   */
+  protected abstract fetchFromProvider(query: ReleaseSourceQuery): Promise<ReleaseInfo[]>;
+
+  async fetchReleases(query: ReleaseSourceQuery): Promise<ReleaseInfo[]> {
+    const startedAt = Date.now();
+
+    try {
+      const releases = await this.fetchFromProvider(query);
+      this.recordResult(startedAt);
+      logger.info(`${this.label} returned ${releases.length} releases in ${this.lastLatencyMs}ms`);
+      return releases;
+    } catch (error) {
+      this.recordResult(startedAt, error);
+      throw error;
+    }
+  }
+
+  getHealth(): ReleaseSourceHealth {
+    return {
+      name: this.name,
+      healthy: this.isConfigured() && this.consecutiveFailures === 0,
+      configured: this.isConfigured(),
+      lastLatencyMs: this.lastLatencyMs,
+      lastError: this.lastError,
+      lastCheckedAt: this.lastCheckedAt,
+      consecutiveFailures: this.consecutiveFailures
+    };
+  }
+
+  /**
+   * Qualify releases with their organization so repositories read as org/repo
+   */
+  protected withOrganization(releases: ReleaseInfo[], orgName: string): ReleaseInfo[] {
+    const prefix = `${orgName}/`;
+    return releases.map(release => ({
+      ...release,
+      organization: orgName,
+      repository: release.repository.startsWith(prefix) ? release.repository : `${prefix}${release.repository}`
+    }));
+  }
+
+  private recordResult(startedAt: number, error?: unknown): void {
+    this.lastLatencyMs = Date.now() - startedAt;
+    this.lastCheckedAt = new Date().toISOString();
+
+    if (error === undefined) {
+      this.lastError = undefined;
+      this.consecutiveFailures = 0;
+    } else {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.consecutiveFailures++;
+    }
+  }
+}
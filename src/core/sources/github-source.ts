@@ -0,0 +1,169 @@
+import {
+  ReleaseInfo,
+  GitHubRepository,
+  ReleaseSourceQuery,
+  RepositoryFilter,
+  RepositoryMetadata
+} from '../../types';
+import { logger } from '../../utils/logger';
+import { Repository } from '../repository';
+import { hasRepositoryFilter, matchesRepositoryFilter } from '../repository-filter';
+import { BaseReleaseSource } from './base-source';
+
+/**
+ * Release source backed by the GitHub GraphQL API
+ */
+export class GitHubReleaseSource extends BaseReleaseSource {
+  readonly name = 'github';
+
+  readonly label = 'GitHub API';
+
+  constructor(private readonly repository: Repository) {
+    super();
+  }
+
+  isConfigured(): boolean {
+    return !!this.repository;
+  }
+
+  /**
+   * Fetch and process releases from repositories
+   */
+  protected async fetchFromProvider(query: ReleaseSourceQuery): Promise<ReleaseInfo[]> {
+    const { orgName, startDate, endDate, repositories, repositoryFilter } = query;
+
+    logger.info(`Using GitHub API to fetch releases for ${orgName}...`);
+
+    try {
+      let repositoriesToProcess: GitHubRepository[];
+
+      // Use efficient single repository fetching if only specific repositories are requested
+      if (repositories && repositories.length > 0 && !repositoryFilter?.patterns?.length) {
+        logger.info(`🎯 Using efficient single repository fetching for: ${repositories.join(', ')}`);
+        repositoriesToProcess = await this.repository.fetchSpecificRepositories(orgName, repositories, startDate);
+      } else {
+        // Fetch all repositories using pagination (existing behavior)
+        logger.info(`📄 Fetching all repositories with pagination...`);
+        repositoriesToProcess = await this.repository.fetchAllRepositories(query);
+      }
+
+      if (hasRepositoryFilter(repositoryFilter) || (repositories && repositories.length > 0)) {
+        repositoriesToProcess = await this.selectRepositories(orgName, repositoriesToProcess, repositories, repositoryFilter);
+      }
+
+      // Process releases from the repositories
+      const releases = this.processRepositories(
+        repositoriesToProcess,
+        { startDate, endDate }
+      );
+      return this.withOrganization(releases, orgName);
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : undefined;
+
+      logger.error(`Release fetching failed: ${errorMessage}`);
+      if (errorStack) {
+        logger.error(`Release fetching stack trace: ${errorStack}`);
+      }
+
+      // Log additional context for debugging
+      logger.error(`Release fetching context - Organization: ${orgName}, Date Range: ${startDate.toISOString()} to ${endDate.toISOString()}`);
+      if (repositories && repositories.length > 0) {
+        logger.error(`Release fetching context - Requested repositories: ${repositories.join(', ')}`);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Keep repositories matching the exact names and repository filter
+   * Custom properties are only fetched for repositories that pass every other criterion
+   */
+  private async selectRepositories(
+    orgName: string,
+    repositories: GitHubRepository[],
+    names?: string[],
+    filter?: RepositoryFilter
+  ): Promise<GitHubRepository[]> {
+    const { properties, ...filterWithoutProperties } = filter ?? {};
+    const toMetadata = (repo: GitHubRepository): RepositoryMetadata => ({
+      name: repo.name,
+      isArchived: repo.isArchived,
+      isFork: repo.isFork,
+      topics: repo.repositoryTopics?.nodes.map(node => node.topic.name),
+    });
+
+    let selected = repositories.filter(repo => matchesRepositoryFilter(toMetadata(repo), names, filterWithoutProperties));
+
+    if (properties && Object.keys(properties).length > 0) {
+      const withProperties: GitHubRepository[] = [];
+      for (const repo of selected) {
+        const repoProperties = await this.repository.fetchRepositoryProperties(orgName, repo.name);
+        if (matchesRepositoryFilter({ ...toMetadata(repo), properties: repoProperties }, undefined, { properties })) {
+          withProperties.push(repo);
+        }
+      }
+      selected = withProperties;
+    }
+
+    logger.info(`🔎 Repository filter kept ${selected.length} of ${repositories.length} repositories`);
+    return selected;
+  }
+
+  /**
+   * Process repositories to extract and filter releases
+   */
+  private processRepositories(
+    repositories: GitHubRepository[],
+    dateRange: { startDate: Date; endDate?: Date }
+  ): ReleaseInfo[] {
+    const releases: ReleaseInfo[] = [];
+
+    for (const repo of repositories) {
+      // Process releases for this repository
+      for (const release of repo.releases.nodes) {
+        if (this.isReleaseInDateRange(release.publishedAt, dateRange)) {
+          releases.push({
+            repository: repo.name,
+            tagName: release.tagName,
+            name: release.name || release.tagName,
+            publishedAt: release.publishedAt,
+            description: release.description || '',
+            url: release.url,
+            author: release.author.login,
+            isPrerelease: release.isPrerelease
+          });
+        }
+      }
+    }
+
+    logger.info(`📦 Processed ${repositories.length} repositories`);
+    return releases;
+  }
+
+  /**
+   * Check if a release falls within the specified date range
+   * @param publishedAt - Release publish date string
+   * @param dateRange - Date range to check against
+   * @returns boolean
+   */
+  private isReleaseInDateRange(
+    publishedAt: string,
+    dateRange: { startDate: Date; endDate?: Date }
+  ): boolean {
+    const publishedDate = new Date(publishedAt);
+    const { startDate, endDate } = dateRange;
+
+    if (publishedDate < startDate) {
+      return false;
+    }
+
+    if (endDate && publishedDate > endDate) {
+      return false;
+    }
+
+    return true;
+  }
+}
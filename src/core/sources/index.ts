@@ -0,0 +1,9 @@
+export { BaseReleaseSource } from './base-source';
+export { SnowflakeReleaseSource } from './snowflake-source';
+export { GitHubReleaseSource } from './github-source';
+export {
+  ReleaseSourceRegistry,
+  ReleaseSourceContext,
+  ReleaseSourceFactory,
+  releaseSourceRegistry
+} from './registry';
@@ -0,0 +1,32 @@
+import { ReleaseSource } from '../../types';
+import { Repository } from '../repository';
+import { Registry } from '../../utils/registry';
+import { SnowflakeReleaseSource } from './snowflake-source';
+import { GitHubReleaseSource } from './github-source';
+
+/**
+ * Dependencies handed to release source factories
+ */
+export interface ReleaseSourceContext {
+  config: any;
+  repository: Repository;
+}
+
+export type ReleaseSourceFactory = (context: ReleaseSourceContext) => ReleaseSource;
+
+/**
+ * Registry of release sources keyed by name
+ * Config selects an ordered chain of registered names
+ */
+export class ReleaseSourceRegistry extends Registry<ReleaseSourceFactory> {
+  constructor() {
+    super('release source', 'sources');
+  }
+}
+
+/**
+ * Default registry with the built-in Snowflake and GitHub sources
+ */
+export const releaseSourceRegistry = new ReleaseSourceRegistry();
+releaseSourceRegistry.register('snowflake', ({ config }) => new SnowflakeReleaseSource(config));
+releaseSourceRegistry.register('github', ({ repository }) => new GitHubReleaseSource(repository));
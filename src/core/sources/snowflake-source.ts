@@ -0,0 +1,42 @@
+import { ReleaseInfo, ReleaseSourceQuery } from '../../types';
+import { logger } from '../../utils/logger';
+import { fetchReleasesFromSnowflake } from '../snowflake-releases';
+import { BaseReleaseSource } from './base-source';
+
+/**
+ * Release source backed by the Snowflake release table
+ */
+export class SnowflakeReleaseSource extends BaseReleaseSource {
+  readonly name = 'snowflake';
+
+  readonly label = 'Snowflake';
+
+  // Each chunk is a bounded SQL query, so long windows never scan the table at once
+  readonly fetchesInChunks = true;
+
+  constructor(private readonly config: any) {
+    super();
+  }
+
+  isConfigured(): boolean {
+    return !!this.config?.snowflake;
+  }
+
+  protected async fetchFromProvider(query: ReleaseSourceQuery): Promise<ReleaseInfo[]> {
+    if (!this.isConfigured()) {
+      throw new Error('No Snowflake configuration found');
+    }
+
+    // A single-organization table needs no owner filter, so it is only applied for multi-org digests
+    const multiOrg = (this.config.orgNames?.length ?? 1) > 1;
+
+    logger.info(`Using Snowflake to fetch releases for ${query.orgName}...`);
+    const releases = await fetchReleasesFromSnowflake(
+      { ...this.config, repositories: query.repositories, repositoryFilter: query.repositoryFilter },
+      query.startDate,
+      query.endDate,
+      multiOrg ? query.orgName : undefined
+    );
+    return this.withOrganization(releases, query.orgName);
+  }
+}
@@ -0,0 +1,202 @@
+import { readFileSync } from 'fs';
+import { ReleaseInfo, TeamDefinition, TeamsFile } from '../types';
+import { validateSlackWebhookUrl } from '../utils/config';
+import { logger } from '../utils/logger';
+import { Repository } from './repository';
+import { globToRegExp } from './repository-filter';
+
+/**
+ * Team permissions that count as owning a repository when ownership comes from GitHub teams
+ */
+const OWNER_PERMISSIONS = ['ADMIN', 'MAINTAIN'];
+
+/**
+ * Loads repository-to-team ownership from a config file, CODEOWNERS or GitHub team permissions
+ */
+export class TeamOwnership {
+  constructor(private readonly repository?: Repository) {}
+
+  /**
+   * Load team definitions from the configured ownership source
+   * Webhooks from TEAM_WEBHOOKS are merged into the loaded teams by team name
+   * @param config - Application configuration (teamOwnershipSource, teamsFile, teamWebhooks, orgNames)
+   * @param releases - Releases of the digest; CODEOWNERS is only read for their repositories
+   * @returns Promise<TeamDefinition[]> - Teams and the repositories they own
+   */
+  async loadTeams(config: any, releases: ReleaseInfo[]): Promise<TeamDefinition[]> {
+    let teams: TeamDefinition[];
+
+    switch (config.teamOwnershipSource) {
+      case 'file':
+        teams = this.loadFromFile(config.teamsFile);
+        break;
+      case 'codeowners':
+        teams = await this.loadFromCodeowners(releases);
+        break;
+      case 'github': {
+        const orgNames: string[] = config.orgNames && config.orgNames.length > 0 ? config.orgNames : [config.orgName];
+        teams = await this.loadFromGitHubTeams(orgNames);
+        break;
+      }
+      default:
+        return [];
+    }
+
+    const webhooks: Record<string, string> = config.teamWebhooks ?? {};
+    for (const team of teams) {
+      if (webhooks[team.name]) {
+        team.webhookUrl = webhooks[team.name];
+      }
+    }
+
+    logger.info(`👥 Loaded ${teams.length} teams from ${config.teamOwnershipSource} ownership`);
+    return teams;
+  }
+
+  /**
+   * Read team definitions from a JSON file ({ "teams": [{ "name", "repositories", "webhookUrl" }] })
+   * Webhook URLs are validated like TEAM_WEBHOOKS entries
+   */
+  private loadFromFile(path: string): TeamDefinition[] {
+    if (!path) {
+      throw new Error('TEAMS_FILE is required when TEAM_OWNERSHIP_SOURCE is file');
+    }
+
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as TeamsFile;
+    if (!Array.isArray(data.teams)) {
+      throw new Error(`Invalid teams file ${path}: expected a "teams" array`);
+    }
+
+    return data.teams.map((team, index) => {
+      if (!team.name || !Array.isArray(team.repositories)) {
+        throw new Error(`Invalid teams file ${path}: team at index ${index} needs a name and a repositories array`);
+      }
+      if (team.webhookUrl !== undefined) {
+        try {
+          validateSlackWebhookUrl(team.webhookUrl);
+        } catch (error) {
+          throw new Error(`Invalid teams file ${path}: team ${team.name} has an invalid webhookUrl. ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      return { name: team.name, repositories: team.repositories, webhookUrl: team.webhookUrl };
+    });
+  }
+
+  /**
+   * Build team definitions from the repository-wide owners in each released repository's CODEOWNERS
+   */
+  private async loadFromCodeowners(releases: ReleaseInfo[]): Promise<TeamDefinition[]> {
+    const repository = this.requireRepository();
+    const teams = new Map<string, TeamDefinition>();
+    const repositories = new Map<string, string>();
+
+    for (const release of releases) {
+      if (release.organization) {
+        repositories.set(release.repository, release.organization);
+      }
+    }
+
+    for (const [fullName, orgName] of repositories) {
+      const repoName = fullName.slice(fullName.indexOf('/') + 1);
+      const codeowners = await repository.fetchCodeowners(orgName, repoName);
+      if (!codeowners) {
+        logger.info(`No CODEOWNERS file in ${fullName}`);
+        continue;
+      }
+
+      for (const teamName of parseCodeownersTeams(codeowners, orgName)) {
+        addTeamRepository(teams, teamName, fullName);
+      }
+    }
+
+    return Array.from(teams.values());
+  }
+
+  /**
+   * Build team definitions from teams holding admin or maintain permission on repositories
+   */
+  private async loadFromGitHubTeams(orgNames: string[]): Promise<TeamDefinition[]> {
+    const repository = this.requireRepository();
+    const teams = new Map<string, TeamDefinition>();
+
+    for (const orgName of orgNames) {
+      for (const team of await repository.fetchTeamRepositories(orgName)) {
+        for (const repo of team.repositories) {
+          if (OWNER_PERMISSIONS.includes(repo.permission)) {
+            addTeamRepository(teams, team.slug, `${orgName}/${repo.name}`);
+          }
+        }
+      }
+    }
+
+    return Array.from(teams.values());
+  }
+
+  private requireRepository(): Repository {
+    if (!this.repository) {
+      throw new Error('A GitHub repository client is required for CODEOWNERS and GitHub team ownership');
+    }
+    return this.repository;
+  }
+}
+
+/**
+ * Add a repository to a team, creating the team definition on first use
+ */
+function addTeamRepository(teams: Map<string, TeamDefinition>, teamName: string, repository: string): void {
+  if (!teams.has(teamName)) {
+    teams.set(teamName, { name: teamName, repositories: [] });
+  }
+  const team = teams.get(teamName)!;
+  if (!team.repositories.includes(repository)) {
+    team.repositories.push(repository);
+  }
+}
+
+/**
+ * Extract the teams owning a whole repository from CODEOWNERS content
+ * Uses the last catch-all rule (`*`, `/` or `/*`), since later rules take precedence,
+ * and keeps only team owners of the organization (@org/team-slug)
+ * @returns string[] - Team slugs
+ */
+export function parseCodeownersTeams(codeowners: string, orgName: string): string[] {
+  let owners: string[] = [];
+
+  for (const rawLine of codeowners.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const [pattern, ...lineOwners] = line.split(/\s+/);
+    if (pattern === '*' || pattern === '/' || pattern === '/*' || pattern === '**') {
+      owners = lineOwners;
+    }
+  }
+
+  const prefix = `@${orgName.toLowerCase()}/`;
+  return owners
+    .filter(owner => owner.toLowerCase().startsWith(prefix))
+    .map(owner => owner.slice(prefix.length));
+}
+
+/**
+ * Find the teams owning a release's repository
+ * Team entries may be bare repository names, org/repo names or glob patterns of either form
+ */
+export function teamsForRelease(release: ReleaseInfo, teams: TeamDefinition[]): string[] {
+  const fullName = release.repository;
+  const bareName = fullName.includes('/') ? fullName.slice(fullName.indexOf('/') + 1) : fullName;
+
+  return teams
+    .filter(team => team.repositories.some(entry => {
+      const matcher = globToRegExp(entry);
+      return entry.includes('/') ? matcher.test(fullName) : matcher.test(bareName);
+    }))
+    .map(team => team.name);
+}
+
+/**
+ * Annotate releases with their owning teams
+ */
+export function assignTeams(releases: ReleaseInfo[], teams: TeamDefinition[]): ReleaseInfo[] {
+  return releases.map(release => ({ ...release, teams: teamsForRelease(release, teams) }));
+}
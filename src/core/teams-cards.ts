@@ -0,0 +1,188 @@
+import {
+  AdaptiveCard,
+  AdaptiveCardElement,
+  ReleaseInfo,
+  RepositorySummaries,
+  RepositorySummary,
+  SummaryConfig,
+  TeamsMessage
+} from '../types';
+import { logger } from '../utils/logger';
+import {
+  extractVersionFromName,
+  formatDateForTable,
+  getDateRangeText,
+  getOrganizations,
+  groupReleasesByRepository,
+  groupReleasesByTeam,
+  summariesByLabel,
+  validateReleases
+} from './format';
+
+const ADAPTIVE_CARD_SCHEMA = 'http://adaptivecards.io/schemas/adaptive-card.json';
+
+/**
+ * Adaptive Card version supported by Teams that includes the Table element
+ */
+const ADAPTIVE_CARD_VERSION = '1.5';
+
+/**
+ * Format releases as a Teams message carrying one Adaptive Card:
+ * a stats fact set, a table of releases with linked versions and,
+ * when descriptions are included, a collapsible AI summary per repository
+ */
+export async function formatReleaseCard(
+  releases: ReleaseInfo[],
+  config: SummaryConfig,
+  summaries?: RepositorySummaries
+): Promise<TeamsMessage> {
+  try {
+    validateReleases(releases);
+    logger.info(`Formatting Adaptive Card for ${releases.length} releases`);
+
+    const dateRange = getDateRangeText(config);
+    const body: AdaptiveCardElement[] = [
+      {
+        type: 'TextBlock',
+        text: `📊 Release Summary - ${dateRange}${config.team ? ` - ${config.team}` : ''}`,
+        weight: 'Bolder',
+        size: 'Large',
+        wrap: true
+      }
+    ];
+    if (config.dataSource) {
+      body.push({ type: 'TextBlock', text: `Source: ${config.dataSource}`, isSubtle: true, spacing: 'None', wrap: true });
+    }
+
+    if (releases.length === 0) {
+      body.push({ type: 'TextBlock', text: `No releases found for ${dateRange}`, wrap: true });
+    } else {
+      body.push(createFactSet(releases, config));
+      body.push(createReleaseTable(releases, !config.team));
+
+      if (config.includeDescriptions) {
+        body.push(...createSummaryToggles(summariesByLabel(releases, summaries)));
+      }
+    }
+
+    const card: AdaptiveCard = {
+      type: 'AdaptiveCard',
+      $schema: ADAPTIVE_CARD_SCHEMA,
+      version: ADAPTIVE_CARD_VERSION,
+      body,
+      msteams: { width: 'Full' }
+    };
+
+    return {
+      type: 'message',
+      attachments: [{ contentType: 'application/vnd.microsoft.card.adaptive', contentUrl: null, content: card }]
+    };
+  } catch (error) {
+    logger.error(`Error formatting Adaptive Card release message: ${error}`);
+    throw new Error(`Failed to format Adaptive Card release message: ${error}`);
+  }
+}
+
+/**
+ * Release statistics as a fact set
+ */
+function createFactSet(releases: ReleaseInfo[], config: SummaryConfig): AdaptiveCardElement {
+  const organizations = getOrganizations(releases);
+  const facts = [
+    { title: 'Releases', value: String(releases.length) },
+    { title: 'Stable', value: String(releases.filter(r => !r.isPrerelease).length) },
+    { title: 'Pre-release', value: String(releases.filter(r => r.isPrerelease).length) },
+    { title: 'Repositories', value: String(new Set(releases.map(r => r.repository)).size) }
+  ];
+  if (organizations.length > 1) {
+    facts.push({ title: 'Organizations', value: organizations.join(', ') });
+  }
+  if (config.team) {
+    facts.push({ title: 'Team', value: config.team });
+  }
+  return { type: 'FactSet', facts };
+}
+
+/**
+ * Table of releases (repository, linked version, published at),
+ * with a row per team heading its releases when releases carry owning teams
+ */
+function createReleaseTable(releases: ReleaseInfo[], groupByTeam: boolean): AdaptiveCardElement {
+  const releasesByRepo = groupReleasesByRepository(releases);
+  const rows: AdaptiveCardElement[] = [
+    tableRow(['Repository', 'Version', 'Published At'])
+  ];
+
+  const addRows = (rowsByRepo: Map<string, ReleaseInfo[]>) => {
+    for (const [repoName, repoReleases] of rowsByRepo) {
+      for (const release of repoReleases) {
+        const version = extractVersionFromName(release.name);
+        const versionText = release.url ? `[${version}](${release.url})` : version;
+        rows.push(tableRow([
+          repoName,
+          release.isPrerelease ? `${versionText} (pre-release)` : versionText,
+          formatDateForTable(release.publishedAt)
+        ]));
+      }
+    }
+  };
+
+  if (groupByTeam && releases.some(release => release.teams && release.teams.length > 0)) {
+    for (const [team, teamReleases] of groupReleasesByTeam(releases)) {
+      rows.push(tableRow([`**${team}**`, '', '']));
+      const teamRows = new Map<string, ReleaseInfo[]>();
+      for (const [repoName, repoReleases] of releasesByRepo) {
+        const owned = repoReleases.filter(release => teamReleases.includes(release));
+        if (owned.length > 0) {
+          teamRows.set(repoName, owned);
+        }
+      }
+      addRows(teamRows);
+    }
+  } else {
+    addRows(releasesByRepo);
+  }
+
+  return {
+    type: 'Table',
+    gridStyle: 'accent',
+    firstRowAsHeaders: true,
+    columns: [{ width: 3 }, { width: 2 }, { width: 2 }],
+    rows
+  };
+}
+
+function tableRow(cells: string[]): AdaptiveCardElement {
+  return {
+    type: 'TableRow',
+    cells: cells.map(text => ({ type: 'TableCell', items: [{ type: 'TextBlock', text, wrap: true }] }))
+  };
+}
+
+/**
+ * One collapsible section per repository: a heading that toggles its hidden summary
+ */
+function createSummaryToggles(summaries: Map<string, RepositorySummary>): AdaptiveCardElement[] {
+  const elements: AdaptiveCardElement[] = [];
+  let index = 0;
+
+  for (const [repoName, summary] of summaries) {
+    const id = `summary-${index++}`;
+    elements.push(
+      {
+        type: 'Container',
+        separator: true,
+        selectAction: { type: 'Action.ToggleVisibility', title: 'Show summary', targetElements: [id] },
+        items: [{ type: 'TextBlock', text: `▸ **${repoName}** summary`, wrap: true }]
+      },
+      {
+        type: 'Container',
+        id,
+        isVisible: false,
+        items: [{ type: 'TextBlock', text: summary.text, wrap: true, isSubtle: !summary.generated }]
+      }
+    );
+  }
+
+  return elements;
+}
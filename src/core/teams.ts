@@ -0,0 +1,41 @@
+import { RetryConfig, TeamsMessage } from '../types';
+import { TeamsClient } from '../clients/teams-client';
+import { logger } from '../utils/logger';
+import { DeliveryLedger, webhookTarget } from './delivery-ledger';
+
+/**
+ * Microsoft Teams integration module for posting GitHub release summaries
+ *
+ * This module handles:
+ * - Delivery ledger checks so reruns do not post the same card twice
+ * - Posting Adaptive Cards through TeamsClient (with retry)
+ */
+
+/**
+ * Posts a digest card to a Teams incoming webhook or Workflows URL, unless the ledger records it as delivered
+ *
+ * @param message - Teams message carrying the digest Adaptive Card
+ * @param webhookUrl - Teams incoming webhook or Workflows URL
+ * @param retryConfig - Attempts and backoff for failed posts
+ * @param ledger - Delivery ledger consulted before and updated after posting
+ * @param key - Ledger key of the digest for this webhook (see deliveryKey)
+ * @throws {Error} When every attempt to post fails
+ */
+export async function deliverToTeams(
+  message: TeamsMessage,
+  webhookUrl: string,
+  retryConfig: RetryConfig,
+  ledger: DeliveryLedger,
+  key: string
+): Promise<void> {
+  const target = webhookTarget(webhookUrl);
+  const [pending] = await ledger.pendingMessages(key, target, [message]);
+
+  if (!pending) {
+    logger.info(`Digest ${key} was already delivered to Teams, skipping (use --force to post it again)`);
+    return;
+  }
+
+  await new TeamsClient(webhookUrl, retryConfig).postMessage(message);
+  await ledger.markDelivered(key, target, pending);
+}
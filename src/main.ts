@@ -1,10 +1,22 @@
 import { config as dotenvConfig } from 'dotenv';
+import { writeFileSync } from 'fs';
 import { setFailed } from '@actions/core';
 import { Release } from './core/release';
-import { postToSlack } from './core/slack';
-import { formatReleaseMessage, generateTimeframeText } from './core/format';
+import { Repository } from './core/repository';
+import { TeamOwnership, assignTeams } from './core/team-ownership';
+import { GitHubAppTokenProvider } from './clients/github-app-auth';
+import { DeliveryLedger, JsonFileLedgerBackend } from './core/delivery-ledger';
+import { deliverToNotifiers, notifierRegistry } from './core/notifiers';
+import { formatPreviewText, renderPreviews } from './core/dry-run';
+import { formatPreviewHtml } from './core/preview-html';
+import { createDigestExport, createReleaseSummaryStats, formatDigestExport } from './core/digest-export';
+import { generateTimeframeText, getDateRangeText, summarizeRepositories } from './core/format';
+import { getBuiltinTemplates, loadMessageTemplates } from './core/message-templates';
+import { configureSummarizer, configureSummaryCache } from './AI/summarizer';
+import { JsonFileSummaryCacheBackend, SummaryCache } from './AI/summary-cache';
 import { logger } from './utils/logger';
 import { getConfig } from './utils/config';
+import { Digest, SummaryConfig, TeamDefinition } from './types';
 import { setupProcessHandlers } from './utils/process-handlers';
 import { processCli } from './utils/cli';
 
@@ -16,6 +28,7 @@ setupProcessHandlers();
  * Main entry point for the GitHub Release Summary Service
  */
 async function main(): Promise<void> {
+  let summaryCache: SummaryCache | null = null;
   try {
     // Process CLI arguments - exit early if help was shown
     if (!processCli()) {
@@ -25,27 +38,100 @@ async function main(): Promise<void> {
     const config = getConfig();
 
     // Validate critical configuration
-    if (!config.githubToken || !config.slackWebhookUrl || !config.orgName) {
-      throw new Error('Missing required configuration: githubToken, slackWebhookUrl, or orgName');
+    const slackMissing = config.notifiers.includes('slack') && !config.dryRun && !config.slackWebhookUrl && !config.slackBotToken;
+    if ((!config.githubToken && !config.githubApp) || slackMissing || !config.orgName) {
+      throw new Error('Missing required configuration: githubToken or githubApp, slackWebhookUrl or slackBotToken, or orgName');
     }
 
+    // Resolve the AI provider chain and load the message templates before fetching anything,
+    // so an unknown provider or a broken template fails fast
+    configureSummarizer(config.aiProviders, config.aiRepositoryProviders);
+    if (config.summaryCache) {
+      const { file, ttlDays, maxEntries } = config.summaryCache;
+      summaryCache = new SummaryCache(new JsonFileSummaryCacheBackend(file), ttlDays, maxEntries);
+    }
+    configureSummaryCache(summaryCache);
+    const templates = config.messageTemplatesDir ? loadMessageTemplates(config.messageTemplatesDir) : getBuiltinTemplates();
+
     // Set log file name using timeframe as prefix
     const timeframeText = generateTimeframeText(config.timeframe);
     logger.updateContext(timeframeText);
 
     // Step 1: Get all release data
-    const release = new Release(config.githubToken);
-    const releases = await release.getReleases(config);
+    const githubAuth = config.githubApp
+      ? new GitHubAppTokenProvider(config.githubApp, config.githubApiUrl, config.githubToken)
+      : config.githubToken!;
+    const release = new Release(githubAuth, undefined, config.githubApiUrl);
+
+    // GitHub Enterprise Server may lack fields the GraphQL queries use
+    if (config.githubApiUrl) {
+      await release.validateGitHubSchema();
+    }
+    let releases = await release.getReleases(config);
 
-    // Step 2: Format releases into separate Slack messages
-    const slackMessages = await formatReleaseMessage(releases, {
+    // Annotate releases with their owning teams when team ownership is configured
+    let teams: TeamDefinition[] = [];
+    if (config.teamOwnershipSource) {
+      const teamOwnership = new TeamOwnership(new Repository(githubAuth, config.githubApiUrl));
+      teams = await teamOwnership.loadTeams(config, releases);
+      releases = assignTeams(releases, teams);
+    }
+
+    const summaryConfig: SummaryConfig = {
       timeframe: config.timeframe,
-      includeDescriptions: config.includeDescriptions
-    }, config.repositories);
+      includeDescriptions: config.includeDescriptions,
+      dataSource: release.getLastSourceLabel(),
+      templates,
+      dateRange: release.getLastDateRange()
+    };
+
+    // Summarize each repository once; the export and every notifier, team slice and preview reuse the summaries
+    const summaries = config.includeDescriptions && releases.length > 0 ? await summarizeRepositories(releases) : undefined;
+    const digest: Digest = { releases, summaryConfig, summaries };
+
+    // Export the digest for other tools before delivering it, so a failed delivery still leaves the export
+    if (config.exportFormat && config.exportFile) {
+      const dateRange = summaryConfig.dateRange!;
+      const explicitRepositories = config.repositories?.some(repo => /[*?!]/.test(repo)) ? undefined : config.repositories;
+      const stats = createReleaseSummaryStats(releases, dateRange, explicitRepositories?.length);
+      const digestExport = await createDigestExport(releases, summaryConfig, stats, summaries);
+      writeFileSync(config.exportFile, formatDigestExport(digestExport, config.exportFormat), 'utf-8');
+      logger.info(`Digest exported as ${config.exportFormat} to ${config.exportFile}`);
+    }
+
+    // Step 2: Deliver the digest through each enabled notifier
+    // The delivery ledger keeps reruns from posting a digest that was already delivered.
+    // Notifiers fail independently; every failure is reported once all of them ran.
+    const ledger = new DeliveryLedger(new JsonFileLedgerBackend(config.deliveryLedgerFile), config.forceDelivery);
+    const notifiers = config.notifiers.map(name => notifierRegistry.create(name, { config, ledger, teams }));
+
+    // A dry run renders every notifier's messages instead of delivering them
+    if (config.dryRun) {
+      const previews = await renderPreviews(notifiers, digest);
+      const output = config.previewFormat === 'html'
+        ? formatPreviewHtml(previews, getDateRangeText(summaryConfig))
+        : formatPreviewText(previews);
+
+      if (config.previewFile) {
+        writeFileSync(config.previewFile, output, 'utf-8');
+        logger.info(`Dry run: preview written to ${config.previewFile}`);
+      } else {
+        process.stdout.write(output);
+      }
+
+      const failed = previews.filter(preview => preview.error);
+      if (failed.length > 0) {
+        throw new Error(`Rendering failed for ${failed.length} notifier(s): ${failed.map(preview => `${preview.label}: ${preview.error}`).join('; ')}`);
+      }
+      logger.info('Dry run completed, nothing was delivered');
+      return;
+    }
+
+    const failures = await deliverToNotifiers(notifiers, digest);
 
-    // Step 3: Send each formatted message to Slack
-    for (const message of slackMessages) {
-      await postToSlack(message, config.slackWebhookUrl);
+    if (failures.length > 0) {
+      const details = failures.map(failure => `${failure.notifier}: ${failure.error}`).join('; ');
+      throw new Error(`Delivery failed for ${failures.length} notifier(s): ${details}`);
     }
 
     logger.info('Release summary service completed successfully');
@@ -58,6 +144,9 @@ async function main(): Promise<void> {
       logger.error(`Stack trace: ${errorStack}`);
     }
     setFailed(`Release summary service failed: ${errorMessage}`);
+  } finally {
+    // Cache hit/miss stats of every summary made in this run
+    summaryCache?.logStats();
   }
 }
 
@@ -0,0 +1,99 @@
+import { logger } from './utils/logger';
+import { buildSiteData, loadDigestExports, renderSite, writeSite } from './core/site-generator';
+import { setupProcessHandlers } from './utils/process-handlers';
+
+/**
+ * Options of the dashboard site command
+ */
+export interface SiteOptions {
+  input: string; // Directory of JSON digest exports
+  output: string; // Directory the site is written to
+  title: string;
+  showHelp?: boolean;
+}
+
+const DEFAULT_SITE_OPTIONS: SiteOptions = {
+  input: 'digests',
+  output: 'site',
+  title: 'Release Dashboard'
+};
+
+/**
+ * Parse the dashboard site command arguments
+ * @throws {Error} If an argument is unknown or misses its value
+ */
+export function parseSiteArguments(args: string[]): SiteOptions {
+  const options: SiteOptions = { ...DEFAULT_SITE_OPTIONS };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const nextArg = args[i + 1];
+
+    if (arg === '--help' || arg === '-h') {
+      options.showHelp = true;
+      return options;
+    }
+
+    if ((arg === '--input' || arg === '--output' || arg === '--title') && !nextArg) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+
+    if (arg === '--input') {
+      options.input = nextArg.trim();
+      i++; // Skip the next argument
+    } else if (arg === '--output') {
+      options.output = nextArg.trim();
+      i++; // Skip the next argument
+    } else if (arg === '--title') {
+      options.title = nextArg.trim();
+      i++; // Skip the next argument
+    } else {
+      throw new Error(`Unknown argument: ${arg}. Use --help for usage information.`);
+    }
+  }
+
+  return options;
+}
+
+function displaySiteHelp(): void {
+  logger.info(`
+Release Dashboard Site Generator
+
+Builds a static site from the JSON digest exports (--output json) stored in a directory:
+an index of releases by week with search, and a page per repository with its release
+timeline and AI summaries.
+
+Usage:
+  npm run site                                  # Read ./digests, write ./site
+  npm run site -- --input digests --output site # Input and output directories
+  npm run site -- --title "Acme Releases"       # Site title
+  npm run site -- --help                        # Show this help
+`);
+}
+
+/**
+ * Entry point of the dashboard site command
+ */
+async function site(): Promise<void> {
+  try {
+    const options = parseSiteArguments(process.argv.slice(2));
+    if (options.showHelp) {
+      displaySiteHelp();
+      return;
+    }
+
+    const data = buildSiteData(loadDigestExports(options.input));
+    writeSite(options.output, renderSite(data, options.title));
+    logger.info(`Dashboard site generated in ${options.output}: ${data.releases.length} releases across ${data.repositories.length} repositories`);
+  } catch (error) {
+    logger.error(`Dashboard site generation failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  setupProcessHandlers();
+  site();
+}
+
+export { site };
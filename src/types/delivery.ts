@@ -0,0 +1,17 @@
+/**
+ * Messages of a digest delivered to one target, recorded in the delivery ledger
+ */
+export interface DeliveryRecord {
+  target: string; // Channel ID or hashed webhook URL
+  messageHashes: string[]; // Content hash of each delivered message, in delivery order
+  deliveredAt: string;
+}
+
+/**
+ * Storage behind the delivery ledger
+ * Implementations persist records by key; the JSON file backend is used by default
+ */
+export interface DeliveryLedgerBackend {
+  get(key: string): Promise<DeliveryRecord | undefined>;
+  set(key: string, record: DeliveryRecord): Promise<void>;
+}
@@ -0,0 +1,27 @@
+/**
+ * Discord embed; see https://discord.com/developers/docs/resources/message#embed-object
+ */
+export interface DiscordEmbed {
+  title?: string;
+  url?: string;
+  description?: string;
+  color?: number;
+  fields?: DiscordEmbedField[];
+  footer?: { text: string };
+  timestamp?: string;
+}
+
+export interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+/**
+ * Message posted to a Discord webhook
+ */
+export interface DiscordMessage {
+  content?: string;
+  username?: string;
+  embeds: DiscordEmbed[];
+}
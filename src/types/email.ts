@@ -0,0 +1,29 @@
+/**
+ * SMTP server connection settings
+ */
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean; // true for implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Email digest delivery settings
+ */
+export interface EmailSettings {
+  smtp: SmtpSettings;
+  from: string;
+  recipients: string[]; // Each recipient receives a separate copy of the digest
+  subjectTemplate: string; // Subject with {placeholder} fields, see EMAIL_SUBJECT_PLACEHOLDERS
+}
+
+/**
+ * Rendered email digest with HTML and plain-text alternatives
+ */
+export interface EmailMessage {
+  subject: string;
+  html: string;
+  text: string;
+}
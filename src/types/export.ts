@@ -0,0 +1,28 @@
+import type { ReleaseSummaryStats } from './release';
+import type { DigestDocumentRepository } from './webhook';
+
+/**
+ * File formats the digest can be exported as
+ */
+export type ExportFormat = 'json' | 'csv' | 'md';
+
+/**
+ * Team entry of the digest export, listing the repositories whose releases the team owns
+ */
+export interface DigestExportTeam {
+  name: string;
+  repositories: string[];
+}
+
+/**
+ * Machine-readable export of a digest, written by --output for other tools and workflow artifacts
+ */
+export interface DigestExport {
+  generatedAt: string;
+  dateRange: string; // Date range as shown in the digest header
+  organizations: string[];
+  dataSource?: string;
+  stats: ReleaseSummaryStats;
+  teams?: DigestExportTeam[]; // Present when team ownership is configured
+  repositories: DigestDocumentRepository[];
+}
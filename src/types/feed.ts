@@ -0,0 +1,38 @@
+/**
+ * Feed formats the release feed can be written in
+ */
+export type FeedFormat = 'atom' | 'rss';
+
+/**
+ * Release feed settings (required when the feed notifier is enabled)
+ */
+export interface FeedSettings {
+  file: string; // Atom feed file, merged with its previous entries on every run
+  rssFile?: string; // Optional: RSS 2.0 feed file written alongside the Atom feed
+  maxEntries: number; // Newest entries kept in each feed
+  title?: string; // Optional: feed title (default: the organizations' releases)
+  link?: string; // Optional: page the feed describes (default: the first organization on GitHub)
+}
+
+/**
+ * Feed-level metadata shared by the Atom and RSS output
+ */
+export interface FeedMetadata {
+  id: string;
+  title: string;
+  link: string;
+  updated: string; // ISO timestamp of the run that wrote the feed
+}
+
+/**
+ * One feed entry per release
+ */
+export interface FeedEntry {
+  id: string; // Release URL, stable across runs so merged feeds keep one entry per release
+  title: string; // Repository and tag
+  link: string;
+  published: string; // ISO timestamp
+  author: string;
+  summary?: string; // Repository's AI summary, when descriptions are included
+  categories: string[]; // Repository, owning teams and pre-release marker
+}
@@ -1,13 +1,18 @@
+/**
+ * GitHub GraphQL API cursor pagination info
+ */
+export interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
 /**
  * GitHub GraphQL API response structure for organization queries
  */
 export interface OrganizationResponse {
   organization: {
     repositories: {
-      pageInfo: {
-        hasNextPage: boolean;
-        endCursor: string | null;
-      };
+      pageInfo: PageInfo;
       nodes: GitHubRepository[];
     };
   };
@@ -22,15 +27,51 @@ export interface SingleRepositoryResponse {
   };
 }
 
+/**
+ * GitHub GraphQL API response structure for a page of a repository's releases
+ */
+export interface RepositoryReleasesResponse {
+  organization: {
+    repository: {
+      releases: GitHubReleaseConnection;
+    } | null;
+  };
+}
+
 /**
  * GitHub repository structure from GraphQL API
  */
 export interface GitHubRepository {
   name: string;
   updatedAt: string;
-  releases: {
-    nodes: GitHubRelease[];
+  isArchived?: boolean;
+  isFork?: boolean;
+  repositoryTopics?: {
+    nodes: Array<{ topic: { name: string } }>;
   };
+  releases: GitHubReleaseConnection;
+}
+
+/**
+ * GitHub GraphQL API response structure for a repository's custom property values
+ */
+export interface RepositoryPropertiesResponse {
+  organization: {
+    repository: {
+      repositoryCustomPropertyValues: {
+        nodes: Array<{ propertyName: string; value: string | string[] | null }>;
+      };
+    } | null;
+  };
+}
+
+/**
+ * Page of releases attached to a repository
+ * pageInfo is present when the query requested it and is used to page past the first batch
+ */
+export interface GitHubReleaseConnection {
+  pageInfo?: PageInfo;
+  nodes: GitHubRelease[];
 }
 
 /**
@@ -49,7 +90,7 @@ export interface GitHubRelease {
 }
 
 /**
- * Configuration for GitHub API retry mechanism
+ * Configuration for retry mechanisms (GitHub API requests, notifier deliveries)
  */
 export interface RetryConfig {
   maxRetries: number;
@@ -88,6 +129,7 @@ export interface PaginationStats {
   pageCount: number;
   earlyStopEnabled: boolean;
   repositoriesScanned: number;
+  releasePagesByRepository: Record<string, number>; // Release pages fetched per repository
 }
 
 /**
@@ -97,3 +139,64 @@ export interface EarlyStopConfig {
   cutoffDays: number;
   enabled: boolean;
 }
+
+/**
+ * GitHub GraphQL API response structure for a page of organization teams and their repositories
+ */
+export interface OrganizationTeamsResponse {
+  organization: {
+    teams: {
+      pageInfo: PageInfo;
+      nodes: Array<{
+        slug: string;
+        repositories: {
+          pageInfo: PageInfo;
+          edges: Array<{ permission: string; node: { name: string } }>;
+        };
+      }>;
+    };
+  } | null;
+}
+
+/**
+ * GitHub GraphQL API response structure for a repository's CODEOWNERS files
+ * Each alias holds the blob at one of the locations GitHub reads CODEOWNERS from
+ */
+export interface RepositoryCodeownersResponse {
+  organization: {
+    repository: {
+      github: { text: string | null } | null;
+      root: { text: string | null } | null;
+      docs: { text: string | null } | null;
+    } | null;
+  };
+}
+
+/**
+ * GitHub App credentials used to mint installation access tokens
+ */
+export interface GitHubAppCredentials {
+  appId: string;
+  privateKey: string; // PEM-encoded RSA private key
+  installationId: string;
+}
+
+/**
+ * Installation access token together with its expiry
+ */
+export interface InstallationToken {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Supplies a GitHub token for each API request, allowing short-lived tokens to be refreshed
+ */
+export interface GitHubTokenProvider {
+  getToken(): Promise<string>;
+}
+
+/**
+ * GitHub authentication accepted by the API clients: a static token (PAT) or a token provider
+ */
+export type GitHubAuth = string | GitHubTokenProvider;
@@ -5,9 +5,36 @@
 // Core release types
 export * from './release';
 
+// Release data source types
+export * from './source';
+
+// AI summary provider types
+export * from './summary';
+
+// Team ownership types
+export * from './team';
+
+// Message template types
+export * from './template';
+
 // Slack integration types
 export * from './slack';
 
+// Delivery ledger types
+export * from './delivery';
+
+// Notifier types (notifier interface, Microsoft Teams, email, Discord, JSON webhook and release feed)
+export * from './notifier';
+export * from './teams';
+export * from './email';
+export * from './discord';
+export * from './webhook';
+export * from './feed';
+
+// Digest export and dashboard site types
+export * from './export';
+export * from './site';
+
 // GitHub API types (includes service config types)
 export * from './github';
 export * from './snowflake';
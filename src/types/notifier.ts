@@ -0,0 +1,57 @@
+import type { ReleaseInfo, RepositorySummaries, SummaryConfig } from './release';
+
+/**
+ * Destinations a digest can be delivered to; each is enabled independently through NOTIFIERS
+ */
+export type NotifierName = 'slack' | 'teams' | 'email' | 'discord' | 'webhook' | 'feed';
+
+/**
+ * Releases, formatting settings and repository summaries of one digest, handed to every notifier
+ */
+export interface Digest {
+  releases: ReleaseInfo[];
+  summaryConfig: SummaryConfig;
+  summaries?: RepositorySummaries; // Set when descriptions are included; notifiers only read it
+}
+
+/**
+ * Message as a notifier would send it, without sending it
+ */
+export interface RenderedMessage {
+  target: string; // Destination within the notifier (channel, team webhook, recipients, ...)
+  content: string | object; // Text, or the payload posted (Block Kit message, Adaptive Card, email, ...)
+}
+
+/**
+ * Delivers a digest to one kind of destination (Slack, Teams, email, ...)
+ * Each notifier formats the digest itself and handles its own retries and delivery ledger records
+ */
+export interface Notifier {
+  readonly name: NotifierName;
+  readonly label: string; // Human readable name used in logs and failure reports
+  render(digest: Digest): Promise<RenderedMessage[]>; // Format without delivering (dry run)
+  deliver(digest: Digest): Promise<void>;
+}
+
+/**
+ * Rendered messages of one notifier in a dry run; error is set when rendering failed
+ */
+export interface NotifierPreview {
+  notifier: NotifierName;
+  label: string;
+  messages: RenderedMessage[];
+  error?: string;
+}
+
+/**
+ * Dry-run output: plain text listing of the rendered messages, or an HTML page mimicking Slack
+ */
+export type PreviewFormat = 'text' | 'html';
+
+/**
+ * Failure of one notifier during fan-out
+ */
+export interface NotifierFailure {
+  notifier: string;
+  error: string;
+}
@@ -1,8 +1,11 @@
+import type { MessageTemplates } from './template';
+
 /**
  * Information about a GitHub release
  */
 export interface ReleaseInfo {
-  repository: string;        // Added during processing
+  repository: string;        // Added during processing (org/repo)
+  organization?: string;     // Added during processing (owning organization)
   tagName: string;          // From GraphQL
   name: string;             // From GraphQL (name || tagName)
   publishedAt: string;      // From GraphQL
@@ -10,8 +13,14 @@ export interface ReleaseInfo {
   url: string;              // From GraphQL
   author: string;           // From GraphQL (author.login)
   isPrerelease: boolean;    // From GraphQL
+  teams?: string[];          // Added when team ownership is configured (owning teams)
 }
 
+/**
+ * Order in which data sources are tried when fetching releases
+ */
+export type DataSourceOrder = 'snowflake-first' | 'github-first' | 'github-only' | 'snowflake-only';
+
 /**
  * Configuration for release summary formatting
  */
@@ -23,8 +32,26 @@ export interface SummaryConfig {
     endDate?: Date;
   };
   includeDescriptions?: boolean; // If true, include detailed descriptions; if false or undefined, show only summary table
+  dataSource?: string; // Label of the source that produced the releases, shown in the header
+  team?: string; // Set when formatting a single team's slice of the digest
+  threaded?: boolean; // Set when the header is posted as a thread parent and the rest as replies
+  templates?: MessageTemplates; // User message templates, the built-in templates when unset
+  dateRange?: { startDate: Date; endDate: Date }; // Window the releases were fetched for, identifies the digest across runs
 }
 
+/**
+ * Summary of a repository's releases shown in detailed output
+ */
+export interface RepositorySummary {
+  text: string;
+  generated: boolean; // true when produced by AI summarization, false for the generic fallback
+}
+
+/**
+ * Repository summaries of a digest keyed by org/repo name, computed once per run
+ */
+export type RepositorySummaries = Map<string, RepositorySummary>;
+
 /**
  * Release summary statistics
  */
@@ -33,7 +60,7 @@ export interface ReleaseSummaryStats {
   prereleases: number;
   stableReleases: number;
   repositoriesWithReleases: number;
-  totalRepositoriesChecked: number;
+  totalRepositoriesChecked?: number; // Set when the digest was limited to an explicit repository list
   timeRange: {
     from: string;
     to: string;
@@ -0,0 +1,44 @@
+/**
+ * Release shown on the dashboard site, collected from every stored digest export
+ */
+export interface SiteRelease {
+  repository: string; // Key of the repository (org/repo)
+  tagName: string;
+  name: string;
+  version: string;
+  url: string;
+  publishedAt: string;
+  author: string;
+  prerelease: boolean;
+  teams?: string[];
+}
+
+/**
+ * AI summary of a repository in one stored digest
+ */
+export interface SiteSummary {
+  dateRange: string;
+  generatedAt: string;
+  text: string;
+}
+
+/**
+ * Repository page of the dashboard site
+ */
+export interface SiteRepository {
+  key: string; // org/repo, or the bare name when the organization is unknown
+  label: string; // Name shown on the site (bare name when every release comes from one organization)
+  slug: string; // File name of the repository page, without extension
+  organization?: string;
+  releases: SiteRelease[]; // Newest first
+  summaries: SiteSummary[]; // Newest digest first
+}
+
+/**
+ * Everything the dashboard site is rendered from
+ */
+export interface SiteData {
+  releases: SiteRelease[]; // Every release once, newest first
+  repositories: SiteRepository[]; // Ordered by label
+  digestCount: number;
+}
@@ -7,6 +7,48 @@ export interface SlackMessage {
   attachments?: SlackAttachment[];
 }
 
+/**
+ * Slack Web API response (chat.postMessage, chat.update, chat.delete)
+ */
+export interface SlackApiResponse {
+  ok: boolean;
+  error?: string;
+  ts?: string; // Timestamp identifying the posted or updated message
+  channel?: string;
+}
+
+/**
+ * Parent and reply timestamps of a digest posted as a Slack thread
+ */
+export interface SlackThreadRecord {
+  channel: string;
+  parentTs: string;
+  replyTs: string[];
+  updatedAt: string;
+}
+
+/**
+ * Size limits of the messages posted to a Slack destination
+ */
+export interface SlackSizeLimits {
+  maxTextLength: number; // Longest message text, in characters
+  maxBlocks: number; // Most Block Kit blocks in one message
+}
+
+/**
+ * Output format of Slack messages: Block Kit blocks or the plain code-block text
+ */
+export type SlackMessageFormat = 'blocks' | 'text';
+
+/**
+ * Slack text composition object
+ */
+export interface SlackTextObject {
+  type: 'plain_text' | 'mrkdwn';
+  text: string;
+  emoji?: boolean;
+}
+
 /**
  * Slack block element for rich message formatting
  */
@@ -23,10 +65,8 @@ export interface SlackBlockElement {
  */
 export interface SlackBlock {
   type: string;
-  text?: {
-    type: string;
-    text: string;
-  };
+  text?: SlackTextObject;
+  fields?: SlackTextObject[]; // Section fields, rendered in two columns
   elements?: SlackBlockElement[];
 }
 
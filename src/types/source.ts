@@ -0,0 +1,60 @@
+import type { ReleaseInfo } from './release';
+
+/**
+ * Query passed to a release source
+ */
+export interface ReleaseSourceQuery {
+  orgName: string;
+  startDate: Date;
+  endDate: Date;
+  repositories?: string[]; // Optional: specific repositories to filter
+  repositoryFilter?: RepositoryFilter; // Optional: glob, topic, property and archived/fork selection
+}
+
+/**
+ * Repository selection beyond exact names, applied identically by every release source
+ */
+export interface RepositoryFilter {
+  patterns?: string[]; // Glob patterns to include (e.g. sdk-*)
+  exclude?: string[]; // Glob patterns to exclude (configured as !pattern)
+  topics?: string[]; // Keep repositories tagged with any of these topics
+  properties?: Record<string, string>; // Keep repositories whose custom properties match every entry
+  skipArchived?: boolean;
+  skipForks?: boolean;
+}
+
+/**
+ * Repository attributes the repository filter is evaluated against
+ */
+export interface RepositoryMetadata {
+  name: string;
+  isArchived?: boolean;
+  isFork?: boolean;
+  topics?: string[];
+  properties?: Record<string, string>;
+}
+
+/**
+ * Health and latency reported by a release source after its last fetch
+ */
+export interface ReleaseSourceHealth {
+  name: string;
+  healthy: boolean;
+  configured: boolean;
+  lastLatencyMs?: number;
+  lastError?: string;
+  lastCheckedAt?: string;
+  consecutiveFailures: number;
+}
+
+/**
+ * Provider of release data (Snowflake, GitHub GraphQL, ...)
+ */
+export interface ReleaseSource {
+  readonly name: string;
+  readonly label: string; // Human readable name shown in the digest header
+  readonly fetchesInChunks?: boolean; // Queried once per FETCH_CHUNK_DAYS chunk; otherwise the whole window is fetched in one pass
+  isConfigured(): boolean;
+  fetchReleases(query: ReleaseSourceQuery): Promise<ReleaseInfo[]>;
+  getHealth(): ReleaseSourceHealth;
+}
@@ -0,0 +1,85 @@
+/**
+ * Provider of AI release summaries (Anthropic, OpenRouter, ...)
+ */
+export interface SummaryProvider {
+  readonly name: string;
+  readonly label: string; // Human readable name used in logs
+  isConfigured(): boolean;
+  /**
+   * Models tried in order when the chain entry does not pin one
+   */
+  models(): string[];
+  /**
+   * Summarize a prompt with a model
+   * @throws {Error} If the request fails or the model returns no text
+   */
+  summarize(prompt: string, model: string): Promise<string>;
+}
+
+/**
+ * Entry of the summary provider chain (AI_PROVIDERS), e.g. openrouter or openrouter:anthropic/claude-sonnet-4
+ */
+export interface SummaryChainEntry {
+  provider: string;
+  model?: string; // Pinned model; the provider's own model list is walked when unset
+}
+
+/**
+ * Repository rule (AI_REPOSITORY_PROVIDERS) sending matching repositories to one chain entry only,
+ * e.g. acme/internal-*=local keeps those release notes on a local model
+ */
+export interface SummaryProviderRule {
+  pattern: string; // Repository name, org/repo name or glob pattern of either form
+  entry: SummaryChainEntry;
+}
+
+/**
+ * One provider/model attempt of a summarization
+ */
+export interface SummaryAttempt {
+  provider: string;
+  model: string;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * AI summary stored in the summary cache
+ */
+export interface SummaryCacheEntry {
+  summary: string;
+  provider: string;
+  model: string;
+  createdAt: string;
+}
+
+/**
+ * Storage behind the summary cache
+ * Implementations persist entries by key; the JSON file backend is used by default
+ */
+export interface SummaryCacheBackend {
+  get(key: string): Promise<SummaryCacheEntry | undefined>;
+  set(key: string, entry: SummaryCacheEntry): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  entries(): Promise<Array<[string, SummaryCacheEntry]>>;
+}
+
+/**
+ * Summary cache activity of a run, logged when the run ends
+ */
+export interface SummaryCacheStats {
+  hits: number;
+  misses: number;
+  stored: number;
+  expired: number; // Entries dropped because they outlived the TTL
+  evicted: number; // Oldest entries dropped to stay within the size limit
+}
+
+/**
+ * Summary cache settings (unset when the cache is disabled)
+ */
+export interface SummaryCacheSettings {
+  file: string; // JSON file holding cached summaries
+  ttlDays: number; // Days a cached summary stays valid
+  maxEntries: number; // Most summaries kept; the oldest are evicted first
+}
@@ -0,0 +1,28 @@
+/**
+ * Where repository-to-team ownership is loaded from
+ */
+export type TeamOwnershipSource = 'file' | 'codeowners' | 'github';
+
+/**
+ * A team and the repositories it owns
+ */
+export interface TeamDefinition {
+  name: string;
+  repositories: string[]; // Repository names, org/repo names or glob patterns
+  webhookUrl?: string; // Optional: Slack webhook receiving this team's slice of the digest
+}
+
+/**
+ * Structure of the team ownership config file
+ */
+export interface TeamsFile {
+  teams: TeamDefinition[];
+}
+
+/**
+ * Repositories a GitHub team has access to, with the team's permission on each
+ */
+export interface TeamRepositoryAccess {
+  slug: string;
+  repositories: Array<{ name: string; permission: string }>;
+}
@@ -0,0 +1,58 @@
+/**
+ * Adaptive Card element (TextBlock, FactSet, Table, Container, ActionSet, ...)
+ * Only the properties the digest uses are typed; see https://adaptivecards.io/explorer/
+ */
+export interface AdaptiveCardElement {
+  type: string;
+  id?: string;
+  text?: string;
+  wrap?: boolean;
+  weight?: 'Default' | 'Lighter' | 'Bolder';
+  size?: 'Small' | 'Default' | 'Medium' | 'Large' | 'ExtraLarge';
+  isSubtle?: boolean;
+  isVisible?: boolean;
+  spacing?: 'None' | 'Small' | 'Default' | 'Medium' | 'Large';
+  separator?: boolean;
+  style?: string;
+  facts?: Array<{ title: string; value: string }>;
+  columns?: Array<{ width: number | string }>;
+  rows?: AdaptiveCardElement[];
+  cells?: AdaptiveCardElement[];
+  items?: AdaptiveCardElement[];
+  firstRowAsHeaders?: boolean;
+  gridStyle?: string;
+  selectAction?: AdaptiveCardAction;
+}
+
+/**
+ * Adaptive Card action
+ */
+export interface AdaptiveCardAction {
+  type: 'Action.ToggleVisibility' | 'Action.OpenUrl';
+  title?: string;
+  url?: string;
+  targetElements?: string[];
+}
+
+/**
+ * Adaptive Card rendered for Microsoft Teams
+ */
+export interface AdaptiveCard {
+  type: 'AdaptiveCard';
+  $schema: string;
+  version: string;
+  body: AdaptiveCardElement[];
+  msteams?: { width: 'Full' };
+}
+
+/**
+ * Message posted to a Teams incoming webhook or Workflows URL
+ */
+export interface TeamsMessage {
+  type: 'message';
+  attachments: Array<{
+    contentType: 'application/vnd.microsoft.card.adaptive';
+    contentUrl: null;
+    content: AdaptiveCard;
+  }>;
+}
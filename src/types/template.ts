@@ -0,0 +1,93 @@
+import type { RepositorySummary } from './release';
+
+/**
+ * Message templates a user can override, one file per template (<name>.hbs)
+ */
+export type MessageTemplateName = 'header' | 'table' | 'details';
+
+/**
+ * Release as seen by message templates
+ */
+export interface TemplateRelease {
+  repository: string; // Repository label as shown in the digest (org/repo in multi-org digests)
+  organization?: string;
+  tagName: string;
+  name: string;
+  version: string; // Version extracted from the release name, e.g. 2.52.0 for sdk@2.52.0
+  url: string;
+  publishedAt: string; // ISO timestamp
+  date: string; // Publication date as shown in the table (YYYY-MM-DD HH:MM UTC)
+  author: string;
+  prerelease: boolean;
+  teams: string[];
+}
+
+/**
+ * Repository of the digest with its releases and, when descriptions are included, its summary
+ */
+export interface TemplateRepository {
+  name: string; // Repository label
+  organization?: string;
+  releases: TemplateRelease[];
+  summary?: RepositorySummary;
+}
+
+/**
+ * Team section of the table: the repositories whose releases the team owns
+ */
+export interface TemplateTeam {
+  name: string;
+  repositories: TemplateRepository[];
+}
+
+/**
+ * Release counts of one organization in a multi-org digest
+ */
+export interface TemplateOrganization {
+  name: string;
+  releases: number;
+  repositories: number;
+}
+
+/**
+ * Context every message template is rendered with
+ */
+export interface TemplateContext {
+  dateRange: {
+    text: string; // Date range as shown in the header
+    start?: string; // ISO timestamps, set when the fetched time range is known
+    end?: string;
+  };
+  team?: string; // Set when formatting a single team's slice of the digest
+  dataSource?: string;
+  requestedRepositories: string[]; // Repositories given with --repos
+  stats: {
+    releases: number;
+    stable: number;
+    prerelease: number;
+    repositories: number;
+    organizations: number;
+  };
+  organizations: TemplateOrganization[];
+  multipleOrganizations: boolean;
+  releases: TemplateRelease[];
+  repositories: TemplateRepository[]; // Ordered by organization for multi-org digests
+  teams: TemplateTeam[]; // Empty unless the table is grouped by owning team
+  repositoryWidth: number; // Width of the table's repository column
+}
+
+/**
+ * Context of the details template, rendered once per repository
+ */
+export interface RepositoryTemplateContext extends TemplateContext {
+  repository: TemplateRepository;
+}
+
+/**
+ * Compiled message templates
+ */
+export interface MessageTemplates {
+  header: (context: TemplateContext) => string;
+  table: (context: TemplateContext) => string;
+  details: (context: RepositoryTemplateContext) => string;
+}
@@ -0,0 +1,51 @@
+/**
+ * Release entry of the JSON digest document
+ */
+export interface DigestDocumentRelease {
+  tagName: string;
+  name: string;
+  version: string;
+  url: string;
+  publishedAt: string;
+  author: string;
+  prerelease: boolean;
+  teams?: string[];
+}
+
+/**
+ * Repository entry of the JSON digest document
+ */
+export interface DigestDocumentRepository {
+  name: string; // Repository label as shown in the digest (org/repo in multi-org digests)
+  organization?: string;
+  summary?: string; // AI summary, present when descriptions are included
+  summaryGenerated?: boolean; // false when the summary is the generic fallback
+  releases: DigestDocumentRelease[];
+}
+
+/**
+ * Versioned JSON document POSTed by the generic webhook notifier
+ * Fields are only added within a version; removals or renames bump schemaVersion
+ */
+export interface DigestDocument {
+  schemaVersion: 1;
+  type: 'release-digest';
+  generatedAt: string;
+  timeframe: {
+    type: 'hours' | 'days' | 'date';
+    value: number | string;
+    startDate?: string;
+    endDate?: string;
+    text: string; // Date range as shown in the digest header
+  };
+  organizations: string[];
+  team?: string;
+  dataSource?: string;
+  stats: {
+    releases: number;
+    stable: number;
+    prerelease: number;
+    repositories: number;
+  };
+  repositories: DigestDocumentRepository[];
+}
@@ -3,14 +3,26 @@
  */
 
 import { logger } from './logger';
+import { getMaxDateRangeDays } from './config';
+import type { ExportFormat, PreviewFormat } from '../types';
 
 export interface CliConfig {
   timeframe?: {
     type: 'hours' | 'days' | 'date';
     value: number | Date;
   };
-  repositories?: string[]; // Optional: specific repositories to filter
+  repositories?: string[]; // Optional: repository names, glob patterns and !exclude patterns
+  topics?: string[]; // Optional: only include repositories tagged with any of these topics
+  skipArchived?: boolean; // If true, skip archived repositories
+  skipForks?: boolean; // If true, skip forked repositories
   includeDescriptions?: boolean; // If true, include detailed descriptions
+  force?: boolean; // If true, deliver even when the delivery ledger records the digest as delivered
+  noCache?: boolean; // If true, neither read nor write the AI summary cache
+  dryRun?: boolean; // If true, render the digest without delivering it
+  preview?: PreviewFormat; // Dry-run output format (implies dryRun)
+  previewFile?: string; // File receiving the dry-run output instead of stdout (implies dryRun)
+  output?: ExportFormat; // Also export the digest as JSON, CSV or Markdown
+  outFile?: string; // File receiving the export
   showHelp?: boolean;
 }
 
@@ -18,35 +30,56 @@ export interface CliConfig {
  * Display help information for CLI usage
  */
 export function displayHelp(): void {
+  const maxDays = getMaxDateRangeDays();
   logger.info(`
 GitHub Release Summary CLI
 
 Usage:
   npm start                                # Use .env configuration (default: 24 hours)
   npm start -- --hours 6                   # Last 6 hours of releases
-  npm start -- --days 7                    # Last 7 days of releases (maximum)
+  npm start -- --days 7                    # Last 7 days of releases
   npm start -- --date 2025-07-14          # Releases for specific date
   npm start -- --date today               # Releases for today
   npm start -- --date yesterday           # Releases for yesterday
   npm start -- --repo repo-name           # Single repository
   npm start -- --repos repo1,repo2,repo3  # Multiple repositories (comma-separated)
+  npm start -- --repos 'sdk-*,!*-archive' # Glob include and !exclude patterns
+  npm start -- --topics sdk,cli           # Repositories tagged with any of these topics
+  npm start -- --skip-archived            # Skip archived repositories
+  npm start -- --skip-forks               # Skip forked repositories
   npm start -- --include-descriptions     # Include detailed descriptions (default behavior)
+  npm start -- --force                    # Post again even if this digest was already delivered
+  npm start -- --no-cache                 # Summarize every release again instead of reusing cached summaries
+  npm start -- --dry-run                  # Render the messages to stdout without posting
+  npm start -- --preview html             # Render a local HTML page mimicking Slack (digest-preview.html)
+  npm start -- --preview-file out.txt     # Write the dry-run output to a file
+  npm start -- --output json              # Also export the digest as json, csv or md (release-digest.json)
+  npm start -- --out-file digest.csv      # Write the export to a file (format taken from the extension)
   npm start -- --help                     # Show this help
 
 Examples:
   npm start -- --hours 48                 # Last 48 hours of releases
-  npm start -- --days 7                   # Last 7 days of releases (maximum)
+  npm start -- --days 7                   # Last 7 days of releases
+  npm start -- --days 30                  # Monthly digest
+  npm start -- --days 90                  # Quarterly digest
   npm start -- --date 2025-07-10          # Releases for July 10th
   npm start -- --date yesterday           # Yesterday's releases
   npm start -- --repo repo1 # Single repository
   npm start -- --repos repo1,repo2,repo3  # Multiple repositories
   npm start -- --hours 24 --repo repo1    # Last 24 hours for specific repo
+  npm start -- --repos 'sdk-*' --skip-forks # All SDK repositories except forks
   npm start -- --days 1                   # Last day releases, summary table only
-
-Timeframe Limits:
-  • Hours: Maximum 168 hours (7 days)
-  • Days: Maximum 7 days
-  • Date: Cannot be more than 7 days ago or in the future
+  npm start -- --date yesterday --force   # Re-post yesterday's digest
+  npm start -- --days 7 --dry-run         # Review this week's digest before posting it
+  npm start -- --preview html --preview-file review.html # HTML preview written to review.html
+  npm start -- --days 7 --output md --out-file weekly.md # Weekly digest also exported as Markdown
+  npm start -- --days 30 --dry-run --output csv # Monthly CSV export without posting
+
+Timeframe Limits (MAX_DATE_RANGE_DAYS, currently ${maxDays} days):
+  • Hours: Maximum ${maxDays * 24} hours
+  • Days: Maximum ${maxDays} days
+  • Date: Cannot be in the future
+  • Windows longer than FETCH_CHUNK_DAYS are fetched in chunks and merged
 
 Development:
   npm run dev-build -- --hours 1          # Build and run with latest code
@@ -102,11 +135,56 @@ export function parseCliArguments(): CliConfig {
       i++; // Skip the next argument
     }
 
+    // Topic selection argument
+    else if (arg === '--topics' && nextArg) {
+      cliConfig.topics = nextArg.split(',').map(topic => topic.trim()).filter(topic => topic.length > 0);
+      i++; // Skip the next argument
+    }
+
+    // Archived / fork skipping arguments
+    else if (arg === '--skip-archived') {
+      cliConfig.skipArchived = true;
+    } else if (arg === '--skip-forks') {
+      cliConfig.skipForks = true;
+    }
+
     // Include descriptions argument
     else if (arg === '--include-descriptions') {
       cliConfig.includeDescriptions = true;
     }
 
+    // Force delivery argument
+    else if (arg === '--force') {
+      cliConfig.force = true;
+    }
+
+    // Summary cache argument
+    else if (arg === '--no-cache') {
+      cliConfig.noCache = true;
+    }
+
+    // Dry-run arguments
+    else if (arg === '--dry-run') {
+      cliConfig.dryRun = true;
+    } else if (arg === '--preview' && nextArg) {
+      cliConfig.preview = parsePreviewArgument(nextArg);
+      cliConfig.dryRun = true;
+      i++; // Skip the next argument
+    } else if (arg === '--preview-file' && nextArg) {
+      cliConfig.previewFile = nextArg.trim();
+      cliConfig.dryRun = true;
+      i++; // Skip the next argument
+    }
+
+    // Export arguments
+    else if (arg === '--output' && nextArg) {
+      cliConfig.output = parseOutputArgument(nextArg);
+      i++; // Skip the next argument
+    } else if (arg === '--out-file' && nextArg) {
+      cliConfig.outFile = nextArg.trim();
+      i++; // Skip the next argument
+    }
+
     // Unknown argument
     else {
       throw new Error(`Unknown argument: ${arg}. Use --help for usage information.`);
@@ -133,15 +211,7 @@ function parseDateArgument(dateArg: string): string {
       throw new Error(`Invalid date format: ${dateArg}. Use YYYY-MM-DD format.`);
     }
 
-    // Check if date is within 7 days from today
     const today = new Date();
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(today.getDate() - 7);
-
-    if (testDate < sevenDaysAgo) {
-      throw new Error(`Date cannot be more than 7 days ago: ${dateArg}. Maximum allowed date: ${sevenDaysAgo.toISOString().split('T')[0]}`);
-    }
-
     if (testDate > today) {
       throw new Error(`Date cannot be in the future: ${dateArg}`);
     }
@@ -152,6 +222,28 @@ function parseDateArgument(dateArg: string): string {
 
 }
 
+/**
+ * Parse and validate a preview format argument
+ */
+function parsePreviewArgument(previewArg: string): PreviewFormat {
+  const format = previewArg.trim().toLowerCase();
+  if (format !== 'text' && format !== 'html') {
+    throw new Error(`Invalid preview format: ${previewArg}. Use 'text' or 'html'.`);
+  }
+  return format;
+}
+
+/**
+ * Parse and validate an export format argument
+ */
+function parseOutputArgument(outputArg: string): ExportFormat {
+  const format = outputArg.trim().toLowerCase();
+  if (format !== 'json' && format !== 'csv' && format !== 'md') {
+    throw new Error(`Invalid output format: ${outputArg}. Use 'json', 'csv' or 'md'.`);
+  }
+  return format;
+}
+
 /**
  * Parse and validate an hours argument
  */
@@ -161,10 +253,11 @@ function parseHoursArgument(hoursArg: string): number {
     throw new Error(`Hours must be a positive number, got: ${hoursArg}`);
   }
 
-  // Maximum 7 days (168 hours)
-  const maxHours = 7 * 24; // 168 hours
+  // Maximum window comes from the MAX_DATE_RANGE_DAYS policy
+  const maxDays = getMaxDateRangeDays();
+  const maxHours = maxDays * 24;
   if (hours > maxHours) {
-    throw new Error(`Hours cannot exceed ${maxHours} (7 days), got: ${hours}`);
+    throw new Error(`Hours cannot exceed ${maxHours} (${maxDays} days), got: ${hours}`);
   }
 
   return hours;
@@ -179,8 +272,8 @@ function parseDaysArgument(daysArg: string): number {
     throw new Error(`Days must be a positive number, got: ${daysArg}`);
   }
 
-  // Maximum 7 days
-  const maxDays = 7;
+  // Maximum window comes from the MAX_DATE_RANGE_DAYS policy
+  const maxDays = getMaxDateRangeDays();
   if (days > maxDays) {
     throw new Error(`Days cannot exceed ${maxDays}, got: ${days}`);
   }
@@ -226,11 +319,61 @@ export function applyCliOverrides(cliConfig: CliConfig): void {
     logger.info(`CLI override: Repositories set to '${cliConfig.repositories.join(', ')}'`);
   }
 
+  if (cliConfig.topics) {
+    process.env.REPOSITORY_TOPICS = cliConfig.topics.join(',');
+    logger.info(`CLI override: Repository topics set to '${cliConfig.topics.join(', ')}'`);
+  }
+
+  if (cliConfig.skipArchived) {
+    process.env.SKIP_ARCHIVED = 'true';
+    logger.info('CLI override: Skipping archived repositories');
+  }
+
+  if (cliConfig.skipForks) {
+    process.env.SKIP_FORKS = 'true';
+    logger.info('CLI override: Skipping forked repositories');
+  }
+
   if (cliConfig.includeDescriptions !== undefined) {
     // Set include descriptions environment variable
     process.env.INCLUDE_DESCRIPTIONS = cliConfig.includeDescriptions.toString();
     logger.info(`CLI override: Include descriptions set to '${cliConfig.includeDescriptions}'`);
   }
+
+  if (cliConfig.force) {
+    process.env.FORCE_DELIVERY = 'true';
+    logger.info('CLI override: Forcing delivery');
+  }
+
+  if (cliConfig.noCache) {
+    process.env.SUMMARY_CACHE = 'false';
+    logger.info('CLI override: Summary cache disabled');
+  }
+
+  if (cliConfig.dryRun) {
+    process.env.DRY_RUN = 'true';
+    logger.info('CLI override: Dry run, nothing will be delivered');
+  }
+
+  if (cliConfig.preview) {
+    process.env.PREVIEW_FORMAT = cliConfig.preview;
+    logger.info(`CLI override: Preview format set to '${cliConfig.preview}'`);
+  }
+
+  if (cliConfig.previewFile) {
+    process.env.PREVIEW_FILE = cliConfig.previewFile;
+    logger.info(`CLI override: Preview file set to '${cliConfig.previewFile}'`);
+  }
+
+  if (cliConfig.output) {
+    process.env.EXPORT_FORMAT = cliConfig.output;
+    logger.info(`CLI override: Export format set to '${cliConfig.output}'`);
+  }
+
+  if (cliConfig.outFile) {
+    process.env.EXPORT_FILE = cliConfig.outFile;
+    logger.info(`CLI override: Export file set to '${cliConfig.outFile}'`);
+  }
 }
 
 /**
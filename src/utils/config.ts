@@ -1,17 +1,67 @@
 import { logger } from './logger';
-import type { ISnowflakeConnectionConfig } from '../types';
+import type {
+  ISnowflakeConnectionConfig,
+  DataSourceOrder,
+  GitHubAppCredentials,
+  TeamOwnershipSource,
+  SlackMessageFormat,
+  SlackSizeLimits,
+  NotifierName,
+  RetryConfig,
+  EmailSettings,
+  FeedSettings,
+  SummaryCacheSettings,
+  PreviewFormat,
+  ExportFormat
+} from '../types';
 
 /**
  * Configuration interface for the release summary service
  */
 export interface Config {
-  githubToken: string;
-  slackWebhookUrl: string;
-  orgName: string;
+  githubToken?: string; // Personal access token (optional when a GitHub App is configured)
+  githubApp?: GitHubAppCredentials; // Optional: GitHub App installation authentication
+  githubApiUrl?: string; // Optional: GitHub Enterprise Server API base URL
+  notifiers: NotifierName[]; // Enabled delivery destinations
+  dryRun: boolean; // Render the digest without delivering it; destinations are then optional
+  previewFormat: PreviewFormat; // Dry-run output: text listing or HTML page mimicking Slack
+  previewFile?: string; // Optional: file receiving the dry-run output instead of stdout
+  exportFormat?: ExportFormat; // Optional: also export the digest as JSON, CSV or Markdown
+  exportFile?: string; // File the export is written to (set when exportFormat is set)
+  slackWebhookUrl?: string; // Incoming webhook (optional when bot token delivery is configured)
+  slackRetry: RetryConfig; // Attempts and backoff for Slack webhook posts
+  teamsWebhookUrl?: string; // Teams incoming webhook or Workflows URL (required when teams is enabled)
+  teamsRetry: RetryConfig; // Attempts and backoff for Teams posts
+  email?: EmailSettings; // SMTP server, sender and recipients (required when email is enabled)
+  emailRetry: RetryConfig; // Attempts and backoff for email sends
+  discordWebhookUrl?: string; // Discord channel webhook (required when discord is enabled)
+  discordRetry: RetryConfig; // Attempts and backoff for Discord posts
+  jsonWebhookUrl?: string; // URL receiving the JSON digest document (required when webhook is enabled)
+  jsonWebhookSecret?: string; // Optional: HMAC-SHA256 signing secret for the JSON digest document
+  jsonWebhookRetry: RetryConfig; // Attempts and backoff for JSON webhook posts
+  feed?: FeedSettings; // Atom/RSS feed files (set when feed is enabled)
+  slackBotToken?: string; // Optional: bot token for Web API delivery as a threaded digest
+  slackChannel?: string; // Channel ID the bot posts to (required with slackBotToken)
+  slackThreadsFile: string; // File recording posted digest threads so reruns update them
+  slackMessageLimits: SlackSizeLimits; // Size limits applied to every Slack destination
+  slackDestinationLimits?: Record<string, Partial<SlackSizeLimits>>; // Optional: limits per destination ('main' or a team name)
+  deliveryLedgerFile: string; // File recording delivered digests so reruns do not post them again
+  forceDelivery: boolean; // Deliver even when the ledger records the digest as delivered
+  slackMessageFormat: SlackMessageFormat; // Block Kit blocks (default) or plain code-block text
+  messageTemplatesDir?: string; // Optional: directory of Handlebars templates overriding the text digest's header, table and details
+  orgName: string; // Primary organization (first entry of ORG_NAME)
+  orgNames: string[]; // All organizations included in the digest
   anthropicApiKey?: string; // Optional: Anthropic API key for AI summarization (primary)
   openRouterApiKey?: string; // Optional: OpenRouter API key for AI summarization (fallback)
   aiModel?: string; // Optional: AI model to use for summarization (OpenRouter)
   anthropicModel?: string; // Optional: Anthropic AI model to use for summarization
+  geminiApiKey?: string; // Optional: Google Gemini API key for AI summarization
+  geminiModel?: string; // Optional: Gemini model to use for summarization
+  localAiBaseUrl?: string; // Optional: base URL of a self-hosted OpenAI-compatible server for AI summarization
+  localAiModel?: string; // Optional: model served by the local OpenAI-compatible server
+  aiProviders: string[]; // Ordered AI summary provider chain (provider or provider:model entries)
+  aiRepositoryProviders?: Record<string, string>; // Optional: provider or provider:model forced per repository pattern
+  summaryCache?: SummaryCacheSettings; // AI summary cache (unset when disabled with SUMMARY_CACHE=false or --no-cache)
   nodeEnv: string;
   logLevel: string;
   timeframe: {
@@ -20,9 +70,20 @@ export interface Config {
     startDate?: Date;
     endDate?: Date;
   };
-  repositories?: string[]; // Optional: specific repositories to filter
+  repositories?: string[]; // Optional: repository names, glob patterns and !exclude patterns
+  repositoryTopics?: string[]; // Optional: only include repositories tagged with any of these topics
+  repositoryProperties?: Record<string, string>; // Optional: only include repositories with these custom property values
+  skipArchived: boolean; // Skip archived repositories
+  skipForks: boolean; // Skip forked repositories
+  teamOwnershipSource?: TeamOwnershipSource; // Optional: where repository-to-team ownership is loaded from
+  teamsFile?: string; // Optional: path of the team ownership JSON file
+  teamWebhooks?: Record<string, string>; // Optional: Slack webhook per team name
   includeDescriptions?: boolean; // If true, include detailed descriptions
   snowflake?: ISnowflakeConnectionConfig; // Optional: Snowflake connection settings
+  dataSourceOrder: DataSourceOrder; // Order in which Snowflake and the GitHub API are tried
+  releaseSources?: string[]; // Optional: explicit ordered chain of registered release source names
+  maxDateRangeDays: number; // Policy: longest allowed timeframe window in days
+  fetchChunkDays: number; // Size in days of each chunk when fetching long windows
 }
 
 /**
@@ -41,9 +102,61 @@ const OPTIONAL_ENV_VARS = {
   ANTHROPIC_API_KEY: undefined, // Optional: Anthropic API key for AI summarization (primary)
   OPENROUTER_API_KEY: undefined, // Optional: OpenRouter API key for AI summarization (fallback)
   AI_MODEL: 'claude-3-5-sonnet-20241022', // Optional: AI model for summarization (OpenRouter)
-  ANTHROPIC_MODEL: 'claude-3-5-sonnet-20241022' // Optional: Anthropic AI model for summarization
+  ANTHROPIC_MODEL: 'claude-3-5-sonnet-20241022', // Optional: Anthropic AI model for summarization
+  GEMINI_API_KEY: undefined, // Optional: Google Gemini API key for AI summarization
+  GEMINI_MODEL: 'gemini-2.5-flash', // Optional: Gemini model for summarization
+  LOCAL_AI_BASE_URL: undefined, // Optional: OpenAI-compatible server for local AI summarization (Ollama, vLLM, ...)
+  LOCAL_AI_MODEL: 'llama3.1', // Optional: model served by the local server
+  AI_PROVIDERS: 'anthropic,gemini,openrouter', // Optional: AI summary providers tried in order
+  AI_REPOSITORY_PROVIDERS: undefined, // Optional: repository=provider rules, e.g. internal-*=local
+  SUMMARY_CACHE: 'true', // Optional: reuse AI summaries of identical release notes across runs
+  SUMMARY_CACHE_FILE: '.summary-cache.json', // Optional: file holding cached AI summaries
+  SUMMARY_CACHE_TTL_DAYS: '30', // Optional: days a cached summary stays valid
+  SUMMARY_CACHE_MAX_ENTRIES: '1000', // Optional: most cached summaries kept
+  DATA_SOURCE_ORDER: 'snowflake-first', // Optional: Order in which release data sources are tried
+  MAX_DATE_RANGE_DAYS: '92', // Optional: Longest allowed timeframe window (one quarter)
+  FETCH_CHUNK_DAYS: '7', // Optional: Long windows are fetched in chunks of this many days
+  SLACK_MESSAGE_FORMAT: 'blocks', // Optional: Slack output as Block Kit blocks or code-block text
+  SLACK_THREADS_FILE: '.slack-threads.json', // Optional: record of posted digest threads (bot token delivery)
+  DELIVERY_LEDGER_FILE: '.delivery-ledger.json', // Optional: record of delivered digests
+  SLACK_MAX_TEXT_LENGTH: '4000', // Optional: longer Slack messages are split into parts
+  SLACK_MAX_BLOCKS: '50', // Optional: Slack messages with more blocks are split into parts
+  NOTIFIERS: 'slack', // Optional: comma-separated delivery destinations
+  PREVIEW_FORMAT: 'text', // Optional: dry-run output format
+  HTML_PREVIEW_FILE: 'digest-preview.html', // Optional: HTML preview file when PREVIEW_FILE is not set
+  EXPORT_FILE_BASENAME: 'release-digest', // Optional: export file name (plus the format's extension) when EXPORT_FILE is not set
+  SLACK_RETRY_ATTEMPTS: '1', // Optional: attempts per Slack webhook post
+  TEAMS_RETRY_ATTEMPTS: '3', // Optional: attempts per Teams post
+  EMAIL_RETRY_ATTEMPTS: '2', // Optional: attempts per email recipient
+  DISCORD_RETRY_ATTEMPTS: '3', // Optional: attempts per Discord post
+  JSON_WEBHOOK_RETRY_ATTEMPTS: '3', // Optional: attempts per JSON webhook post
+  SMTP_PORT: '587', // Optional: SMTP submission port (465 implies implicit TLS)
+  FEED_FILE: 'releases.atom', // Optional: Atom feed file written by the feed notifier
+  FEED_MAX_ENTRIES: '200', // Optional: newest entries kept in the feed
+  EMAIL_SUBJECT: 'Release Digest - {dateRange}' // Optional: email subject template
 } as const;
 
+const SLACK_MESSAGE_FORMATS: readonly SlackMessageFormat[] = ['blocks', 'text'];
+
+const PREVIEW_FORMATS: readonly PreviewFormat[] = ['text', 'html'];
+
+const EXPORT_FORMATS: readonly ExportFormat[] = ['json', 'csv', 'md'];
+
+const NOTIFIER_NAMES: readonly NotifierName[] = ['slack', 'teams', 'email', 'discord', 'webhook', 'feed'];
+
+const EMAIL_SUBJECT_PLACEHOLDERS = ['dateRange', 'releaseCount', 'repositoryCount', 'organizations'];
+
+const EMAIL_ADDRESS = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+const TEAM_OWNERSHIP_SOURCES: readonly TeamOwnershipSource[] = ['file', 'codeowners', 'github'];
+
+const DATA_SOURCE_ORDERS: readonly DataSourceOrder[] = [
+  'snowflake-first',
+  'github-first',
+  'github-only',
+  'snowflake-only'
+];
+
 /**
  * Validates and returns the application configuration
  * @returns {Config} Validated configuration object
@@ -54,7 +167,7 @@ const OPTIONAL_ENV_VARS = {
  * @param url - Slack webhook URL to validate
  * @throws {Error} If URL format is invalid
  */
-function validateSlackWebhookUrl(url: string): void {
+export function validateSlackWebhookUrl(url: string): void {
   try {
     const parsedUrl = new URL(url);
     if (parsedUrl.hostname !== 'hooks.slack.com') {
@@ -69,6 +182,102 @@ function validateSlackWebhookUrl(url: string): void {
   }
 }
 
+/**
+ * Validates and normalizes a GitHub API base URL
+ * @param url - API base URL to validate
+ * @returns URL without a trailing slash
+ * @throws {Error} If URL format is invalid
+ */
+function validateGitHubApiUrl(url: string): string {
+  try {
+    const parsedUrl = new URL(url);
+    if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+      throw new Error('GitHub API URL must use http or https');
+    }
+  } catch (error) {
+    logger.error(`Invalid GITHUB_API_URL: ${error}`);
+    throw new Error(`Invalid GITHUB_API_URL: ${error}`);
+  }
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Parses Slack bot token delivery settings from SLACK_BOT_TOKEN and SLACK_CHANNEL
+ * @returns Bot token and channel, or undefined when SLACK_BOT_TOKEN is not set
+ * @throws {Error} If the token is not a bot token or SLACK_CHANNEL is missing
+ */
+function parseSlackBotDelivery(): { token: string; channel: string } | undefined {
+  const token = process.env.SLACK_BOT_TOKEN?.trim();
+  if (!token) {
+    return undefined;
+  }
+
+  if (!token.startsWith('xoxb-')) {
+    throw new Error('SLACK_BOT_TOKEN must be a bot token (xoxb-...)');
+  }
+
+  const channel = process.env.SLACK_CHANNEL?.trim();
+  if (!channel) {
+    throw new Error('SLACK_CHANNEL is required when SLACK_BOT_TOKEN is set');
+  }
+
+  return { token, channel };
+}
+
+/**
+ * Parses GitHub App credentials from GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY and GITHUB_APP_INSTALLATION_ID
+ * @returns GitHubAppCredentials | undefined - Credentials, or undefined when no GitHub App variable is set
+ * @throws {Error} If only some of the variables are set or the app/installation IDs are not numeric
+ */
+function parseGitHubAppCredentials(): GitHubAppCredentials | undefined {
+  const appId = process.env.GITHUB_APP_ID?.trim();
+  const privateKey = process.env.GITHUB_APP_PRIVATE_KEY?.trim();
+  const installationId = process.env.GITHUB_APP_INSTALLATION_ID?.trim();
+
+  if (!appId && !privateKey && !installationId) {
+    return undefined;
+  }
+
+  const missing = [
+    !appId && 'GITHUB_APP_ID',
+    !privateKey && 'GITHUB_APP_PRIVATE_KEY',
+    !installationId && 'GITHUB_APP_INSTALLATION_ID'
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    throw new Error(`Incomplete GitHub App configuration, missing: ${missing.join(', ')}`);
+  }
+
+  if (!/^\d+$/.test(appId!) || !/^\d+$/.test(installationId!)) {
+    throw new Error('GITHUB_APP_ID and GITHUB_APP_INSTALLATION_ID must be numeric');
+  }
+
+  // Keys stored in single-line secrets usually carry escaped newlines
+  const pem = privateKey!.replace(/\\n/g, '\n');
+  if (!pem.includes('PRIVATE KEY-----')) {
+    throw new Error('GITHUB_APP_PRIVATE_KEY must be a PEM-encoded private key');
+  }
+
+  return { appId: appId!, privateKey: pem, installationId: installationId! };
+}
+
+/**
+ * Parses REPOSITORY_PROPERTIES entries of the form name=value
+ * @param value - Comma-separated name=value pairs
+ * @returns Record<string, string> - Property values keyed by property name
+ * @throws {Error} If an entry is not a name=value pair
+ */
+function parseRepositoryProperties(value: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const entry of value.split(',').map(item => item.trim()).filter(item => item.length > 0)) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw new Error(`Invalid REPOSITORY_PROPERTIES entry: ${entry}. Expected name=value`);
+    }
+    properties[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return properties;
+}
+
 /**
  * Validates GitHub organization name
  * @param orgName - Organization name to validate
@@ -92,15 +301,539 @@ function validateOrgName(orgName: string): void {
   }
 }
 
+/**
+ * Validates the data source order setting
+ * @param order - Data source order to validate
+ * @throws {Error} If the order is not one of the supported values
+ */
+function validateDataSourceOrder(order: string): DataSourceOrder {
+  if (!DATA_SOURCE_ORDERS.includes(order as DataSourceOrder)) {
+    const errorMsg = `Invalid DATA_SOURCE_ORDER: ${order}. Must be one of: ${DATA_SOURCE_ORDERS.join(', ')}`;
+    logger.error(errorMsg);
+    throw new Error(errorMsg);
+  }
+  return order as DataSourceOrder;
+}
+
+/**
+ * Parses TEAM_WEBHOOKS entries of the form team=webhook-url
+ * @param value - Comma-separated team=url pairs
+ * @returns Record<string, string> - Slack webhook URL keyed by team name
+ * @throws {Error} If an entry is malformed or a webhook URL is invalid
+ */
+function parseTeamWebhooks(value: string): Record<string, string> {
+  const webhooks: Record<string, string> = {};
+  for (const entry of value.split(',').map(item => item.trim()).filter(item => item.length > 0)) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid TEAM_WEBHOOKS entry: ${entry}. Expected team=webhook-url`);
+    }
+    const url = entry.slice(separator + 1).trim();
+    validateSlackWebhookUrl(url);
+    webhooks[entry.slice(0, separator).trim()] = url;
+  }
+  return webhooks;
+}
+
+/**
+ * Parses AI_REPOSITORY_PROVIDERS entries of the form repository-pattern=provider[:model]
+ * @param value - Comma-separated pattern=provider pairs, matched in order
+ * @returns Record<string, string> - Chain entry keyed by repository pattern
+ * @throws {Error} If an entry is malformed
+ */
+function parseRepositoryProviders(value: string): Record<string, string> {
+  const rules: Record<string, string> = {};
+  for (const entry of value.split(',').map(item => item.trim()).filter(item => item.length > 0)) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0 || !entry.slice(separator + 1).trim()) {
+      throw new Error(`Invalid AI_REPOSITORY_PROVIDERS entry: ${entry}. Expected repository=provider[:model]`);
+    }
+    rules[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return rules;
+}
+
+/**
+ * Validates and normalizes the base URL of the local OpenAI-compatible server
+ * @returns URL without a trailing slash
+ * @throws {Error} If the URL is malformed or not http(s)
+ */
+function validateLocalAiBaseUrl(url: string): string {
+  try {
+    const parsedUrl = new URL(url);
+    if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+      throw new Error('Local AI base URL must use http or https');
+    }
+  } catch (error) {
+    logger.error(`Invalid LOCAL_AI_BASE_URL: ${error}`);
+    throw new Error(`Invalid LOCAL_AI_BASE_URL: ${error}`);
+  }
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Slack accepts at most 40,000 characters of text and 50 blocks per message;
+ * below 200 characters or 2 blocks there is no room for content next to part markers
+ */
+const SLACK_TEXT_LENGTH_RANGE = [200, 40000] as const;
+
+const FEED_MAX_ENTRIES_RANGE = [1, 10000] as const;
+const SUMMARY_CACHE_MAX_ENTRIES_RANGE = [1, 100000] as const;
+const SLACK_BLOCKS_RANGE = [2, 50] as const;
+
+/**
+ * Parses a Slack size limit, checking it lies within the range Slack and the splitter support
+ * @throws {Error} If the value is not a number within the range
+ */
+function parseSlackLimit(name: string, raw: string, [min, max]: readonly [number, number]): number {
+  const value = parseInt(raw.trim(), 10);
+  if (Number.isNaN(value) || value < min || value > max) {
+    throw new Error(`Invalid ${name}: ${raw}. Must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Parses SLACK_DESTINATION_LIMITS (e.g. main=3000:40,platform=2000) into limits per destination
+ * Each entry sets the text length and, after a colon, optionally the block count
+ * @throws {Error} If an entry is malformed or a limit is out of range
+ */
+function parseSlackDestinationLimits(value: string): Record<string, Partial<SlackSizeLimits>> {
+  const limits: Record<string, Partial<SlackSizeLimits>> = {};
+  for (const entry of value.split(',').map(item => item.trim()).filter(item => item.length > 0)) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid SLACK_DESTINATION_LIMITS entry: ${entry}. Expected destination=length[:blocks]`);
+    }
+    const [textLength, blocks] = entry.slice(separator + 1).split(':');
+    const destinationLimits: Partial<SlackSizeLimits> = {};
+    if (textLength?.trim()) {
+      destinationLimits.maxTextLength = parseSlackLimit('SLACK_DESTINATION_LIMITS text length', textLength, SLACK_TEXT_LENGTH_RANGE);
+    }
+    if (blocks?.trim()) {
+      destinationLimits.maxBlocks = parseSlackLimit('SLACK_DESTINATION_LIMITS block count', blocks, SLACK_BLOCKS_RANGE);
+    }
+    limits[entry.slice(0, separator).trim()] = destinationLimits;
+  }
+  return limits;
+}
+
+/**
+ * Parses EXPORT_FORMAT and EXPORT_FILE into the digest export settings
+ * Without EXPORT_FORMAT the format is taken from the EXPORT_FILE extension
+ * @returns Undefined when neither variable is set
+ * @throws {Error} If the format is unknown or cannot be inferred
+ */
+function parseExportSettings(): { format: ExportFormat; file: string } | undefined {
+  const formatValue = process.env.EXPORT_FORMAT?.trim().toLowerCase();
+  const file = process.env.EXPORT_FILE?.trim();
+  if (!formatValue && !file) {
+    return undefined;
+  }
+
+  if (formatValue) {
+    if (!EXPORT_FORMATS.includes(formatValue as ExportFormat)) {
+      throw new Error(`Invalid EXPORT_FORMAT: ${formatValue}. Must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+    const format = formatValue as ExportFormat;
+    return { format, file: file || `${OPTIONAL_ENV_VARS.EXPORT_FILE_BASENAME}.${format}` };
+  }
+
+  const extension = file!.split('.').pop()?.toLowerCase();
+  const format = EXPORT_FORMATS.find(candidate => candidate === extension || (candidate === 'md' && extension === 'markdown'));
+  if (!format) {
+    throw new Error(`Invalid EXPORT_FILE: ${file}. Cannot infer the export format from its extension; set EXPORT_FORMAT to one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  return { format, file: file! };
+}
+
+/**
+ * Parses NOTIFIERS into the enabled delivery destinations
+ * @throws {Error} If a name is unknown or no notifier is enabled
+ */
+function parseNotifiers(value: string): NotifierName[] {
+  const notifiers = Array.from(new Set(value
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0)));
+
+  for (const name of notifiers) {
+    if (!NOTIFIER_NAMES.includes(name as NotifierName)) {
+      throw new Error(`Invalid NOTIFIERS entry: ${name}. Must be one of: ${NOTIFIER_NAMES.join(', ')}`);
+    }
+  }
+  if (notifiers.length === 0) {
+    throw new Error('NOTIFIERS must enable at least one notifier');
+  }
+  return notifiers as NotifierName[];
+}
+
+/**
+ * Builds a notifier retry configuration from an attempts environment variable
+ * @throws {Error} If the attempt count is not a number between 1 and 10
+ */
+function parseRetryConfig(name: string, defaultValue: string): RetryConfig {
+  const raw = process.env[name]?.trim() || defaultValue;
+  const attempts = parseInt(raw, 10);
+  if (Number.isNaN(attempts) || attempts < 1 || attempts > 10) {
+    throw new Error(`Invalid ${name}: ${raw}. Must be a number between 1 and 10`);
+  }
+  return { maxRetries: attempts, baseDelay: 1000, maxDelay: 10000 };
+}
+
+/**
+ * Validates a Microsoft Teams incoming webhook or Workflows URL
+ * @throws {Error} If the URL is malformed or does not use https
+ */
+function validateTeamsWebhookUrl(url: string): void {
+  try {
+    const parsedUrl = new URL(url);
+    if (parsedUrl.protocol !== 'https:') {
+      throw new Error('Teams webhook URL must use https');
+    }
+  } catch (error) {
+    logger.error(`Invalid Teams webhook URL: ${error}`);
+    throw new Error(`Invalid Teams webhook URL: ${error}`);
+  }
+}
+
+/**
+ * Validates a Discord channel webhook URL
+ * @throws {Error} If the URL is not a discord.com webhook URL
+ */
+function validateDiscordWebhookUrl(url: string): void {
+  try {
+    const parsedUrl = new URL(url);
+    if (parsedUrl.protocol !== 'https:' || !['discord.com', 'discordapp.com'].includes(parsedUrl.hostname)) {
+      throw new Error('Discord webhook URL must be an https URL on discord.com');
+    }
+    if (!parsedUrl.pathname.startsWith('/api/webhooks/')) {
+      throw new Error('Invalid Discord webhook URL format');
+    }
+  } catch (error) {
+    logger.error(`Invalid Discord webhook URL: ${error}`);
+    throw new Error(`Invalid Discord webhook URL: ${error}`);
+  }
+}
+
+/**
+ * Validates the URL receiving the JSON digest document
+ * @throws {Error} If the URL is malformed or not http(s)
+ */
+function validateJsonWebhookUrl(url: string): void {
+  try {
+    const parsedUrl = new URL(url);
+    if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+      throw new Error('JSON webhook URL must use http or https');
+    }
+  } catch (error) {
+    logger.error(`Invalid JSON webhook URL: ${error}`);
+    throw new Error(`Invalid JSON webhook URL: ${error}`);
+  }
+}
+
+/**
+ * Validates the page URL the release feed links to
+ * @throws {Error} If the URL is invalid or not http(s)
+ */
+function validateFeedLink(url: string): void {
+  try {
+    const parsedUrl = new URL(url);
+    if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+      throw new Error('Feed link must use http or https');
+    }
+  } catch (error) {
+    logger.error(`Invalid FEED_LINK: ${error}`);
+    throw new Error(`Invalid FEED_LINK: ${error}`);
+  }
+}
+
+/**
+ * Parses the email digest settings from SMTP_* and EMAIL_* variables
+ * @param missingVars - Receives the names of required variables that are not set
+ * @returns EmailSettings | undefined - Settings, or undefined when required variables are missing
+ * @throws {Error} If a value is invalid
+ */
+function parseEmailSettings(missingVars: string[]): EmailSettings | undefined {
+  const host = process.env.SMTP_HOST?.trim();
+  const from = process.env.EMAIL_FROM?.trim();
+  const recipients = Array.from(new Set(
+    (process.env.EMAIL_TO ?? '').split(',').map(address => address.trim()).filter(address => address.length > 0)
+  ));
+
+  const missing = [
+    !host && 'SMTP_HOST',
+    !from && 'EMAIL_FROM',
+    recipients.length === 0 && 'EMAIL_TO'
+  ].filter(Boolean) as string[];
+  if (missing.length > 0) {
+    missingVars.push(...missing);
+    return undefined;
+  }
+
+  // Display names are allowed in the sender: "Release Digest <digest@example.com>"
+  const fromAddress = from!.match(/<([^>]+)>\s*$/)?.[1] ?? from!;
+  if (!EMAIL_ADDRESS.test(fromAddress)) {
+    throw new Error(`Invalid EMAIL_FROM: ${from}. Must be an email address`);
+  }
+  for (const recipient of recipients) {
+    if (!EMAIL_ADDRESS.test(recipient)) {
+      throw new Error(`Invalid EMAIL_TO entry: ${recipient}. Must be an email address`);
+    }
+  }
+
+  const rawPort = process.env.SMTP_PORT?.trim() || OPTIONAL_ENV_VARS.SMTP_PORT;
+  const port = parseInt(rawPort, 10);
+  if (!/^\d+$/.test(rawPort) || port < 1 || port > 65535) {
+    throw new Error(`Invalid SMTP_PORT: ${rawPort}. Must be a number between 1 and 65535`);
+  }
+
+  const rawSecure = process.env.SMTP_SECURE?.trim().toLowerCase();
+  if (rawSecure && rawSecure !== 'true' && rawSecure !== 'false') {
+    throw new Error(`Invalid SMTP_SECURE: ${rawSecure}. Must be true or false`);
+  }
+
+  const user = process.env.SMTP_USER?.trim() || undefined;
+  const password = process.env.SMTP_PASSWORD || undefined;
+  if (user && !password) {
+    throw new Error('SMTP_PASSWORD is required when SMTP_USER is set');
+  }
+
+  const subjectTemplate = process.env.EMAIL_SUBJECT?.trim() || OPTIONAL_ENV_VARS.EMAIL_SUBJECT;
+  for (const [, name] of subjectTemplate.matchAll(/\{(\w+)\}/g)) {
+    if (!EMAIL_SUBJECT_PLACEHOLDERS.includes(name)) {
+      throw new Error(`Invalid EMAIL_SUBJECT placeholder: {${name}}. Must be one of: ${EMAIL_SUBJECT_PLACEHOLDERS.map(p => `{${p}}`).join(', ')}`);
+    }
+  }
+
+  return {
+    smtp: { host: host!, port, secure: rawSecure ? rawSecure === 'true' : port === 465, user, password },
+    from: from!,
+    recipients,
+    subjectTemplate
+  };
+}
+
+/**
+ * Parses the release feed settings from FEED_* variables
+ * @throws {Error} If a value is invalid
+ */
+function parseFeedSettings(): FeedSettings {
+  const file = process.env.FEED_FILE?.trim() || OPTIONAL_ENV_VARS.FEED_FILE;
+  const rssFile = process.env.FEED_RSS_FILE?.trim() || undefined;
+  if (rssFile === file) {
+    throw new Error(`Invalid FEED_RSS_FILE: ${rssFile}. Must differ from FEED_FILE`);
+  }
+
+  const rawMaxEntries = process.env.FEED_MAX_ENTRIES?.trim() || OPTIONAL_ENV_VARS.FEED_MAX_ENTRIES;
+  const maxEntries = parseInt(rawMaxEntries, 10);
+  if (!/^\d+$/.test(rawMaxEntries) || maxEntries < FEED_MAX_ENTRIES_RANGE[0] || maxEntries > FEED_MAX_ENTRIES_RANGE[1]) {
+    throw new Error(`Invalid FEED_MAX_ENTRIES: ${rawMaxEntries}. Must be a number between ${FEED_MAX_ENTRIES_RANGE[0]} and ${FEED_MAX_ENTRIES_RANGE[1]}`);
+  }
+
+  const link = process.env.FEED_LINK?.trim() || undefined;
+  if (link) {
+    validateFeedLink(link);
+  }
+
+  return {
+    file,
+    rssFile,
+    maxEntries,
+    title: process.env.FEED_TITLE?.trim() || undefined,
+    link
+  };
+}
+
+/**
+ * Parses the AI summary cache settings
+ * @returns Cache settings, or undefined when SUMMARY_CACHE is false
+ * @throws {Error} If the TTL or size limit is invalid
+ */
+function parseSummaryCacheSettings(): SummaryCacheSettings | undefined {
+  if ((process.env.SUMMARY_CACHE?.trim().toLowerCase() || OPTIONAL_ENV_VARS.SUMMARY_CACHE) === 'false') {
+    return undefined;
+  }
+
+  const rawMaxEntries = process.env.SUMMARY_CACHE_MAX_ENTRIES?.trim() || OPTIONAL_ENV_VARS.SUMMARY_CACHE_MAX_ENTRIES;
+  const maxEntries = parseInt(rawMaxEntries, 10);
+  const [min, max] = SUMMARY_CACHE_MAX_ENTRIES_RANGE;
+  if (!/^\d+$/.test(rawMaxEntries) || maxEntries < min || maxEntries > max) {
+    throw new Error(`Invalid SUMMARY_CACHE_MAX_ENTRIES: ${rawMaxEntries}. Must be a number between ${min} and ${max}`);
+  }
+
+  return {
+    file: process.env.SUMMARY_CACHE_FILE?.trim() || OPTIONAL_ENV_VARS.SUMMARY_CACHE_FILE,
+    ttlDays: parsePositiveDays('SUMMARY_CACHE_TTL_DAYS', OPTIONAL_ENV_VARS.SUMMARY_CACHE_TTL_DAYS),
+    maxEntries
+  };
+}
+
+/**
+ * Parses a positive integer day count from an environment variable
+ * @param name - Environment variable name
+ * @param defaultValue - Value used when the variable is not set
+ * @throws {Error} If the value is not a positive number
+ */
+function parsePositiveDays(name: string, defaultValue: string): number {
+  const raw = process.env[name]?.trim() || defaultValue;
+  const days = parseInt(raw, 10);
+  if (Number.isNaN(days) || days <= 0) {
+    throw new Error(`Invalid ${name}: ${raw}. Must be a positive number`);
+  }
+  return days;
+}
+
+/**
+ * Returns the maximum allowed timeframe window in days (MAX_DATE_RANGE_DAYS policy)
+ * Exposed separately so CLI validation can run before the full configuration is loaded
+ */
+export function getMaxDateRangeDays(): number {
+  return parsePositiveDays('MAX_DATE_RANGE_DAYS', OPTIONAL_ENV_VARS.MAX_DATE_RANGE_DAYS);
+}
+
+/**
+ * Parses and validates a comma-separated list of organization names
+ * @param value - Raw ORG_NAME value
+ * @returns Unique organization names in the order given
+ * @throws {Error} If any organization name is invalid
+ */
+function parseOrgNames(value: string): string[] {
+  const orgNames = Array.from(new Set(
+    value.split(',').map(org => org.trim()).filter(org => org.length > 0)
+  ));
+
+  orgNames.forEach(validateOrgName);
+  return orgNames;
+}
+
 export function getConfig(): Config {
 
   const missingVars: string[] = [];
   const config: Partial<Config> = {};
 
+  // A GitHub App replaces the personal access token; TOKEN_GITHUB then only acts as a fallback
+  config.githubApp = parseGitHubAppCredentials();
+  if (config.githubApp) {
+    logger.info(`GitHub App authentication configured (app ${config.githubApp.appId}, installation ${config.githubApp.installationId})`);
+  }
+
+  // Enabled notifiers; Slack settings are only required when Slack is enabled
+  config.notifiers = parseNotifiers(process.env.NOTIFIERS?.trim() || OPTIONAL_ENV_VARS.NOTIFIERS);
+  logger.info(`Notifiers enabled: ${config.notifiers.join(', ')}`);
+
+  // Dry run: the digest is rendered but not delivered, so destinations are not required
+  const previewFormat = (process.env.PREVIEW_FORMAT?.trim().toLowerCase() || OPTIONAL_ENV_VARS.PREVIEW_FORMAT) as PreviewFormat;
+  if (!PREVIEW_FORMATS.includes(previewFormat)) {
+    throw new Error(`Invalid PREVIEW_FORMAT: ${previewFormat}. Must be one of: ${PREVIEW_FORMATS.join(', ')}`);
+  }
+  config.previewFormat = previewFormat;
+  config.dryRun = process.env.DRY_RUN?.trim().toLowerCase() === 'true';
+  config.previewFile = process.env.PREVIEW_FILE?.trim()
+    || (previewFormat === 'html' ? OPTIONAL_ENV_VARS.HTML_PREVIEW_FILE : undefined);
+  if (config.dryRun) {
+    logger.info(`Dry run: rendering ${previewFormat} preview to ${config.previewFile ?? 'stdout'}, nothing will be delivered`);
+  }
+  const destinationMissingVars = config.dryRun ? [] : missingVars;
+
+  // Machine-readable export of the digest, written alongside delivery
+  const digestExport = parseExportSettings();
+  if (digestExport) {
+    config.exportFormat = digestExport.format;
+    config.exportFile = digestExport.file;
+    logger.info(`Digest export configured: ${digestExport.format} to ${digestExport.file}`);
+  }
+
+  // A Slack bot token posts the digest as a thread; SLACK_WEBHOOK_URL is then optional
+  const slackBot = parseSlackBotDelivery();
+  if (slackBot) {
+    config.slackBotToken = slackBot.token;
+    config.slackChannel = slackBot.channel;
+    logger.info(`Slack bot token delivery configured for channel ${slackBot.channel}`);
+  }
+  config.slackThreadsFile = process.env.SLACK_THREADS_FILE?.trim() || OPTIONAL_ENV_VARS.SLACK_THREADS_FILE;
+
+  // Notifier retries and Microsoft Teams delivery
+  config.slackRetry = parseRetryConfig('SLACK_RETRY_ATTEMPTS', OPTIONAL_ENV_VARS.SLACK_RETRY_ATTEMPTS);
+  config.teamsRetry = parseRetryConfig('TEAMS_RETRY_ATTEMPTS', OPTIONAL_ENV_VARS.TEAMS_RETRY_ATTEMPTS);
+  if (config.notifiers.includes('teams')) {
+    const teamsWebhookUrl = process.env.TEAMS_WEBHOOK_URL?.trim();
+    if (!teamsWebhookUrl) {
+      destinationMissingVars.push('TEAMS_WEBHOOK_URL');
+    } else {
+      validateTeamsWebhookUrl(teamsWebhookUrl);
+      config.teamsWebhookUrl = teamsWebhookUrl;
+    }
+  }
+
+  // Email digest delivery
+  config.emailRetry = parseRetryConfig('EMAIL_RETRY_ATTEMPTS', OPTIONAL_ENV_VARS.EMAIL_RETRY_ATTEMPTS);
+  if (config.notifiers.includes('email')) {
+    config.email = parseEmailSettings(destinationMissingVars);
+    if (config.email) {
+      logger.info(`Email delivery configured via ${config.email.smtp.host}:${config.email.smtp.port} for ${config.email.recipients.length} recipient(s)`);
+    }
+  }
+
+  // Discord and generic JSON webhook delivery
+  config.discordRetry = parseRetryConfig('DISCORD_RETRY_ATTEMPTS', OPTIONAL_ENV_VARS.DISCORD_RETRY_ATTEMPTS);
+  if (config.notifiers.includes('discord')) {
+    const discordWebhookUrl = process.env.DISCORD_WEBHOOK_URL?.trim();
+    if (!discordWebhookUrl) {
+      destinationMissingVars.push('DISCORD_WEBHOOK_URL');
+    } else {
+      validateDiscordWebhookUrl(discordWebhookUrl);
+      config.discordWebhookUrl = discordWebhookUrl;
+    }
+  }
+  config.jsonWebhookRetry = parseRetryConfig('JSON_WEBHOOK_RETRY_ATTEMPTS', OPTIONAL_ENV_VARS.JSON_WEBHOOK_RETRY_ATTEMPTS);
+  if (config.notifiers.includes('webhook')) {
+    const jsonWebhookUrl = process.env.JSON_WEBHOOK_URL?.trim();
+    if (!jsonWebhookUrl) {
+      destinationMissingVars.push('JSON_WEBHOOK_URL');
+    } else {
+      validateJsonWebhookUrl(jsonWebhookUrl);
+      config.jsonWebhookUrl = jsonWebhookUrl;
+      config.jsonWebhookSecret = process.env.JSON_WEBHOOK_SECRET || undefined;
+      if (!config.jsonWebhookSecret) {
+        logger.warn('JSON_WEBHOOK_SECRET is not set; the digest document will be posted unsigned');
+      }
+    }
+  }
+
+  // Atom/RSS release feed
+  if (config.notifiers.includes('feed')) {
+    config.feed = parseFeedSettings();
+    logger.info(`Release feed configured: ${[config.feed.file, config.feed.rssFile].filter(Boolean).join(', ')} (at most ${config.feed.maxEntries} entries)`);
+  }
+
+  // Slack size limits (longer messages are split into parts)
+  config.slackMessageLimits = {
+    maxTextLength: parseSlackLimit('SLACK_MAX_TEXT_LENGTH', process.env.SLACK_MAX_TEXT_LENGTH?.trim() || OPTIONAL_ENV_VARS.SLACK_MAX_TEXT_LENGTH, SLACK_TEXT_LENGTH_RANGE),
+    maxBlocks: parseSlackLimit('SLACK_MAX_BLOCKS', process.env.SLACK_MAX_BLOCKS?.trim() || OPTIONAL_ENV_VARS.SLACK_MAX_BLOCKS, SLACK_BLOCKS_RANGE)
+  };
+  if (process.env.SLACK_DESTINATION_LIMITS?.trim()) {
+    config.slackDestinationLimits = parseSlackDestinationLimits(process.env.SLACK_DESTINATION_LIMITS);
+    logger.info(`Slack size limits configured for: ${Object.keys(config.slackDestinationLimits).join(', ')}`);
+  }
+
+  // Delivery ledger (reruns skip digests that were already delivered unless forced)
+  config.deliveryLedgerFile = process.env.DELIVERY_LEDGER_FILE?.trim() || OPTIONAL_ENV_VARS.DELIVERY_LEDGER_FILE;
+  config.forceDelivery = process.env.FORCE_DELIVERY?.trim().toLowerCase() === 'true';
+  if (config.forceDelivery) {
+    logger.info('Forcing delivery: the delivery ledger is ignored');
+  }
+
   // Validate required environment variables
   for (const envVar of REQUIRED_ENV_VARS) {
     const value = process.env[envVar];
     if (!value?.trim()) {
+      if (envVar === 'TOKEN_GITHUB' && config.githubApp) {
+        continue;
+      }
+      if (envVar === 'SLACK_WEBHOOK_URL' && (config.slackBotToken || !config.notifiers.includes('slack') || config.dryRun)) {
+        continue;
+      }
       missingVars.push(envVar);
     } else {
       // Map environment variable names to config property names
@@ -113,8 +846,11 @@ export function getConfig(): Config {
           validateSlackWebhookUrl(value.trim());
           break;
         case 'ORG_NAME':
-          config.orgName = value.trim();
-          validateOrgName(value.trim());
+          config.orgNames = parseOrgNames(value);
+          if (config.orgNames.length === 0) {
+            missingVars.push(envVar);
+          }
+          [config.orgName] = config.orgNames;
           break;
         default:
           // This should never happen since we only process known env vars
@@ -124,6 +860,12 @@ export function getConfig(): Config {
     }
   }
 
+  // Handle GitHub Enterprise Server API URL (optional - defaults to api.github.com)
+  if (process.env.GITHUB_API_URL?.trim()) {
+    config.githubApiUrl = validateGitHubApiUrl(process.env.GITHUB_API_URL.trim());
+    logger.info(`GitHub API URL configured: ${config.githubApiUrl}`);
+  }
+
   // Add optional environment variables with defaults
   config.nodeEnv = process.env.NODE_ENV?.trim() || OPTIONAL_ENV_VARS.NODE_ENV;
   config.logLevel = process.env.LOG_LEVEL?.trim() || OPTIONAL_ENV_VARS.LOG_LEVEL;
@@ -140,8 +882,21 @@ export function getConfig(): Config {
     logger.info('OpenRouter API key configured for AI summarization (fallback)');
   }
 
+  // Handle Gemini API key (optional - AI provider)
+  if (process.env.GEMINI_API_KEY?.trim()) {
+    config.geminiApiKey = process.env.GEMINI_API_KEY.trim();
+    logger.info('Gemini API key configured for AI summarization');
+  }
+
+  // Handle local OpenAI-compatible server (optional - AI provider that keeps release notes in the network)
+  if (process.env.LOCAL_AI_BASE_URL?.trim()) {
+    config.localAiBaseUrl = validateLocalAiBaseUrl(process.env.LOCAL_AI_BASE_URL.trim());
+    config.localAiModel = process.env.LOCAL_AI_MODEL?.trim() || OPTIONAL_ENV_VARS.LOCAL_AI_MODEL;
+    logger.info(`Local AI server configured: ${config.localAiBaseUrl} (model ${config.localAiModel})`);
+  }
+
   // Log AI provider status
-  if (!config.anthropicApiKey && !config.openRouterApiKey) {
+  if (!config.anthropicApiKey && !config.openRouterApiKey && !config.geminiApiKey && !config.localAiBaseUrl) {
     logger.warn('No AI API keys provided - AI summarization will be disabled');
   }
 
@@ -163,6 +918,57 @@ export function getConfig(): Config {
     logger.info(`Using default Anthropic model: ${config.anthropicModel}`);
   }
 
+  // Handle Gemini model configuration (optional)
+  config.geminiModel = process.env.GEMINI_MODEL?.trim() || OPTIONAL_ENV_VARS.GEMINI_MODEL;
+  if (config.geminiApiKey) {
+    logger.info(`Gemini model configured: ${config.geminiModel}`);
+  }
+
+  // Handle AI provider chain (optional - provider names are checked against the registry at startup)
+  config.aiProviders = (process.env.AI_PROVIDERS?.trim() || OPTIONAL_ENV_VARS.AI_PROVIDERS)
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+  if (config.aiProviders.length === 0) {
+    throw new Error('Invalid AI_PROVIDERS: must list at least one provider');
+  }
+  logger.info(`AI provider chain: ${config.aiProviders.join(' -> ')}`);
+  if (process.env.AI_REPOSITORY_PROVIDERS?.trim()) {
+    config.aiRepositoryProviders = parseRepositoryProviders(process.env.AI_REPOSITORY_PROVIDERS);
+    logger.info(`AI repository providers: ${Object.entries(config.aiRepositoryProviders).map(([pattern, entry]) => `${pattern} -> ${entry}`).join(', ')}`);
+  }
+
+  // AI summary cache (summaries of identical release notes are reused until they expire)
+  config.summaryCache = parseSummaryCacheSettings();
+  if (config.summaryCache) {
+    logger.info(`Summary cache: ${config.summaryCache.file} (${config.summaryCache.ttlDays} day TTL, at most ${config.summaryCache.maxEntries} entries)`);
+  } else {
+    logger.info('Summary cache disabled: every release description is summarized again');
+  }
+
+  // Handle data source order (optional)
+  config.dataSourceOrder = validateDataSourceOrder(
+    process.env.DATA_SOURCE_ORDER?.trim().toLowerCase() || OPTIONAL_ENV_VARS.DATA_SOURCE_ORDER
+  );
+  logger.info(`Data source order: ${config.dataSourceOrder}`);
+
+  // Parse explicit release source chain (optional - overrides DATA_SOURCE_ORDER)
+  if (process.env.RELEASE_SOURCES?.trim()) {
+    config.releaseSources = process.env.RELEASE_SOURCES
+      .split(',')
+      .map(source => source.trim().toLowerCase())
+      .filter(source => source.length > 0);
+
+    if (config.releaseSources.length > 0) {
+      logger.info(`Release source chain: ${config.releaseSources.join(' -> ')}`);
+    }
+  }
+
+  // Handle date range policy and chunk size (optional)
+  config.maxDateRangeDays = getMaxDateRangeDays();
+  config.fetchChunkDays = parsePositiveDays('FETCH_CHUNK_DAYS', OPTIONAL_ENV_VARS.FETCH_CHUNK_DAYS);
+  logger.info(`Maximum date range: ${config.maxDateRangeDays} days (fetched in ${config.fetchChunkDays}-day chunks)`);
+
   // Parse timeframe configuration
   let timeframe: Config['timeframe'];
 
@@ -178,7 +984,7 @@ export function getConfig(): Config {
     return d;
   };
 
-  // If both explicit dates are provided use them (Release class also validates window <= 7 days)
+  // If both explicit dates are provided use them (Release class validates the window against MAX_DATE_RANGE_DAYS)
   if (startDateEnv && endDateEnv) {
     const start = parseISODate(startDateEnv);
     const end = parseISODate(endDateEnv);
@@ -234,6 +1040,59 @@ export function getConfig(): Config {
     }
   }
 
+  // Parse topic-based repository selection (optional)
+  if (process.env.REPOSITORY_TOPICS?.trim()) {
+    config.repositoryTopics = process.env.REPOSITORY_TOPICS
+      .split(',')
+      .map(topic => topic.trim().toLowerCase())
+      .filter(topic => topic.length > 0);
+    logger.info(`Repository topic filter: ${config.repositoryTopics.join(', ')}`);
+  }
+
+  // Parse custom property repository selection (optional)
+  if (process.env.REPOSITORY_PROPERTIES?.trim()) {
+    config.repositoryProperties = parseRepositoryProperties(process.env.REPOSITORY_PROPERTIES);
+    logger.info(`Repository property filter: ${Object.entries(config.repositoryProperties).map(([name, value]) => `${name}=${value}`).join(', ')}`);
+  }
+
+  // Parse archived / fork skipping (optional - both default to false)
+  config.skipArchived = process.env.SKIP_ARCHIVED?.trim().toLowerCase() === 'true';
+  config.skipForks = process.env.SKIP_FORKS?.trim().toLowerCase() === 'true';
+  if (config.skipArchived || config.skipForks) {
+    logger.info(`Skipping repositories: archived=${config.skipArchived}, forks=${config.skipForks}`);
+  }
+
+  // Parse Slack message format (optional - defaults to Block Kit)
+  const messageFormat = (process.env.SLACK_MESSAGE_FORMAT?.trim().toLowerCase() || OPTIONAL_ENV_VARS.SLACK_MESSAGE_FORMAT) as SlackMessageFormat;
+  if (!SLACK_MESSAGE_FORMATS.includes(messageFormat)) {
+    throw new Error(`Invalid SLACK_MESSAGE_FORMAT: ${messageFormat}. Must be one of: ${SLACK_MESSAGE_FORMATS.join(', ')}`);
+  }
+  config.slackMessageFormat = messageFormat;
+
+  // Parse message templates directory (optional - templates are loaded and validated at startup)
+  config.messageTemplatesDir = process.env.MESSAGE_TEMPLATES_DIR?.trim() || undefined;
+  if (config.messageTemplatesDir) {
+    logger.info(`Message templates directory: ${config.messageTemplatesDir}`);
+  }
+
+  // Parse team ownership configuration (optional)
+  if (process.env.TEAM_OWNERSHIP_SOURCE?.trim()) {
+    const source = process.env.TEAM_OWNERSHIP_SOURCE.trim().toLowerCase() as TeamOwnershipSource;
+    if (!TEAM_OWNERSHIP_SOURCES.includes(source)) {
+      throw new Error(`Invalid TEAM_OWNERSHIP_SOURCE: ${source}. Must be one of: ${TEAM_OWNERSHIP_SOURCES.join(', ')}`);
+    }
+    config.teamOwnershipSource = source;
+    config.teamsFile = process.env.TEAMS_FILE?.trim() || undefined;
+    if (source === 'file' && !config.teamsFile) {
+      throw new Error('TEAMS_FILE is required when TEAM_OWNERSHIP_SOURCE is file');
+    }
+    logger.info(`Team ownership source: ${source}`);
+  }
+  if (process.env.TEAM_WEBHOOKS?.trim()) {
+    config.teamWebhooks = parseTeamWebhooks(process.env.TEAM_WEBHOOKS);
+    logger.info(`Team webhooks configured for: ${Object.keys(config.teamWebhooks).join(', ')}`);
+  }
+
   // Parse include descriptions configuration (optional)
   if (process.env.INCLUDE_DESCRIPTIONS) {
     config.includeDescriptions = process.env.INCLUDE_DESCRIPTIONS.toLowerCase() === 'true';
@@ -247,7 +1106,7 @@ export function getConfig(): Config {
     throw new Error(errorMsg);
   }
 
-  logger.info(`Configuration loaded successfully for organization: ${config.orgName}`);
+  logger.info(`Configuration loaded successfully for organization(s): ${config.orgNames.join(', ')}`);
 
   // Log timeframe configuration
   let timeframeText: string;
@@ -0,0 +1,45 @@
+/**
+ * Registry of factories keyed by case-insensitive name
+ * Shared by the release source, notifier and summary provider registries
+ */
+export class Registry<TFactory extends (...args: any[]) => unknown> {
+  private readonly factories = new Map<string, TFactory>();
+
+  /**
+   * @param kind - What the registry holds, in error messages, e.g. "notifier"
+   * @param plural - Plural used when listing registered names, e.g. "notifiers"
+   */
+  constructor(private readonly kind: string, private readonly plural: string) {}
+
+  /**
+   * Register a factory under a name
+   * @throws {Error} If a factory is already registered under the name
+   */
+  register(name: string, factory: TFactory): void {
+    const key = name.trim().toLowerCase();
+    if (this.factories.has(key)) {
+      throw new Error(`${this.kind.charAt(0).toUpperCase()}${this.kind.slice(1)} already registered: ${key}`);
+    }
+    this.factories.set(key, factory);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name.trim().toLowerCase());
+  }
+
+  names(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Create the instance registered under a name
+   * @throws {Error} If nothing is registered under the name
+   */
+  create(name: string, ...args: Parameters<TFactory>): ReturnType<TFactory> {
+    const factory = this.factories.get(name.trim().toLowerCase());
+    if (!factory) {
+      throw new Error(`Unknown ${this.kind}: ${name}. Registered ${this.plural}: ${this.names().join(', ')}`);
+    }
+    return factory(...args) as ReturnType<TFactory>;
+  }
+}
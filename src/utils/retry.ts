@@ -0,0 +1,58 @@
+import { RetryConfig } from '../types';
+import { logger } from './logger';
+
+/**
+ * Error from an HTTP delivery attempt; status is undefined when the request never got a response
+ */
+export interface DeliveryError extends Error {
+  status?: number;
+}
+
+/**
+ * Create a delivery error carrying the HTTP status of the failed response
+ */
+export function deliveryError(message: string, status: number): DeliveryError {
+  const error: DeliveryError = new Error(message);
+  error.status = status;
+  return error;
+}
+
+/**
+ * Network failures, rate limiting (429) and server errors (5xx) are worth retrying; other client errors are not
+ */
+export function isRetryableDeliveryError(error: DeliveryError): boolean {
+  return error.status === undefined || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Execute an operation with exponential backoff retry
+ * @param operation - Operation to execute
+ * @param operationName - Name used in log messages
+ * @param config - Attempts (maxRetries) and delays; maxRetries of 1 disables retrying
+ * @param isRetryable - Decides whether a failure is retried
+ * @throws The last error when every attempt failed or the error is not retryable
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  operationName: string,
+  config: RetryConfig,
+  isRetryable: (error: DeliveryError) => boolean = isRetryableDeliveryError
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const lastError = error as DeliveryError;
+      if (attempt >= config.maxRetries || !isRetryable(lastError)) {
+        throw lastError;
+      }
+
+      const delay = Math.min(config.baseDelay * 2 ** (attempt - 1), config.maxDelay);
+      logger.warn(`⚠️  ${operationName} failed (attempt ${attempt}/${config.maxRetries}): ${lastError.message}`);
+      logger.info(`🔄 Retrying in ${delay}ms...`);
+      await new Promise(resolve => {
+        setTimeout(resolve, delay);
+      });
+    }
+  }
+}
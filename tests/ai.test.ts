@@ -5,7 +5,7 @@ import path from 'path';
 
 // Store original environment variables
 let originalEnv: NodeJS.ProcessEnv;
-const openRouterModuleId = require.resolve('../src/AI/open-router');
+const summarizerModuleId = require.resolve('../src/AI/summarizer');
 
 test.before.each(() => {
     // Store original environment
@@ -19,19 +19,19 @@ test.before.each(() => {
     delete process.env.AI_MODEL;
 
     // Purge module cache so each test re-evaluates the module with current env
-    delete require.cache[openRouterModuleId];
+    delete require.cache[summarizerModuleId];
 });
 
 test.after.each(() => {
     // Restore original environment
     process.env = originalEnv;
     // Purge cache to avoid leaked state between files
-    delete require.cache[openRouterModuleId];
+    delete require.cache[summarizerModuleId];
 });
 
 test('AI Model Fallback › should return original text when no API key is provided', async () => {
     // Import the module
-    const { summarizeText } = await import('../src/AI/open-router');
+    const { summarizeText } = await import('../src/AI/summarizer');
 
     const originalText = 'This is a test text that should be returned unchanged';
     const result = await summarizeText(originalText);
@@ -105,7 +105,7 @@ test('AI Model Fallback › should handle missing models.json gracefully', async
         fs.unlinkSync(modelsPath);
 
         // Import the module - it should handle missing file gracefully
-        const { summarizeText } = await import('../src/AI/open-router');
+        const { summarizeText } = await import('../src/AI/summarizer');
 
         // Should still work (return original text when no API key)
         const originalText = 'Test text';
@@ -134,7 +134,7 @@ test('AI Model Fallback › should handle invalid models.json gracefully', async
         fs.writeFileSync(modelsPath, '{"invalid": "json"', 'utf-8');
 
         // Import the module - it should handle invalid JSON gracefully
-        const { summarizeText } = await import('../src/AI/open-router');
+        const { summarizeText } = await import('../src/AI/summarizer');
 
         // Should still work (return original text when no API key)
         const originalText = 'Test text';
@@ -163,7 +163,7 @@ test('AI Model Fallback › should handle missing instructions.md gracefully', a
         fs.unlinkSync(instructionsPath);
 
         // Import the module - it should handle missing file gracefully
-        const { summarizeText } = await import('../src/AI/open-router');
+        const { summarizeText } = await import('../src/AI/summarizer');
 
         // Should still work (return original text when no API key)
         const originalText = 'Test text';
@@ -192,7 +192,7 @@ test('AI Model Fallback › should handle instructions.md without template varia
         fs.writeFileSync(instructionsPath, 'Invalid instructions without template variable', 'utf-8');
 
         // Import the module - it should handle invalid instructions gracefully
-        const { summarizeText } = await import('../src/AI/open-router');
+        const { summarizeText } = await import('../src/AI/summarizer');
 
         // Should still work (return original text when no API key)
         const originalText = 'Test text';
@@ -227,6 +227,123 @@ test('parseCliArguments › should throw error for zero hours', () => {
   }
 });
 
+test('parseCliArguments › should accept a biweekly days window', () => {
+  process.argv = ['node', 'script.js', '--days', '14'];
+
+  const result = parseCliArguments();
+
+  assert.equal(result.timeframe?.type, 'days');
+  assert.equal(result.timeframe?.value, 14);
+});
+
+test('parseCliArguments › should throw error when days exceed MAX_DATE_RANGE_DAYS', () => {
+  process.env.MAX_DATE_RANGE_DAYS = '30';
+  process.argv = ['node', 'script.js', '--days', '31'];
+
+  try {
+    parseCliArguments();
+    assert.unreachable('should have thrown an error');
+  } catch (error: any) {
+    assert.instance(error, Error);
+    assert.match(error.message, 'Days cannot exceed 30, got: 31');
+  }
+});
+
+test('parseCliArguments › should throw error when hours exceed MAX_DATE_RANGE_DAYS', () => {
+  process.env.MAX_DATE_RANGE_DAYS = '2';
+  process.argv = ['node', 'script.js', '--hours', '49'];
+
+  try {
+    parseCliArguments();
+    assert.unreachable('should have thrown an error');
+  } catch (error: any) {
+    assert.instance(error, Error);
+    assert.match(error.message, 'Hours cannot exceed 48 (2 days), got: 49');
+  }
+});
+
+test('parseCliArguments › should parse repository patterns, topics and skip flags', () => {
+  process.argv = ['node', 'script.js', '--repos', 'sdk-*,!*-archive', '--topics', 'sdk, cli', '--skip-archived', '--skip-forks'];
+
+  const result = parseCliArguments();
+
+  assert.equal(result.repositories, ['sdk-*', '!*-archive']);
+  assert.equal(result.topics, ['sdk', 'cli']);
+  assert.is(result.skipArchived, true);
+  assert.is(result.skipForks, true);
+});
+
+test('applyCliOverrides › should set environment variables for repository selection', () => {
+  applyCliOverrides({ topics: ['sdk'], skipArchived: true, skipForks: true });
+
+  assert.equal(process.env.REPOSITORY_TOPICS, 'sdk');
+  assert.equal(process.env.SKIP_ARCHIVED, 'true');
+  assert.equal(process.env.SKIP_FORKS, 'true');
+});
+
+test('parseCliArguments › should parse the force flag and apply it as FORCE_DELIVERY', () => {
+  process.argv = ['node', 'script.js', '--date', '2024-01-15', '--force'];
+
+  const result = parseCliArguments();
+  assert.is(result.force, true);
+
+  applyCliOverrides(result);
+  assert.is(process.env.FORCE_DELIVERY, 'true');
+  delete process.env.FORCE_DELIVERY;
+});
+
+test('parseCliArguments › should parse the no-cache flag and apply it as SUMMARY_CACHE', () => {
+  process.argv = ['node', 'script.js', '--days', '7', '--no-cache'];
+
+  const result = parseCliArguments();
+  assert.is(result.noCache, true);
+
+  applyCliOverrides(result);
+  assert.is(process.env.SUMMARY_CACHE, 'false');
+  delete process.env.SUMMARY_CACHE;
+});
+
+test('parseCliArguments › should parse dry-run and preview arguments', () => {
+  process.argv = ['node', 'script.js', '--preview', 'HTML', '--preview-file', 'review.html'];
+
+  const result = parseCliArguments();
+  assert.equal(result, { preview: 'html', dryRun: true, previewFile: 'review.html' });
+
+  applyCliOverrides(result);
+  assert.is(process.env.DRY_RUN, 'true');
+  assert.is(process.env.PREVIEW_FORMAT, 'html');
+  assert.is(process.env.PREVIEW_FILE, 'review.html');
+  delete process.env.DRY_RUN;
+  delete process.env.PREVIEW_FORMAT;
+  delete process.env.PREVIEW_FILE;
+});
+
+test('parseCliArguments › should throw error for unknown preview formats', () => {
+  process.argv = ['node', 'script.js', '--preview', 'pdf'];
+
+  assert.throws(() => parseCliArguments(), /Invalid preview format: pdf/);
+});
+
+test('parseCliArguments › should parse export arguments without implying a dry run', () => {
+  process.argv = ['node', 'script.js', '--output', 'MD', '--out-file', 'weekly.md'];
+
+  const result = parseCliArguments();
+  assert.equal(result, { output: 'md', outFile: 'weekly.md' });
+
+  applyCliOverrides(result);
+  assert.is(process.env.EXPORT_FORMAT, 'md');
+  assert.is(process.env.EXPORT_FILE, 'weekly.md');
+  assert.is(process.env.DRY_RUN, undefined);
+  delete process.env.EXPORT_FORMAT;
+  delete process.env.EXPORT_FILE;
+});
+
+test('parseCliArguments › should throw error for unknown output formats', () => {
+  process.argv = ['node', 'script.js', '--output', 'xml'];
+
+  assert.throws(() => parseCliArguments(), /Invalid output format: xml/);
+});
+
 test('environment variable test', () => {
   process.env.TEST_VAR = 'test_value';
   assert.equal(process.env.TEST_VAR, 'test_value');
@@ -0,0 +1,121 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DeliveryLedger,
+  JsonFileLedgerBackend,
+  deliveryKey,
+  webhookTarget
+} from '../src/core/delivery-ledger';
+import { DeliveryLedgerBackend, DeliveryRecord } from '../src/types';
+
+/**
+ * In-memory backend, standing in for any pluggable ledger storage
+ */
+class MemoryLedgerBackend implements DeliveryLedgerBackend {
+  records = new Map<string, DeliveryRecord>();
+
+  async get(key: string): Promise<DeliveryRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  async set(key: string, record: DeliveryRecord): Promise<void> {
+    this.records.set(key, record);
+  }
+}
+
+const config = {
+  orgName: 'acme',
+  orgNames: ['acme', 'acme-labs'],
+  timeframe: { type: 'hours' as const, value: 24 },
+  repositories: ['sdk-*'],
+  skipForks: true
+};
+
+test('DeliveryLedger › should return every message on first delivery and none on rerun', async () => {
+  const ledger = new DeliveryLedger(new MemoryLedgerBackend());
+  const messages = ['header', 'table'];
+
+  const pending = await ledger.pendingMessages('key', 'webhook:abc', messages);
+  for (const message of pending) {
+    await ledger.markDelivered('key', 'webhook:abc', message);
+  }
+
+  assert.equal(pending, messages);
+  assert.equal(await ledger.pendingMessages('key', 'webhook:abc', messages), []);
+  assert.ok(await ledger.isDelivered('key', messages));
+});
+
+test('DeliveryLedger › should resume an interrupted delivery after the last posted message', async () => {
+  const ledger = new DeliveryLedger(new MemoryLedgerBackend());
+  await ledger.pendingMessages('key', 'webhook:abc', ['header', 'table', 'details']);
+  await ledger.markDelivered('key', 'webhook:abc', 'header');
+
+  assert.equal(await ledger.pendingMessages('key', 'webhook:abc', ['header', 'table', 'details']), ['table', 'details']);
+  assert.not.ok(await ledger.isDelivered('key', ['header', 'table', 'details']));
+});
+
+test('DeliveryLedger › should not post delivered messages again when their content changed', async () => {
+  const ledger = new DeliveryLedger(new MemoryLedgerBackend());
+  await ledger.recordDelivery('key', 'webhook:abc', [{ text: 'header', blocks: [] }, 'summary A']);
+
+  assert.equal(await ledger.pendingMessages('key', 'webhook:abc', [{ text: 'header', blocks: [] }, 'summary B']), []);
+  assert.not.ok(await ledger.isDelivered('key', [{ text: 'header', blocks: [] }, 'summary B']));
+});
+
+test('DeliveryLedger › should deliver everything again when forced', async () => {
+  const backend = new MemoryLedgerBackend();
+  await new DeliveryLedger(backend).recordDelivery('key', 'webhook:abc', ['header', 'table']);
+
+  const ledger = new DeliveryLedger(backend, true);
+
+  assert.equal(await ledger.pendingMessages('key', 'webhook:abc', ['header', 'table']), ['header', 'table']);
+  assert.equal(backend.records.get('key')!.messageHashes, []);
+  assert.not.ok(await ledger.isDelivered('key', ['header', 'table']));
+});
+
+test('JsonFileLedgerBackend › should persist records across instances', async () => {
+  const path = join(mkdtempSync(join(tmpdir(), 'ledger-')), 'ledger.json');
+  await new DeliveryLedger(new JsonFileLedgerBackend(path)).recordDelivery('key', 'channel:C123', ['header']);
+
+  assert.ok(await new DeliveryLedger(new JsonFileLedgerBackend(path)).isDelivered('key', ['header']));
+  assert.is(JSON.parse(readFileSync(path, 'utf-8')).key.target, 'channel:C123');
+});
+
+test('deliveryKey › should combine organizations, timeframe, repository selection and target', () => {
+  const summaryConfig = {
+    timeframe: config.timeframe,
+    dateRange: { startDate: new Date('2024-01-14T08:00:00Z'), endDate: new Date('2024-01-15T08:00:00Z') }
+  };
+  const target = webhookTarget('https://hooks.slack.com/services/T000/B000/XXXX');
+  const key = deliveryKey(config, summaryConfig, target);
+
+  assert.match(key, /^acme,acme-labs\|24h@2024-01-14T08:00:00.000Z\.\.2024-01-15T08:00:00.000Z\|[0-9a-f]{12}\|webhook:[0-9a-f]{12}$/);
+  assert.not.match(key, 'hooks.slack.com');
+  assert.is.not(deliveryKey({ ...config, skipForks: false }, summaryConfig, target), key);
+  assert.ok(deliveryKey(config, summaryConfig, target, 'platform').includes('2024-01-15T08:00:00.000Z#platform'));
+});
+
+test('deliveryKey › should deliver every message of a later same-day --hours window', async () => {
+  const hourly = { ...config, timeframe: { type: 'hours' as const, value: 1 } };
+  const target = webhookTarget('https://hooks.slack.com/services/T000/B000/XXXX');
+  const firstKey = deliveryKey(hourly, {
+    timeframe: hourly.timeframe,
+    dateRange: { startDate: new Date('2024-01-15T08:00:00Z'), endDate: new Date('2024-01-15T09:00:00Z') }
+  }, target);
+  const secondKey = deliveryKey(hourly, {
+    timeframe: hourly.timeframe,
+    dateRange: { startDate: new Date('2024-01-15T09:00:00Z'), endDate: new Date('2024-01-15T10:00:00Z') }
+  }, target);
+  const ledger = new DeliveryLedger(new MemoryLedgerBackend());
+
+  assert.is.not(firstKey, secondKey);
+  for (const message of await ledger.pendingMessages(firstKey, target, ['header', 'v1.0.0'])) {
+    await ledger.markDelivered(firstKey, target, message);
+  }
+  assert.equal(await ledger.pendingMessages(secondKey, target, ['header', 'v1.1.0']), ['header', 'v1.1.0']);
+});
+
+test.run();
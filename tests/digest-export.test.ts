@@ -0,0 +1,97 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { createDigestExport, createReleaseSummaryStats, formatDigestExport } from '../src/core/digest-export';
+import { SummaryConfig } from '../src/types';
+import { createRelease } from './helpers/releases';
+
+const config: SummaryConfig = {
+  timeframe: { type: 'date', value: new Date('2024-01-15T00:00:00Z') },
+  dataSource: 'GitHub API'
+};
+
+const dateRange = {
+  startDate: new Date('2024-01-15T00:00:00.000Z'),
+  endDate: new Date('2024-01-15T23:59:59.999Z')
+};
+
+test('createReleaseSummaryStats › should count releases and report the fetched time range', () => {
+  const releases = [
+    createRelease('acme/api'),
+    createRelease('acme/api', { tagName: 'v1.1.0-rc.1', name: 'v1.1.0-rc.1', isPrerelease: true }),
+    createRelease('acme/web')
+  ];
+
+  assert.equal(createReleaseSummaryStats(releases, dateRange, 3), {
+    totalReleases: 3,
+    prereleases: 1,
+    stableReleases: 2,
+    repositoriesWithReleases: 2,
+    totalRepositoriesChecked: 3,
+    timeRange: { from: '2024-01-15T00:00:00.000Z', to: '2024-01-15T23:59:59.999Z', hours: 24 }
+  });
+});
+
+test('createDigestExport › should group repositories by owning team', async () => {
+  const releases = [
+    createRelease('acme/api', { teams: ['platform'] }),
+    createRelease('acme/web', { teams: ['frontend', 'platform'] }),
+    createRelease('acme/docs')
+  ];
+
+  const digestExport = await createDigestExport(releases, config, createReleaseSummaryStats(releases, dateRange), undefined, new Date('2024-01-16T08:00:00Z'));
+
+  assert.is(digestExport.generatedAt, '2024-01-16T08:00:00.000Z');
+  assert.is(digestExport.dateRange, '2024-01-15');
+  assert.equal(digestExport.repositories.map(repository => repository.name), ['api', 'web', 'docs']);
+  assert.equal(digestExport.teams, [
+    { name: 'platform', repositories: ['api', 'web'] },
+    { name: 'frontend', repositories: ['web'] },
+    { name: 'Unowned', repositories: ['docs'] }
+  ]);
+});
+
+test('formatDigestExport › should write one quoted CSV row per release', async () => {
+  const releases = [
+    createRelease('acme/api', { name: 'v1.0.0', author: 'Doe, "JD"' }),
+    createRelease('acme/web', { teams: ['frontend', 'platform'] })
+  ];
+  const digestExport = await createDigestExport(releases, config, createReleaseSummaryStats(releases, dateRange));
+
+  const rows = formatDigestExport(digestExport, 'csv').split('\r\n');
+
+  assert.is(rows[0], 'organization,repository,version,tag,name,published_at,prerelease,author,teams,url,summary');
+  assert.is(rows[1], 'acme,api,v1.0.0,v1.0.0,v1.0.0,2024-01-15T10:00:00Z,false,"Doe, ""JD""",,https://github.com/acme/api/releases/tag/v1.0.0,');
+  assert.is(rows[2], 'acme,web,v1.0.0,v1.0.0,v1.0.0,2024-01-15T10:00:00Z,false,octocat,frontend;platform,https://github.com/acme/web/releases/tag/v1.0.0,');
+  assert.is(rows[3], '');
+});
+
+test('formatDigestExport › should render stats, a linked release table and summaries as Markdown', async () => {
+  const releases = [
+    createRelease('acme/api'),
+    createRelease('acme/web', { name: 'v2.0.0-rc.1', isPrerelease: true })
+  ];
+  const summaries = new Map([['acme/api', { text: 'Adds streaming responses.', generated: true }]]);
+  const digestExport = await createDigestExport(releases, { ...config, includeDescriptions: true }, createReleaseSummaryStats(releases, dateRange, 5), summaries);
+
+  const markdown = formatDigestExport(digestExport, 'md');
+
+  assert.ok(markdown.startsWith('# Release Summary - 2024-01-15\n\nSource: GitHub API\n'));
+  assert.ok(markdown.includes('- **Releases:** 2 (1 stable, 1 pre-release)'));
+  assert.ok(markdown.includes('- **Repositories with releases:** 2 of 5 checked'));
+  assert.ok(markdown.includes('| Repository | Version | Published At | Author |'));
+  assert.ok(markdown.includes('| web | [v2.0.0-rc.1 (pre-release)](https://github.com/acme/web/releases/tag/v1.0.0) |'));
+  assert.ok(markdown.includes('## Summaries\n\n### api\n\nAdds streaming responses.'));
+});
+
+test('formatDigestExport › should serialize the export as JSON', async () => {
+  const digestExport = await createDigestExport([], config, createReleaseSummaryStats([], dateRange));
+
+  const parsed = JSON.parse(formatDigestExport(digestExport, 'json'));
+
+  assert.is(parsed.stats.totalReleases, 0);
+  assert.is(parsed.stats.timeRange.hours, 24);
+  assert.equal(parsed.repositories, []);
+  assert.ok(formatDigestExport(digestExport, 'md').includes('No releases found.'));
+});
+
+test.run();
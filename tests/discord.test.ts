@@ -0,0 +1,115 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { DiscordClient } from '../src/clients/discord-client';
+import { DeliveryLedger } from '../src/core/delivery-ledger';
+import { DISCORD_LIMITS, embedLength, formatReleaseEmbeds, packEmbeds } from '../src/core/discord-embeds';
+import { DiscordNotifier } from '../src/core/notifiers';
+import { DeliveryLedgerBackend, DeliveryRecord, DiscordEmbed, DiscordMessage, SummaryConfig } from '../src/types';
+import { createRelease } from './helpers/releases';
+
+class MemoryLedgerBackend implements DeliveryLedgerBackend {
+  records = new Map<string, DeliveryRecord>();
+
+  async get(key: string): Promise<DeliveryRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  async set(key: string, record: DeliveryRecord): Promise<void> {
+    this.records.set(key, record);
+  }
+}
+
+const config: SummaryConfig = {
+  timeframe: { type: 'date', value: new Date('2024-01-15T00:00:00Z') },
+  dataSource: 'GitHub API'
+};
+
+test('formatReleaseEmbeds › should render a header embed and one embed per repository', async () => {
+  const releases = [
+    createRelease('acme/api'),
+    createRelease('acme/web', { name: 'v2.0.0-rc.1', isPrerelease: true, teams: ['frontend'] })
+  ];
+
+  const messages = await formatReleaseEmbeds(releases, config);
+
+  assert.is(messages.length, 1);
+  const [header, api, web] = messages[0].embeds;
+  assert.is(header.title, '📊 Release Summary - 2024-01-15');
+  assert.is(header.description, '**2** releases • **1** stable • **1** pre-release • **2** repositories\nSource: GitHub API');
+  assert.is(api.title, 'api');
+  assert.is(api.url, 'https://github.com/acme/api/releases/tag/v1.0.0');
+  assert.equal(api.fields, [{
+    name: 'v1.0.0',
+    value: '[Release notes](https://github.com/acme/api/releases/tag/v1.0.0) • 2024-01-15 10:00 UTC',
+    inline: true
+  }]);
+  assert.is(web.fields![0].name, 'v2.0.0-rc.1 (pre-release)');
+  assert.equal(web.footer, { text: 'Teams: frontend' });
+  assert.is(api.description, undefined, 'no summaries without descriptions');
+});
+
+test('formatReleaseEmbeds › should cap fields per embed and report the hidden releases', async () => {
+  const releases = Array.from({ length: 30 }, (_, index) => createRelease('acme/api', { name: `v1.0.${index}` }));
+
+  const summaries = new Map([['acme/api', { text: 'Adds streaming responses.', generated: true }]]);
+  const [message] = await formatReleaseEmbeds(releases, { ...config, includeDescriptions: true }, summaries);
+  const fields = message.embeds[1].fields!;
+
+  assert.is(fields.length, DISCORD_LIMITS.fields);
+  assert.equal(fields.at(-1), { name: '…and 6 more', value: '6 older releases not shown', inline: false });
+  assert.ok(message.embeds[1].description!.startsWith('Adds streaming responses.'));
+});
+
+test('packEmbeds › should respect the embed count and character limits per message', () => {
+  const small: DiscordEmbed = { title: 'repo' };
+  const large: DiscordEmbed = { title: 'large', description: 'x'.repeat(4000) };
+
+  assert.equal(packEmbeds(Array(23).fill(small)).map(group => group.length), [10, 10, 3]);
+
+  const groups = packEmbeds([large, large, small]);
+  assert.equal(groups.map(group => group.length), [1, 2]);
+  groups.forEach(group => {
+    assert.ok(group.reduce((total, embed) => total + embedLength(embed), 0) <= DISCORD_LIMITS.charactersPerMessage);
+  });
+});
+
+test('DiscordNotifier › should post every message once and skip them on rerun', async () => {
+  const posted: DiscordMessage[] = [];
+  const client = { postMessage: async (message: DiscordMessage) => { posted.push(message); } } as DiscordClient;
+  const appConfig = {
+    orgName: 'acme',
+    timeframe: config.timeframe,
+    discordWebhookUrl: 'https://discord.com/api/webhooks/1/abc'
+  } as any;
+  const notifier = new DiscordNotifier(appConfig, new DeliveryLedger(new MemoryLedgerBackend()), client);
+  const digest = { releases: [createRelease('acme/api')], summaryConfig: config };
+
+  await notifier.deliver(digest);
+  await notifier.deliver(digest);
+
+  assert.is(posted.length, 1);
+  assert.is(posted[0].embeds.length, 2);
+});
+
+test('DiscordClient › should retry rate limiting and not retry client errors', async () => {
+  const statuses = [429, 204, 400];
+  let calls = 0;
+  const fetchFn = async () => {
+    const status = statuses[calls++];
+    return { ok: status < 300, status, statusText: '', text: async () => 'error' };
+  };
+  const client = new DiscordClient('https://discord.com/api/webhooks/1/abc', { maxRetries: 3, baseDelay: 0, maxDelay: 0 }, fetchFn as any);
+
+  await client.postMessage({ embeds: [] });
+  assert.is(calls, 2);
+
+  try {
+    await client.postMessage({ embeds: [] });
+    assert.unreachable('should have thrown an error');
+  } catch (error: any) {
+    assert.ok(error.message.includes('Failed to post to Discord'));
+    assert.is(calls, 3);
+  }
+});
+
+test.run();
@@ -0,0 +1,101 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { formatPreviewText, renderPreviews } from '../src/core/dry-run';
+import { formatPreviewHtml, mrkdwnToHtml } from '../src/core/preview-html';
+import { Digest, Notifier, NotifierName, NotifierPreview, RenderedMessage } from '../src/types';
+
+const digest: Digest = {
+  releases: [],
+  summaryConfig: { timeframe: { type: 'days', value: 7 } }
+};
+
+function fakeNotifier(name: NotifierName, label: string, messages: RenderedMessage[], error?: Error): Notifier {
+  return {
+    name,
+    label,
+    render: async () => {
+      if (error) {
+        throw error;
+      }
+      return messages;
+    },
+    deliver: async () => {
+      throw new Error('a dry run must not deliver');
+    }
+  };
+}
+
+test('renderPreviews › should render every notifier without delivering and report render failures', async () => {
+  const previews = await renderPreviews([
+    fakeNotifier('teams', 'Teams', [], new Error('card too large')),
+    fakeNotifier('slack', 'Slack', [{ target: 'webhook', content: 'header' }])
+  ], digest);
+
+  assert.equal(previews, [
+    { notifier: 'teams', label: 'Teams', messages: [], error: 'card too large' },
+    { notifier: 'slack', label: 'Slack', messages: [{ target: 'webhook', content: 'header' }] }
+  ]);
+});
+
+test('formatPreviewText › should list each message under a banner', () => {
+  const previews: NotifierPreview[] = [
+    {
+      notifier: 'slack',
+      label: 'Slack',
+      messages: [
+        { target: 'webhook', content: 'header' },
+        { target: 'team platform', content: { text: 'fallback', blocks: [] } }
+      ]
+    },
+    {
+      notifier: 'email',
+      label: 'Email',
+      messages: [{ target: 'cto@example.com', content: { subject: 'Digest', html: '<p>Hi</p>', text: 'Hi' } }]
+    }
+  ];
+
+  const output = formatPreviewText(previews);
+
+  assert.ok(output.includes('===== Slack → webhook (message 1/2) =====\nheader'));
+  assert.ok(output.includes('===== Slack → team platform (message 2/2) =====\n{\n  "text": "fallback"'));
+  assert.ok(output.includes('===== Email → cto@example.com (message 1/1) =====\nSubject: Digest\n\nHi'));
+});
+
+test('mrkdwnToHtml › should convert Slack formatting and escape HTML', () => {
+  assert.is(
+    mrkdwnToHtml(':bar_chart: *Release Summary* for <https://github.com/acme/api|api> & _more_'),
+    '📊 <strong>Release Summary</strong> for <a href="https://github.com/acme/api">api</a> &amp; <em>more</em>'
+  );
+  assert.is(mrkdwnToHtml('table:\n```\na | <b>\n```'), 'table:<br><pre><code>a | &lt;b&gt;\n</code></pre>');
+});
+
+test('formatPreviewHtml › should render Slack blocks as channel messages and other payloads as JSON', () => {
+  const previews: NotifierPreview[] = [
+    {
+      notifier: 'slack',
+      label: 'Slack',
+      messages: [{
+        target: 'webhook',
+        content: {
+          text: 'fallback',
+          blocks: [
+            { type: 'header', text: { type: 'plain_text', text: 'Release Summary' } },
+            { type: 'section', fields: [{ type: 'mrkdwn', text: '*Releases*\n2' }] },
+            { type: 'divider' }
+          ]
+        }
+      }]
+    },
+    { notifier: 'webhook', label: 'Webhook', messages: [{ target: 'webhook', content: { schemaVersion: 1 } }] }
+  ];
+
+  const html = formatPreviewHtml(previews, '7 days');
+
+  assert.ok(html.includes('<title>Preview - 7 days</title>'));
+  assert.ok(html.includes('<div class="block-header">Release Summary</div>'));
+  assert.ok(html.includes('<div class="fields"><div><strong>Releases</strong><br>2</div></div>'));
+  assert.ok(html.includes('<hr>'));
+  assert.ok(html.includes('<pre>{\n  &quot;schemaVersion&quot;: 1\n}</pre>'));
+});
+
+test.run();
@@ -0,0 +1,185 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { AddressInfo, createServer, Server } from 'net';
+import { deliverByEmail } from '../src/core/email';
+import { formatReleaseEmail, renderSubject } from '../src/core/email-format';
+import { DeliveryLedger } from '../src/core/delivery-ledger';
+import { DeliveryLedgerBackend, DeliveryRecord, EmailSettings, SummaryConfig } from '../src/types';
+import { createRelease } from './helpers/releases';
+
+class MemoryLedgerBackend implements DeliveryLedgerBackend {
+  records = new Map<string, DeliveryRecord>();
+
+  async get(key: string): Promise<DeliveryRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  async set(key: string, record: DeliveryRecord): Promise<void> {
+    this.records.set(key, record);
+  }
+}
+
+interface SinkMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * Minimal local SMTP sink recording every accepted message
+ * Recipients listed in rejected are refused with a permanent 550 reply
+ */
+function startSmtpSink(rejected: string[] = []): Promise<{ server: Server; port: number; mails: SinkMail[] }> {
+  const mails: SinkMail[] = [];
+  const server = createServer(socket => {
+    let buffer = '';
+    let current: SinkMail = { from: '', to: [], data: '' };
+    let inData = false;
+
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let newline = buffer.indexOf('\r\n');
+      while (newline >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        newline = buffer.indexOf('\r\n');
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            mails.push(current);
+            current = { from: '', to: [], data: '' };
+            socket.write('250 Queued\r\n');
+          } else {
+            current.data += `${line}\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 sink\r\n');
+        } else if (command === 'MAIL') {
+          current.from = line.replace(/^MAIL FROM:<([^>]*)>.*$/i, '$1');
+          socket.write('250 OK\r\n');
+        } else if (command === 'RCPT') {
+          const recipient = line.replace(/^RCPT TO:<([^>]*)>.*$/i, '$1');
+          if (rejected.includes(recipient)) {
+            socket.write('550 Mailbox unavailable\r\n');
+          } else {
+            current.to.push(recipient);
+            socket.write('250 OK\r\n');
+          }
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as AddressInfo).port, mails });
+    });
+  });
+}
+
+const config: SummaryConfig = {
+  timeframe: { type: 'date', value: new Date('2024-01-15T00:00:00Z') },
+  dataSource: 'GitHub API'
+};
+
+const noRetry = { maxRetries: 1, baseDelay: 0, maxDelay: 0 };
+
+function emailSettings(port: number, recipients: string[]): EmailSettings {
+  return {
+    smtp: { host: '127.0.0.1', port, secure: false },
+    from: 'Release Digest <digest@example.com>',
+    recipients,
+    subjectTemplate: 'Release Digest - {dateRange}'
+  };
+}
+
+test('formatReleaseEmail › should render the subject, stats and linked release table', async () => {
+  const releases = [
+    createRelease('acme/api'),
+    createRelease('acme/web', { name: 'v2.0.0-rc.1', isPrerelease: true })
+  ];
+
+  const email = await formatReleaseEmail(releases, config, undefined, '{releaseCount} releases for {dateRange}');
+
+  assert.is(email.subject, '2 releases for 2024-01-15');
+  assert.ok(email.html.includes('<meta name="viewport"'));
+  assert.ok(email.html.includes('@media only screen'));
+  assert.ok(email.html.includes('2 releases • 1 stable • 1 pre-release • 2 repositories'));
+  assert.ok(email.html.includes('<a href="https://github.com/acme/api/releases/tag/v1.0.0">v1.0.0</a>'));
+  assert.ok(email.html.includes('v2.0.0-rc.1</a> <span class="subtle">(pre-release)</span>'));
+  assert.ok(email.text.startsWith('Release Summary - 2024-01-15\nSource: GitHub API\n'));
+  assert.ok(email.text.includes('Summary: 2 releases • 1 stable • 1 pre-release • 2 repositories'));
+  assert.not.ok(email.text.includes('```'));
+});
+
+test('formatReleaseEmail › should escape HTML and include repository summaries', async () => {
+  const email = await formatReleaseEmail(
+    [createRelease('acme/<script>')],
+    { ...config, includeDescriptions: true },
+    new Map([['acme/<script>', { text: 'Fixes <b>rendering</b>.', generated: true }]])
+  );
+
+  assert.ok(email.html.includes('&lt;script&gt;'));
+  assert.not.ok(email.html.includes('<script>'));
+  assert.ok(email.html.includes('<h2>Summaries</h2>'));
+  assert.ok(email.html.includes('Fixes &lt;b&gt;rendering&lt;/b&gt;.'));
+  assert.ok(email.text.includes('Summaries\n\n<script>:\nFixes <b>rendering</b>.\n'));
+});
+
+test('renderSubject › should leave unknown placeholders untouched', () => {
+  assert.is(renderSubject('{dateRange} {unknown}', { dateRange: '7 days' }), '7 days {unknown}');
+});
+
+test('deliverByEmail › should send a multipart copy to each recipient and skip them on rerun', async () => {
+  const sink = await startSmtpSink();
+  try {
+    const ledger = new DeliveryLedger(new MemoryLedgerBackend());
+    const settings = emailSettings(sink.port, ['cto@example.com', 'vp@example.com']);
+    const email = await formatReleaseEmail([createRelease('acme/api')], config);
+
+    await deliverByEmail(email, settings, noRetry, ledger, target => `digest|${target}`);
+    await deliverByEmail(email, settings, noRetry, ledger, target => `digest|${target}`);
+
+    assert.is(sink.mails.length, 2);
+    assert.equal(sink.mails.map(mail => mail.to), [['cto@example.com'], ['vp@example.com']]);
+    assert.is(sink.mails[0].from, 'digest@example.com');
+    assert.ok(sink.mails[0].data.includes('Subject: Release Digest - 2024-01-15'));
+    assert.ok(sink.mails[0].data.includes('Content-Type: text/plain'));
+    assert.ok(sink.mails[0].data.includes('Content-Type: text/html'));
+  } finally {
+    sink.server.close();
+  }
+});
+
+test('deliverByEmail › should keep sending when one recipient is rejected', async () => {
+  const sink = await startSmtpSink(['gone@example.com']);
+  try {
+    const ledger = new DeliveryLedger(new MemoryLedgerBackend());
+    const settings = emailSettings(sink.port, ['gone@example.com', 'vp@example.com']);
+    const email = await formatReleaseEmail([createRelease('acme/api')], config);
+
+    await deliverByEmail(email, settings, noRetry, ledger, target => `digest|${target}`);
+    assert.unreachable('should have thrown an error');
+  } catch (error: any) {
+    assert.ok(error.message.includes('Email delivery failed for 1 of 2 recipients'));
+    assert.ok(error.message.includes('gone@example.com'));
+    assert.equal(sink.mails.map(mail => mail.to), [['vp@example.com']]);
+  } finally {
+    sink.server.close();
+  }
+});
+
+test.run();
@@ -0,0 +1,142 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createFeedEntries,
+  formatAtomFeed,
+  formatRssFeed,
+  mergeFeedEntries,
+  parseFeedEntries,
+  renderFeedFile
+} from '../src/core/feed';
+import { FeedNotifier } from '../src/core/notifiers';
+import { FeedEntry, FeedMetadata, ReleaseInfo, SummaryConfig } from '../src/types';
+
+const config: SummaryConfig = {
+  timeframe: { type: 'date', value: new Date('2024-01-15T00:00:00Z') }
+};
+
+const metadata: FeedMetadata = {
+  id: 'https://github.com/acme',
+  title: 'acme releases',
+  link: 'https://github.com/acme',
+  updated: '2024-01-16T08:00:00.000Z'
+};
+
+function createRelease(repository: string, tagName: string, overrides: Partial<ReleaseInfo> = {}): ReleaseInfo {
+  return {
+    repository,
+    organization: 'acme',
+    tagName,
+    name: tagName,
+    publishedAt: '2024-01-15T10:00:00Z',
+    description: '',
+    url: `https://github.com/${repository}/releases/tag/${tagName}`,
+    author: 'octocat',
+    isPrerelease: false,
+    ...overrides
+  };
+}
+
+function createEntry(id: string, published: string): FeedEntry {
+  return { id, title: id, link: id, published, author: 'octocat', categories: [] };
+}
+
+test('createFeedEntries › should create one entry per release with its summary and categories', () => {
+  const entries = createFeedEntries(
+    [createRelease('acme/api', 'v2.0.0-rc.1', { isPrerelease: true, teams: ['platform'] })],
+    new Map([['api', { text: 'Adds streaming & retries.', generated: true }]])
+  );
+
+  assert.equal(entries, [{
+    id: 'https://github.com/acme/api/releases/tag/v2.0.0-rc.1',
+    title: 'api v2.0.0-rc.1 (pre-release)',
+    link: 'https://github.com/acme/api/releases/tag/v2.0.0-rc.1',
+    published: '2024-01-15T10:00:00.000Z',
+    author: 'octocat',
+    summary: 'Adds streaming & retries.',
+    categories: ['api', 'platform', 'pre-release']
+  }]);
+});
+
+test('mergeFeedEntries › should replace entries by id, order newest first and cap the feed', () => {
+  const existing = [createEntry('a', '2024-01-10T00:00:00Z'), createEntry('b', '2024-01-12T00:00:00Z')];
+  const incoming = [{ ...createEntry('a', '2024-01-10T00:00:00Z'), summary: 'updated' }, createEntry('c', '2024-01-15T00:00:00Z')];
+
+  const merged = mergeFeedEntries(existing, incoming, 2);
+
+  assert.equal(merged.map(entry => entry.id), ['c', 'b']);
+  assert.equal(mergeFeedEntries(existing, incoming, 10).find(entry => entry.id === 'a')?.summary, 'updated');
+});
+
+test('formatAtomFeed › should escape content and read back the same entries', () => {
+  const entries = createFeedEntries(
+    [createRelease('acme/api', '1.10', { author: 'a<b>&c' })],
+    new Map([['api', { text: 'Fixes <script> & "quotes"', generated: true }]])
+  );
+
+  const xml = formatAtomFeed(metadata, entries);
+
+  assert.ok(xml.includes('<feed xmlns="http://www.w3.org/2005/Atom">'));
+  assert.ok(xml.includes('<summary>Fixes &lt;script&gt; &amp; &quot;quotes&quot;</summary>'));
+  assert.equal(parseFeedEntries(xml), entries);
+});
+
+test('formatRssFeed › should write RSS 2.0 items that read back the same entries', () => {
+  const entries = createFeedEntries([createRelease('acme/api', 'v1.0.0', { teams: ['platform'] })]);
+
+  const xml = formatRssFeed(metadata, entries);
+
+  assert.ok(xml.includes('<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">'));
+  assert.ok(xml.includes('<pubDate>Mon, 15 Jan 2024 10:00:00 GMT</pubDate>'));
+  assert.ok(xml.includes('<dc:creator>octocat</dc:creator>'));
+  assert.equal(parseFeedEntries(xml), entries);
+});
+
+test('renderFeedFile › should skip a malformed entry and keep the rest of the existing feed', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'feed-'));
+  const rssFile = join(directory, 'releases.xml');
+  const atomFile = join(directory, 'releases.atom');
+  const [kept, broken] = [createEntry('https://github.com/acme/api/releases/tag/v1.0.0', '2024-01-14T10:00:00.000Z'), createEntry('broken', '')];
+  writeFileSync(rssFile, formatRssFeed(metadata, [kept]).replace('</item>', '</item>\n<item><guid>broken</guid><pubDate>not a date</pubDate></item>'));
+  writeFileSync(atomFile, formatAtomFeed(metadata, [kept, broken]).replace(/<(published|updated)><\/\1>/g, ''));
+  const incoming = createFeedEntries([createRelease('acme/api', 'v1.1.0')]);
+
+  const rss = parseFeedEntries(renderFeedFile(rssFile, 'rss', metadata, incoming, 10));
+  const atom = parseFeedEntries(renderFeedFile(atomFile, 'atom', metadata, incoming, 10));
+
+  assert.equal(rss.map(entry => entry.id), [incoming[0].id, kept.id]);
+  assert.equal(atom.map(entry => entry.id), [incoming[0].id, kept.id]);
+});
+
+test('FeedNotifier › should accumulate entries across runs without duplicating reruns', async () => {
+  const directory = mkdtempSync(join(tmpdir(), 'feed-'));
+  const appConfig = {
+    orgNames: ['acme'],
+    feed: { file: join(directory, 'releases.atom'), rssFile: join(directory, 'releases.rss'), maxEntries: 2 }
+  } as any;
+  const notifier = new FeedNotifier(appConfig, () => new Date('2024-01-16T08:00:00Z'));
+
+  await notifier.deliver({ releases: [createRelease('acme/api', 'v1.0.0')], summaryConfig: config });
+  await notifier.deliver({ releases: [createRelease('acme/api', 'v1.0.0')], summaryConfig: config });
+  await notifier.deliver({
+    releases: [
+      createRelease('acme/web', 'v2.0.0', { publishedAt: '2024-01-16T07:00:00Z' }),
+      createRelease('acme/cli', 'v0.1.0', { publishedAt: '2024-01-14T07:00:00Z' })
+    ],
+    summaryConfig: config
+  });
+
+  const atom = parseFeedEntries(readFileSync(join(directory, 'releases.atom'), 'utf-8'));
+  const rss = parseFeedEntries(readFileSync(join(directory, 'releases.rss'), 'utf-8'));
+  assert.equal(atom.map(entry => entry.title), ['web v2.0.0', 'api v1.0.0']);
+  assert.equal(rss, atom);
+
+  const [message] = await notifier.render({ releases: [], summaryConfig: config });
+  assert.is(message.target, join(directory, 'releases.atom'));
+  assert.ok((message.content as string).includes('<title>acme releases</title>'));
+});
+
+test.run();
@@ -0,0 +1,137 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { generateKeyPairSync, createVerify } from 'crypto';
+import { FALLBACK_BACKOFF_MS, GitHubAppTokenProvider, TOKEN_REFRESH_MARGIN_MS } from '../src/clients/github-app-auth';
+import { GitHubAppCredentials } from '../src/types';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const credentials: GitHubAppCredentials = {
+  appId: '12345',
+  privateKey,
+  installationId: '67890',
+};
+
+function mockFetch(responses: Array<{ token: string; expiresInMs: number } | Error>) {
+  const calls: Array<{ url: string; init: any }> = [];
+  const fetchFn = (async (url: string, init: any) => {
+    calls.push({ url, init });
+    const next = responses.shift();
+    if (!next || next instanceof Error) {
+      return {
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        text: async () => (next as Error)?.message ?? 'no response',
+      };
+    }
+    return {
+      ok: true,
+      status: 201,
+      statusText: 'Created',
+      json: async () => ({ token: next.token, expires_at: new Date(Date.now() + next.expiresInMs).toISOString() }),
+    };
+  }) as any;
+  return { fetchFn, calls };
+}
+
+test('GitHubAppTokenProvider › createAppJwt › should sign a verifiable RS256 JWT issued by the app', () => {
+  const provider = new GitHubAppTokenProvider(credentials);
+  const now = new Date('2024-01-01T00:00:00Z');
+  const [header, payload, signature] = provider.createAppJwt(now).split('.');
+
+  const verifier = createVerify('RSA-SHA256');
+  verifier.update(`${header}.${payload}`);
+  assert.ok(verifier.verify(publicKey, Buffer.from(signature, 'base64url')));
+
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  assert.equal(claims.iss, '12345');
+  assert.equal(claims.iat, now.getTime() / 1000 - 60);
+  assert.equal(claims.exp - claims.iat, 600);
+});
+
+test('GitHubAppTokenProvider › getToken › should mint an installation token against the configured API URL', async () => {
+  const { fetchFn, calls } = mockFetch([{ token: 'ghs_first', expiresInMs: 60 * 60 * 1000 }]);
+  const provider = new GitHubAppTokenProvider(credentials, 'https://github.example.com/api/v3/', undefined, fetchFn);
+
+  const token = await provider.getToken();
+
+  assert.equal(token, 'ghs_first');
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].url, 'https://github.example.com/api/v3/app/installations/67890/access_tokens');
+  assert.equal(calls[0].init.method, 'POST');
+  assert.ok(calls[0].init.headers.Authorization.startsWith('Bearer '));
+});
+
+test('GitHubAppTokenProvider › getToken › should reuse the cached token while it is valid', async () => {
+  const { fetchFn, calls } = mockFetch([{ token: 'ghs_first', expiresInMs: 60 * 60 * 1000 }]);
+  const provider = new GitHubAppTokenProvider(credentials, undefined, undefined, fetchFn);
+
+  await provider.getToken();
+  const token = await provider.getToken();
+
+  assert.equal(token, 'ghs_first');
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].url, 'https://api.github.com/app/installations/67890/access_tokens');
+});
+
+test('GitHubAppTokenProvider › getToken › should refresh a token about to expire', async () => {
+  const { fetchFn, calls } = mockFetch([
+    { token: 'ghs_expiring', expiresInMs: TOKEN_REFRESH_MARGIN_MS - 1000 },
+    { token: 'ghs_refreshed', expiresInMs: 60 * 60 * 1000 },
+  ]);
+  const provider = new GitHubAppTokenProvider(credentials, undefined, undefined, fetchFn);
+
+  assert.equal(await provider.getToken(), 'ghs_expiring');
+  assert.equal(await provider.getToken(), 'ghs_refreshed');
+  assert.equal(calls.length, 2);
+});
+
+test('GitHubAppTokenProvider › getToken › should fall back to the personal access token when minting fails', async () => {
+  const { fetchFn } = mockFetch([new Error('Bad credentials')]);
+  const provider = new GitHubAppTokenProvider(credentials, undefined, 'github_pat_fallback', fetchFn);
+
+  assert.equal(await provider.getToken(), 'github_pat_fallback');
+});
+
+test('GitHubAppTokenProvider › getToken › should reuse the fallback token until the backoff window passes', async () => {
+  const { fetchFn, calls } = mockFetch([
+    new Error('Bad credentials'),
+    { token: 'ghs_recovered', expiresInMs: 60 * 60 * 1000 },
+  ]);
+  const provider = new GitHubAppTokenProvider(credentials, undefined, 'github_pat_fallback', fetchFn);
+  const realNow = Date.now;
+
+  try {
+    assert.equal(await provider.getToken(), 'github_pat_fallback');
+    assert.equal(await provider.getToken(), 'github_pat_fallback');
+    assert.equal(calls.length, 1);
+
+    const later = realNow() + FALLBACK_BACKOFF_MS + 1000;
+    Date.now = () => later;
+    assert.equal(await provider.getToken(), 'ghs_recovered');
+    assert.equal(calls.length, 2);
+  } finally {
+    Date.now = realNow;
+  }
+});
+
+test('GitHubAppTokenProvider › getToken › should throw when minting fails without a fallback', async () => {
+  const { fetchFn } = mockFetch([new Error('Bad credentials')]);
+  const provider = new GitHubAppTokenProvider(credentials, undefined, undefined, fetchFn);
+
+  try {
+    await provider.getToken();
+    assert.unreachable('should have thrown an error');
+  } catch (error: any) {
+    assert.instance(error, Error);
+    assert.ok(error.message.includes('Failed to mint GitHub App installation token: 401'));
+    assert.ok(error.message.includes('Bad credentials'));
+  }
+});
+
+test.run();
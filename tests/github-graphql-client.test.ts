@@ -1,6 +1,6 @@
 import { test } from 'uvu';
 import * as assert from 'uvu/assert';
-import { GitHubGraphQLClient } from '../src/clients/github-graphql-client';
+import { GitHubGraphQLClient, RELEASES_PAGE_SIZE, REQUIRED_SCHEMA_FIELDS } from '../src/clients/github-graphql-client';
 import { OrganizationResponse, RepositoryQueryVariables } from '../src/types';
 
 test('GitHubGraphQLClient › constructor › should initialize with token and default graphql client', () => {
@@ -233,4 +233,81 @@ test('GitHubGraphQLClient › fetchRepositoriesPage › should propagate GraphQL
   }
 });
 
+test('GitHubGraphQLClient › fetchRepositoryReleasesPage › should request the next page after the cursor', async () => {
+  let calledWith: any = {};
+  const mockGraphql = async (query: string, variables: any) => {
+    calledWith = { query, variables };
+    return {
+      organization: {
+        repository: {
+          releases: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: []
+          }
+        }
+      }
+    };
+  };
+
+  const client = new GitHubGraphQLClient('test-token', mockGraphql);
+  const page = await client.fetchRepositoryReleasesPage('test-org', 'monorepo', 'cursor-10');
+
+  assert.equal(calledWith.variables, { orgName: 'test-org', repoName: 'monorepo', first: RELEASES_PAGE_SIZE, after: 'cursor-10' });
+  assert.ok(calledWith.query.includes('releases(first: $first, after: $after'));
+  assert.equal(page.pageInfo, { hasNextPage: false, endCursor: null });
+});
+
+test('GitHubGraphQLClient › fetchRepositoryReleasesPage › should throw when the repository is missing', async () => {
+  const mockGraphql = async () => ({ organization: { repository: null } });
+  const client = new GitHubGraphQLClient('test-token', mockGraphql);
+
+  try {
+    await client.fetchRepositoryReleasesPage('test-org', 'gone', 'cursor-10');
+    assert.unreachable('should have thrown an error');
+  } catch (error: any) {
+    assert.instance(error, Error);
+    assert.ok(error.message.includes("Repository 'test-org/gone' not found"));
+  }
+});
+
+test('GitHubGraphQLClient › findMissingSchemaFields › should return no fields for a compatible schema', async () => {
+  let receivedQuery = '';
+  const mockGraphql = async (query: string) => {
+    receivedQuery = query;
+    const response: any = {};
+    for (const [typeName, fields] of Object.entries(REQUIRED_SCHEMA_FIELDS)) {
+      response[typeName] = { fields: [...fields, 'extraField'].map(name => ({ name })) };
+    }
+    return response;
+  };
+
+  const client = new GitHubGraphQLClient('test-token', mockGraphql);
+  const missing = await client.findMissingSchemaFields();
+
+  assert.equal(missing, []);
+  assert.ok(receivedQuery.includes('Release: __type(name: "Release")'));
+});
+
+test('GitHubGraphQLClient › findMissingSchemaFields › should report fields an older enterprise schema lacks', async () => {
+  const mockGraphql = async () => {
+    const response: any = {};
+    for (const [typeName, fields] of Object.entries(REQUIRED_SCHEMA_FIELDS)) {
+      response[typeName] = { fields: fields.filter(name => name !== 'isPrerelease').map(name => ({ name })) };
+    }
+    response.PageInfo = null;
+    return response;
+  };
+
+  const client = new GitHubGraphQLClient('test-token', mockGraphql);
+  const missing = await client.findMissingSchemaFields();
+
+  assert.equal(missing, ['Release.isPrerelease', 'PageInfo.hasNextPage', 'PageInfo.endCursor']);
+});
+
+test('GitHubGraphQLClient › constructor › should accept an enterprise base URL', () => {
+  const client = new GitHubGraphQLClient('test-token', undefined, 'https://github.example.com/api/v3');
+
+  assert.type(client.getQuery(), 'string');
+});
+
 test.run();
@@ -0,0 +1,19 @@
+import { ReleaseInfo } from '../../src/types';
+
+/**
+ * Release fixture for the formatter and notifier tests: a stable v1.0.0 in the acme organization
+ */
+export function createRelease(repository: string, overrides: Partial<ReleaseInfo> = {}): ReleaseInfo {
+  return {
+    repository,
+    organization: 'acme',
+    tagName: 'v1.0.0',
+    name: 'v1.0.0',
+    publishedAt: '2024-01-15T10:00:00Z',
+    description: '',
+    url: `https://github.com/${repository}/releases/tag/v1.0.0`,
+    author: 'octocat',
+    isPrerelease: false,
+    ...overrides
+  };
+}
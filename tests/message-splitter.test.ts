@@ -0,0 +1,94 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import {
+  DEFAULT_SLACK_LIMITS,
+  resolveSlackLimits,
+  splitSlackMessage,
+  splitSlackMessages,
+  splitText
+} from '../src/core/message-splitter';
+import { createSummaryTable } from '../src/core/format';
+import { ReleaseInfo, SlackBlock, SlackMessage } from '../src/types';
+
+function createRelease(index: number): ReleaseInfo {
+  return {
+    repository: `acme/repository-${index}`,
+    organization: 'acme',
+    tagName: `v1.${index}.0`,
+    name: `v1.${index}.0`,
+    publishedAt: '2024-01-15T10:00:00Z',
+    description: '',
+    url: `https://github.com/acme/repository-${index}/releases/tag/v1.${index}.0`,
+    author: 'octocat',
+    isPrerelease: false
+  };
+}
+
+test('splitText › should return text within the limit unchanged', () => {
+  assert.equal(splitText('short message', 4000), ['short message']);
+});
+
+test('splitText › should split tables at row boundaries and keep code blocks closed', () => {
+  const table = createSummaryTable(Array.from({ length: 40 }, (_, index) => createRelease(index)));
+  const [header, separator] = table.split('\n').slice(1, 3);
+
+  const parts = splitText(table, 1500);
+
+  assert.ok(parts.length > 1);
+  parts.forEach((part, index) => {
+    assert.ok(part.length <= 1500, `part ${index + 1} is ${part.length} characters`);
+    assert.ok(part.startsWith('```\n'));
+    assert.ok(part.endsWith(`\`\`\`\n(part ${index + 1}/${parts.length})`));
+    assert.is(part.split('\n')[1], header, 'table header is repeated in every part');
+    assert.is(part.split('\n')[2], separator);
+    assert.is((part.match(/```/g) ?? []).length, 2);
+  });
+
+  const rows = parts.flatMap(part => part.split('\n').filter(line => line.startsWith('repository-')));
+  assert.is(rows.length, 40);
+});
+
+test('splitText › should hard-wrap single lines longer than the limit', () => {
+  const parts = splitText('x'.repeat(1000), 300);
+
+  assert.ok(parts.every(part => part.length <= 300));
+  assert.is(parts.map(part => part.split('\n')[0]).join(''), 'x'.repeat(1000));
+});
+
+test('splitSlackMessage › should split blocks after dividers and mark each part', () => {
+  const blocks: SlackBlock[] = [];
+  for (let index = 0; index < 10; index++) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `*repo-${index}*` } }, { type: 'context', elements: [] }, { type: 'divider' });
+  }
+  const message: SlackMessage = { text: 'Release Summary\nfallback table', blocks };
+
+  const parts = splitSlackMessage(message, { maxTextLength: 4000, maxBlocks: 8 }) as SlackMessage[];
+
+  assert.is(parts.length, 5);
+  parts.forEach((part, index) => {
+    assert.ok(part.blocks!.length <= 8);
+    assert.is(part.blocks!.at(-2)!.type, 'divider', 'parts end on a repository boundary');
+    assert.equal(part.blocks!.at(-1)!.elements, [{ type: 'mrkdwn', text: `_(part ${index + 1}/5)_` }]);
+  });
+  assert.is(parts[0].text, message.text);
+  assert.is(parts[1].text, 'Release Summary (part 2/5)');
+});
+
+test('splitSlackMessages › should leave messages within the limits unchanged', () => {
+  const messages = ['header', { text: 'fallback', blocks: [{ type: 'divider' }] }];
+
+  assert.equal(splitSlackMessages(messages, DEFAULT_SLACK_LIMITS), messages);
+});
+
+test('resolveSlackLimits › should apply destination limits over the configured defaults', () => {
+  const config = {
+    slackMessageLimits: { maxTextLength: 3000, maxBlocks: 50 },
+    slackDestinationLimits: { platform: { maxTextLength: 1000 } }
+  };
+
+  assert.equal(resolveSlackLimits(config, 'platform'), { maxTextLength: 1000, maxBlocks: 50 });
+  assert.equal(resolveSlackLimits(config, 'main'), { maxTextLength: 3000, maxBlocks: 50 });
+  assert.equal(resolveSlackLimits({}, 'main'), DEFAULT_SLACK_LIMITS);
+});
+
+test.run();
@@ -0,0 +1,128 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createSummaryDetails, createSummaryHeader, createSummaryTable } from '../src/core/format';
+import { createTemplateContext, loadMessageTemplates } from '../src/core/message-templates';
+import { ReleaseInfo, SummaryConfig } from '../src/types';
+
+const config: SummaryConfig = {
+  timeframe: { type: 'date', value: new Date('2024-01-15T00:00:00Z') }
+};
+
+function createRelease(repository: string, tagName: string, overrides: Partial<ReleaseInfo> = {}): ReleaseInfo {
+  return {
+    repository,
+    organization: repository.split('/')[0],
+    tagName,
+    name: tagName,
+    publishedAt: '2024-01-15T10:00:00Z',
+    description: '',
+    url: `https://github.com/${repository}/releases/tag/${tagName}`,
+    author: 'octocat',
+    isPrerelease: false,
+    ...overrides
+  };
+}
+
+function createTemplatesDirectory(files: Record<string, string>): string {
+  const directory = mkdtempSync(join(tmpdir(), 'message-templates-'));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(directory, name), content, 'utf-8');
+  }
+  return directory;
+}
+
+test('createSummaryHeader › should render the built-in header', () => {
+  const releases = [
+    createRelease('acme/api', 'v1.0.0'),
+    createRelease('acme/api', 'v1.1.0-rc.1', { isPrerelease: true }),
+    createRelease('octo/web', 'v2.0.0')
+  ];
+
+  assert.is(
+    createSummaryHeader(releases, { ...config, team: 'platform', dataSource: 'GitHub' }, ['api', 'web']),
+    ':bar_chart: RELEASE SUMMARY - 2024-01-15 - api, web - Team: platform\n\n'
+      + 'Summary: 3 releases • 2 stable • 1 pre-release • 2 repositories • 2 organizations\n'
+      + '  acme: 2 releases • 1 repositories\n'
+      + '  octo: 1 releases • 1 repositories\n'
+      + 'Source: GitHub'
+  );
+  assert.is(createSummaryHeader([], config), ':bar_chart: RELEASE SUMMARY: No releases found for 2024-01-15');
+});
+
+test('createSummaryDetails › should render one built-in details message per repository', () => {
+  const releases = [createRelease('acme/api', 'api@1.2.0'), createRelease('acme/web', 'v2.0.0')];
+  const summaries = new Map([
+    ['api', { text: 'Adds pagination.', generated: true }],
+    ['web', { text: '1 release with technical updates.', generated: false }]
+  ]);
+
+  assert.equal(createSummaryDetails(releases, summaries, config), [
+    '```\napi:\n\n'
+      + '                  | 1.2.0 | 2024-01-15 10:00 UTC | https://github.com/acme/api/releases/tag/api@1.2.0\n'
+      + '                  | Summary:\n'
+      + '                  | Adds pagination.\n'
+      + '```\n',
+    '```\nweb:\n\n'
+      + '                  | v2.0.0 | 2024-01-15 10:00 UTC | https://github.com/acme/web/releases/tag/v2.0.0\n'
+      + '                  | *Summary:*\n'
+      + '                  | 1 release with technical updates.\n'
+      + '```\n'
+  ]);
+});
+
+test('loadMessageTemplates › should use user templates and fall back to the built-in ones', () => {
+  const directory = createTemplatesDirectory({
+    'header.hbs': '*{{stats.releases}} releases* ({{dateRange.text}}){{#each teams}} [{{name}}]{{/each}}',
+    'table.hbs': '{{#each releases}}{{pad repository 6}}|{{version}}{{#if prerelease}} (pre){{/if}}\n{{/each}}'
+  });
+  const templates = loadMessageTemplates(directory);
+  const releases = [
+    createRelease('acme/api', 'v1.0.0', { teams: ['platform'] }),
+    createRelease('acme/web', 'v2.0.0-beta.1', { isPrerelease: true })
+  ];
+
+  assert.is(createSummaryHeader(releases, { ...config, templates }), '*2 releases* (2024-01-15) [platform] [Unowned]');
+  assert.is(createSummaryTable(releases, true, { templates }), 'api   |v1.0.0\nweb   |v2.0.0-beta.1 (pre)\n');
+  assert.equal(
+    createSummaryDetails(releases, new Map(), { ...config, templates }),
+    createSummaryDetails(releases, new Map(), config)
+  );
+});
+
+test('loadMessageTemplates › should reject invalid templates at load time', () => {
+  const invalid = {
+    'syntax': { 'header.hbs': '{{#if releases.length}}unclosed' },
+    'unknown field': { 'table.hbs': '{{#each releases}}{{versoin}}{{/each}}' },
+    'unknown helper': { 'details.hbs': '{{shout repository.name}}' },
+    'unknown field in a fallback branch': { 'details.hbs': '{{#if repository.summary.generated}}ok{{else}}{{repository.sumary.text}}{{/if}}' }
+  };
+
+  for (const [kind, files] of Object.entries(invalid)) {
+    const directory = createTemplatesDirectory(files);
+    assert.throws(() => loadMessageTemplates(directory), (error: Error) => {
+      return error.message.startsWith(`Invalid message template ${join(directory, Object.keys(files)[0])}`);
+    }, kind);
+  }
+
+  assert.throws(() => loadMessageTemplates('/nonexistent/templates'), /Message templates directory not found/);
+});
+
+test('createTemplateContext › should group repositories by owning team', () => {
+  const releases = [
+    createRelease('acme/api', 'v1.0.0', { teams: ['platform', 'web'] }),
+    createRelease('acme/web', 'v2.0.0', { teams: ['web'] })
+  ];
+
+  const context = createTemplateContext(releases, config);
+  assert.equal(context.teams.map(team => [team.name, team.repositories.map(repository => repository.name)]), [
+    ['platform', ['api']],
+    ['web', ['api', 'web']]
+  ]);
+  assert.is(context.repositoryWidth, 'Repository'.length);
+  assert.equal(createTemplateContext(releases, config, { groupByTeam: false }).teams, []);
+});
+
+test.run();
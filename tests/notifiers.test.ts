@@ -0,0 +1,52 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { NotifierRegistry, deliverToNotifiers, notifierRegistry } from '../src/core/notifiers';
+import { Digest, Notifier, NotifierName } from '../src/types';
+
+const digest: Digest = {
+  releases: [],
+  summaryConfig: { timeframe: { type: 'days', value: 7 } }
+};
+
+function fakeNotifier(name: NotifierName, label: string, delivered: string[], error?: Error): Notifier {
+  return {
+    name,
+    label,
+    render: async () => [{ target: 'webhook', content: label }],
+    deliver: async () => {
+      if (error) {
+        throw error;
+      }
+      delivered.push(label);
+    }
+  };
+}
+
+test('notifierRegistry › should register the built-in notifiers', () => {
+  assert.equal(notifierRegistry.names(), ['slack', 'teams', 'email', 'discord', 'webhook', 'feed']);
+});
+
+test('NotifierRegistry › should reject duplicate and unknown notifiers', () => {
+  const registry = new NotifierRegistry();
+  registry.register('slack', () => fakeNotifier('slack', 'Slack', []));
+
+  assert.throws(() => registry.register('Slack', () => fakeNotifier('slack', 'Slack', [])), /Notifier already registered: slack/);
+  assert.throws(() => registry.create('pager', {} as any), /Unknown notifier: pager. Registered notifiers: slack/);
+  assert.is(registry.create('SLACK', {} as any).label, 'Slack');
+});
+
+test('deliverToNotifiers › should keep delivering after a notifier fails and report the failure', async () => {
+  const delivered: string[] = [];
+  const notifiers = [
+    fakeNotifier('slack', 'Slack', delivered, new Error('Slack API error (500)')),
+    fakeNotifier('discord', 'Discord', delivered),
+    fakeNotifier('webhook', 'Webhook', delivered)
+  ];
+
+  const failures = await deliverToNotifiers(notifiers, digest);
+
+  assert.equal(delivered, ['Discord', 'Webhook']);
+  assert.equal(failures, [{ notifier: 'Slack', error: 'Slack API error (500)' }]);
+});
+
+test.run();
@@ -2,6 +2,7 @@ import { test } from 'uvu';
 import * as assert from 'uvu/assert';
 import { Release } from '../src/core/release';
 import { Repository } from '../src/core/repository';
+import { GitHubReleaseSource, ReleaseSourceRegistry } from '../src/core/sources';
 import { ReleaseInfo, GitHubRepository, GitHubRelease } from '../src/types';
 
 // Mock the logger
@@ -27,6 +28,14 @@ class MockRepository {
   async fetchAllRepositories(params: any): Promise<GitHubRepository[]> {
     return this.mockRepositories;
   }
+
+  async fetchSpecificRepositories(orgName: string, repositories: string[]): Promise<GitHubRepository[]> {
+    return this.mockRepositories.filter(repo => repositories.includes(repo.name));
+  }
+}
+
+function githubConfig(timeframe: any) {
+  return { orgName: 'test-org', timeframe, dataSourceOrder: 'github-only' };
 }
 
 function createMockRelease(overrides: Partial<GitHubRelease> = {}): GitHubRelease {
@@ -88,10 +97,11 @@ test('getReleases should fetch releases for today when date timeframe provided',
 
   mockRepo.setMockRepositories([mockRepoData]);
 
-  const releases = await release.getReleases('test-org', { type: 'date', value: new Date() });
+  const releases = await release.getReleases(githubConfig({ type: 'date', value: new Date() }));
 
   assert.is(releases.length, 1);
-  assert.is(releases[0].repository, 'today-repo');
+  assert.is(releases[0].repository, 'test-org/today-repo');
+  assert.is(releases[0].organization, 'test-org');
   assert.is(releases[0].tagName, 'v2.0.0');
 });
 
@@ -117,7 +127,7 @@ test('getDailyReleases should fetch releases for specific date', async () => {
 
   mockRepo.setMockRepositories([mockRepoData]);
 
-  const releases = await release.getReleases('test-org', { type: 'date', value: targetDate });
+  const releases = await release.getReleases(githubConfig({ type: 'date', value: targetDate }));
 
   assert.is(releases.length, 1);
   assert.is(releases[0].tagName, 'v1.5.0');
@@ -134,7 +144,7 @@ test('getReleases should return empty array when no releases found', async () =>
 
   mockRepo.setMockRepositories([mockRepoData]);
 
-  const releases = await release.getReleases('test-org', { type: 'date', value: new Date() });
+  const releases = await release.getReleases(githubConfig({ type: 'date', value: new Date() }));
 
   assert.is(releases.length, 0);
 });
@@ -161,7 +171,7 @@ test('getReleases should fetch releases from last 24 hours by default', async ()
 
   mockRepo.setMockRepositories([mockRepoData]);
 
-  const releases = await release.getReleases('test-org', { type: 'hours', value: 24 });
+  const releases = await release.getReleases(githubConfig({ type: 'hours', value: 24 }));
 
   assert.is(releases.length, 1);
   assert.is(releases[0].tagName, 'v3.0.0');
@@ -189,14 +199,14 @@ test('getReleases should fetch releases from custom hours back', async () => {
 
   mockRepo.setMockRepositories([mockRepoData]);
 
-  const releases = await release.getReleases('test-org', { type: 'hours', value: 12 });
+  const releases = await release.getReleases(githubConfig({ type: 'hours', value: 12 }));
 
   assert.is(releases.length, 1);
   assert.is(releases[0].tagName, 'v1.1.0');
 });
 
 test('processRepositories should process multiple repositories correctly', async () => {
-  const release = new Release('test-token');
+  const source = new GitHubReleaseSource(new MockRepository('test-token') as any);
 
   const dateRange = {
     startDate: new Date('2024-01-15T00:00:00Z'),
@@ -224,7 +234,7 @@ test('processRepositories should process multiple repositories correctly', async
     })
   ];
 
-  const releases = (release as any).processRepositories(repositories, dateRange);
+  const releases = (source as any).processRepositories(repositories, dateRange);
 
   assert.is(releases.length, 2);
   assert.is(releases[0].repository, 'repo1');
@@ -232,26 +242,26 @@ test('processRepositories should process multiple repositories correctly', async
 });
 
 test('isReleaseInDateRange should correctly filter releases by date range', () => {
-  const release = new Release('test-token');
+  const source = new GitHubReleaseSource(new MockRepository('test-token') as any);
 
   const dateRange = {
     startDate: new Date('2024-01-15T00:00:00Z'),
     endDate: new Date('2024-01-15T23:59:59Z')
   };
 
-  const inRange = (release as any).isReleaseInDateRange(
+  const inRange = (source as any).isReleaseInDateRange(
     '2024-01-15T12:00:00Z',
     dateRange
   );
   assert.is(inRange, true);
 
-  const beforeRange = (release as any).isReleaseInDateRange(
+  const beforeRange = (source as any).isReleaseInDateRange(
     '2024-01-14T12:00:00Z',
     dateRange
   );
   assert.is(beforeRange, false);
 
-  const afterRange = (release as any).isReleaseInDateRange(
+  const afterRange = (source as any).isReleaseInDateRange(
     '2024-01-16T12:00:00Z',
     dateRange
   );
@@ -259,19 +269,19 @@ test('isReleaseInDateRange should correctly filter releases by date range', () =
 });
 
 test('isReleaseInDateRange should work without endDate', () => {
-  const release = new Release('test-token');
+  const source = new GitHubReleaseSource(new MockRepository('test-token') as any);
 
   const dateRange = {
     startDate: new Date('2024-01-15T00:00:00Z')
   };
 
-  const afterStart = (release as any).isReleaseInDateRange(
+  const afterStart = (source as any).isReleaseInDateRange(
     '2024-01-16T12:00:00Z',
     dateRange
   );
   assert.is(afterStart, true);
 
-  const beforeStart = (release as any).isReleaseInDateRange(
+  const beforeStart = (source as any).isReleaseInDateRange(
     '2024-01-14T12:00:00Z',
     dateRange
   );
@@ -301,7 +311,7 @@ test('should process both stable releases and prereleases', async () => {
 
   mockRepo.setMockRepositories([mockRepoData]);
 
-  const releases = await release.getReleases('test-org', { type: 'date', value: new Date() });
+  const releases = await release.getReleases(githubConfig({ type: 'date', value: new Date() }));
 
   assert.is(releases.length, 2);
   assert.is(releases.find(r => r.tagName === 'v1.0.0')?.isPrerelease, false);
@@ -333,12 +343,12 @@ test('should create correct ReleaseInfo structure', async () => {
 
   mockRepo.setMockRepositories([mockRepoData]);
 
-  const releases = await release.getReleases('test-org', { type: 'date', value: new Date() });
+  const releases = await release.getReleases(githubConfig({ type: 'date', value: new Date() }));
 
   assert.is(releases.length, 1);
   const releaseInfo = releases[0];
 
-  assert.is(releaseInfo.repository, 'test-repo');
+  assert.is(releaseInfo.repository, 'test-org/test-repo');
   assert.is(releaseInfo.tagName, 'v1.2.3');
   assert.is(releaseInfo.name, 'Version 1.2.3');
   assert.is(releaseInfo.publishedAt, releaseTime.toISOString());
@@ -365,7 +375,7 @@ test('should use tagName when release name is null', async () => {
 
   mockRepo.setMockRepositories([mockRepoData]);
 
-  const releases = await release.getReleases('test-org', { type: 'date', value: new Date() });
+  const releases = await release.getReleases(githubConfig({ type: 'date', value: new Date() }));
 
   assert.is(releases.length, 1);
   assert.is(releases[0].name, 'v1.0.0'); // Should fallback to tagName
@@ -388,7 +398,7 @@ test('should use empty string when release description is null', async () => {
 
   mockRepo.setMockRepositories([mockRepoData]);
 
-  const releases = await release.getReleases('test-org', { type: 'date', value: new Date() });
+  const releases = await release.getReleases(githubConfig({ type: 'date', value: new Date() }));
 
   assert.is(releases.length, 1);
   assert.is(releases[0].description, ''); // Should fallback to empty string
@@ -403,7 +413,7 @@ test('should throw error when repository fetching fails', async () => {
   };
 
   try {
-    await release.getReleases('test-org', { type: 'date', value: new Date() });
+    await release.getReleases(githubConfig({ type: 'date', value: new Date() }));
     assert.unreachable('Should have thrown error');
   } catch (error) {
     assert.instance(error, Error);
@@ -422,9 +432,335 @@ test('should handle empty releases array', async () => {
 
   mockRepo.setMockRepositories([mockRepoData]);
 
-  const releases = await release.getReleases('test-org', { type: 'date', value: new Date() });
+  const releases = await release.getReleases(githubConfig({ type: 'date', value: new Date() }));
 
   assert.is(releases.length, 0);
 });
 
+test('getReleases should fall back to GitHub API when Snowflake is not configured', async () => {
+  const release = new Release('test-token');
+  const mockRepo = (release as any).repository as MockRepository;
+
+  const mockRepoData = createMockRepository({
+    name: 'fallback-repo',
+    releases: { nodes: [createMockRelease({ publishedAt: new Date().toISOString() })] }
+  });
+
+  mockRepo.setMockRepositories([mockRepoData]);
+
+  const releases = await release.getReleases({
+    orgName: 'test-org',
+    timeframe: { type: 'date', value: new Date() },
+    dataSourceOrder: 'snowflake-first'
+  });
+
+  assert.is(releases.length, 1);
+  assert.is(releases[0].repository, 'test-org/fallback-repo');
+  assert.is(release.getLastSource(), 'github');
+});
+
+test('getReleases should throw when snowflake-only is used without Snowflake configuration', async () => {
+  const release = new Release('test-token');
+
+  try {
+    await release.getReleases({
+      orgName: 'test-org',
+      timeframe: { type: 'date', value: new Date() },
+      dataSourceOrder: 'snowflake-only'
+    });
+    assert.unreachable('Should have thrown error');
+  } catch (error) {
+    assert.instance(error, Error);
+    assert.match((error as Error).message, 'Snowflake is not configured');
+    assert.is(release.getLastSource(), undefined);
+  }
+});
+
+test('getReleases should try Snowflake after GitHub API when github-first fails', async () => {
+  const release = new Release('test-token');
+  const mockRepo = (release as any).repository as MockRepository;
+
+  mockRepo.fetchAllRepositories = async () => {
+    throw new Error('GitHub API error');
+  };
+
+  try {
+    await release.getReleases({
+      orgName: 'test-org',
+      timeframe: { type: 'date', value: new Date() },
+      dataSourceOrder: 'github-first'
+    });
+    assert.unreachable('Should have thrown error');
+  } catch (error) {
+    assert.instance(error, Error);
+    assert.match((error as Error).message, 'github, snowflake');
+    assert.match((error as Error).message, 'Snowflake is not configured');
+  }
+});
+
+test('getReleases should use an explicit release source chain from a custom registry', async () => {
+  const registry = new ReleaseSourceRegistry();
+  registry.register('fixture', () => ({
+    name: 'fixture',
+    label: 'Fixture',
+    isConfigured: () => true,
+    fetchReleases: async () => [{
+      repository: 'fixture-repo',
+      tagName: 'v9.0.0',
+      name: 'v9.0.0',
+      publishedAt: new Date().toISOString(),
+      description: '',
+      url: 'https://github.com/org/fixture-repo/releases/tag/v9.0.0',
+      author: 'testuser',
+      isPrerelease: false
+    }],
+    getHealth: () => ({ name: 'fixture', healthy: true, configured: true, consecutiveFailures: 0 })
+  }));
+  const release = new Release('test-token', registry);
+
+  const releases = await release.getReleases({
+    orgName: 'test-org',
+    timeframe: { type: 'date', value: new Date() },
+    releaseSources: ['fixture']
+  });
+
+  assert.is(releases.length, 1);
+  assert.is(release.getLastSource(), 'fixture');
+  assert.is(release.getLastSourceLabel(), 'Fixture');
+});
+
+test('getReleases should reject release sources that are not registered', async () => {
+  const release = new Release('test-token');
+
+  try {
+    await release.getReleases({
+      orgName: 'test-org',
+      timeframe: { type: 'date', value: new Date() },
+      releaseSources: ['bigquery', 'github']
+    });
+    assert.unreachable('Should have thrown error');
+  } catch (error) {
+    assert.instance(error, Error);
+    assert.match((error as Error).message, 'Unknown release source(s): bigquery');
+  }
+});
+
+test('getSourceHealth should report failures and latency for each source in the chain', async () => {
+  const release = new Release('test-token');
+  const mockRepo = (release as any).repository as MockRepository;
+
+  mockRepo.fetchAllRepositories = async () => {
+    throw new Error('GitHub API error');
+  };
+
+  try {
+    await release.getReleases(githubConfig({ type: 'date', value: new Date() }));
+    assert.unreachable('Should have thrown error');
+  } catch (error) {
+    const [health] = release.getSourceHealth();
+    assert.is(health.name, 'github');
+    assert.is(health.healthy, false);
+    assert.is(health.consecutiveFailures, 1);
+    assert.is(health.lastError, 'GitHub API error');
+    assert.type(health.lastLatencyMs, 'number');
+  }
+});
+
+test('getReleases should fetch long windows from the GitHub API in a single pass', async () => {
+  const release = new Release('test-token');
+  const mockRepo = (release as any).repository as MockRepository;
+  const fetchStarts: Date[] = [];
+
+  const now = new Date();
+  const recent = createMockRelease({
+    tagName: 'v2.0.0',
+    publishedAt: new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000).toISOString()
+  });
+  const older = createMockRelease({
+    tagName: 'v1.0.0',
+    publishedAt: new Date(now.getTime() - 10 * 24 * 60 * 60 * 1000).toISOString()
+  });
+
+  mockRepo.fetchAllRepositories = async (params: any) => {
+    fetchStarts.push(params.startDate);
+    return [createMockRepository({ name: 'busy-repo', releases: { nodes: [recent, older] } })];
+  };
+
+  const releases = await release.getReleases({
+    ...githubConfig({ type: 'days', value: 14 }),
+    fetchChunkDays: 7
+  });
+
+  assert.is(fetchStarts.length, 1);
+  assert.is(fetchStarts[0].toISOString(), release.getLastDateRange()!.startDate.toISOString());
+  assert.equal(releases.map(r => r.tagName), ['v2.0.0', 'v1.0.0']);
+});
+
+test('getReleases should fetch long windows in chunks from chunked sources and merge the results', async () => {
+  const now = new Date();
+  const chunkStarts: Date[] = [];
+  const createRelease = (tagName: string, daysAgo: number): ReleaseInfo => ({
+    repository: 'busy-repo',
+    tagName,
+    name: tagName,
+    publishedAt: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+    description: '',
+    url: `https://github.com/org/busy-repo/releases/tag/${tagName}`,
+    author: 'testuser',
+    isPrerelease: false
+  });
+  const registry = new ReleaseSourceRegistry();
+  registry.register('warehouse', () => ({
+    name: 'warehouse',
+    label: 'Warehouse',
+    fetchesInChunks: true,
+    isConfigured: () => true,
+    fetchReleases: async ({ startDate, endDate }) => {
+      chunkStarts.push(startDate);
+      return [createRelease('v2.0.0', 2), createRelease('v1.0.0', 10)].filter(item => {
+        const publishedAt = new Date(item.publishedAt);
+        return publishedAt >= startDate && publishedAt <= endDate;
+      });
+    },
+    getHealth: () => ({ name: 'warehouse', healthy: true, configured: true, consecutiveFailures: 0 })
+  }));
+  const release = new Release('test-token', registry);
+
+  const releases = await release.getReleases({
+    orgName: 'test-org',
+    timeframe: { type: 'days', value: 14 },
+    releaseSources: ['warehouse'],
+    fetchChunkDays: 7
+  });
+
+  assert.is(chunkStarts.length, 2);
+  assert.ok(chunkStarts[0] > chunkStarts[1], 'chunks should be fetched newest first');
+  assert.equal(releases.map(r => r.tagName), ['v2.0.0', 'v1.0.0']);
+});
+
+test('splitIntoChunks should cover the whole range without gaps or overlap', () => {
+  const release = new Release('test-token');
+  const startDate = new Date('2024-01-01T00:00:00.000Z');
+  const endDate = new Date('2024-01-30T23:59:59.999Z');
+
+  const chunks = (release as any).splitIntoChunks(startDate, endDate, 7);
+
+  assert.is(chunks.length, 5);
+  assert.is(chunks[0].endDate.toISOString(), endDate.toISOString());
+  assert.is(chunks[chunks.length - 1].startDate.toISOString(), startDate.toISOString());
+  for (let i = 1; i < chunks.length; i++) {
+    assert.is(chunks[i].endDate.getTime() + 1, chunks[i - 1].startDate.getTime());
+  }
+});
+
+test('getReleases should reject windows longer than maxDateRangeDays', async () => {
+  const release = new Release('test-token');
+
+  try {
+    await release.getReleases({
+      ...githubConfig({ type: 'days', value: 31 }),
+      maxDateRangeDays: 30
+    });
+    assert.unreachable('Should have thrown error');
+  } catch (error) {
+    assert.instance(error, Error);
+    assert.match((error as Error).message, 'Date range exceeds 30 days: 31 days');
+  }
+});
+
+test('getReleases should combine releases from multiple organizations', async () => {
+  const release = new Release('test-token');
+  const mockRepo = (release as any).repository as MockRepository;
+  const requested: string[] = [];
+
+  mockRepo.fetchSpecificRepositories = async (orgName: string, repositories: string[]) => {
+    requested.push(`${orgName}:${repositories.join(',')}`);
+    return [createMockRepository({
+      name: repositories[0],
+      releases: { nodes: [createMockRelease({ publishedAt: new Date().toISOString() })] }
+    })];
+  };
+
+  const releases = await release.getReleases({
+    orgName: 'acme',
+    orgNames: ['acme', 'acme-labs', 'acme-archive'],
+    timeframe: { type: 'date', value: new Date() },
+    repositories: ['sdk', 'acme-labs/tools'],
+    dataSourceOrder: 'github-only'
+  });
+
+  assert.equal(requested, ['acme:sdk', 'acme-labs:sdk,tools', 'acme-archive:sdk']);
+  assert.equal(releases.map(r => r.repository), ['acme/sdk', 'acme-labs/sdk', 'acme-archive/sdk']);
+  assert.equal(releases.map(r => r.organization), ['acme', 'acme-labs', 'acme-archive']);
+});
+
+test('getReleases should skip organizations with no requested repositories', async () => {
+  const release = new Release('test-token');
+  const mockRepo = (release as any).repository as MockRepository;
+  const requested: string[] = [];
+
+  mockRepo.fetchSpecificRepositories = async (orgName: string) => {
+    requested.push(orgName);
+    return [];
+  };
+
+  await release.getReleases({
+    orgName: 'acme',
+    orgNames: ['acme', 'acme-labs'],
+    timeframe: { type: 'date', value: new Date() },
+    repositories: ['acme-labs/tools'],
+    dataSourceOrder: 'github-only'
+  });
+
+  assert.equal(requested, ['acme-labs']);
+});
+
+test('getReleases should apply glob, exclude, topic and fork selection to GitHub repositories', async () => {
+  const release = new Release('test-token');
+  const mockRepo = (release as any).repository as MockRepository;
+  const newRelease = () => ({ nodes: [createMockRelease({ publishedAt: new Date().toISOString() })] });
+
+  mockRepo.setMockRepositories([
+    createMockRepository({ name: 'sdk-js', releases: newRelease(), repositoryTopics: { nodes: [{ topic: { name: 'sdk' } }] } }),
+    createMockRepository({ name: 'sdk-go-archive', releases: newRelease(), repositoryTopics: { nodes: [{ topic: { name: 'sdk' } }] } }),
+    createMockRepository({ name: 'sdk-py', releases: newRelease(), isFork: true, repositoryTopics: { nodes: [{ topic: { name: 'sdk' } }] } }),
+    createMockRepository({ name: 'sdk-rb', releases: newRelease() }),
+    createMockRepository({ name: 'web', releases: newRelease(), repositoryTopics: { nodes: [{ topic: { name: 'sdk' } }] } })
+  ]);
+
+  const releases = await release.getReleases({
+    ...githubConfig({ type: 'date', value: new Date() }),
+    repositories: ['SDK-*', '!*-archive'],
+    repositoryTopics: ['sdk'],
+    skipForks: true
+  });
+
+  assert.equal(releases.map(r => r.repository), ['test-org/sdk-js']);
+});
+
+test('getReleases should only fetch custom properties for repositories passing the other filters', async () => {
+  const release = new Release('test-token');
+  const mockRepo = (release as any).repository as any;
+  const propertyLookups: string[] = [];
+
+  mockRepo.setMockRepositories([
+    createMockRepository({ name: 'api', releases: { nodes: [createMockRelease({ publishedAt: new Date().toISOString() })] } }),
+    createMockRepository({ name: 'worker', releases: { nodes: [createMockRelease({ publishedAt: new Date().toISOString() })] } }),
+    createMockRepository({ name: 'legacy', isArchived: true, releases: { nodes: [] } })
+  ]);
+  mockRepo.fetchRepositoryProperties = async (orgName: string, repoName: string) => {
+    propertyLookups.push(repoName);
+    return repoName === 'api' ? { team: 'platform' } : { team: 'data' };
+  };
+
+  const releases = await release.getReleases({
+    ...githubConfig({ type: 'date', value: new Date() }),
+    repositoryProperties: { team: 'platform' },
+    skipArchived: true
+  });
+
+  assert.equal(propertyLookups, ['api', 'worker']);
+  assert.equal(releases.map(r => r.repository), ['test-org/api']);
+});
+
 test.run();
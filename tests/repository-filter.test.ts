@@ -0,0 +1,76 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import {
+  globToLikePattern,
+  globToRegExp,
+  matchesRepositoryFilter,
+  selectRepositoriesForOrg
+} from '../src/core/repository-filter';
+
+test('globToRegExp › should match wildcards case-insensitively and escape regex characters', () => {
+  assert.ok(globToRegExp('sdk-*').test('SDK-js'));
+  assert.ok(globToRegExp('lib?').test('lib2'));
+  assert.not.ok(globToRegExp('lib?').test('lib22'));
+  assert.not.ok(globToRegExp('my.repo').test('myxrepo'));
+});
+
+test('globToLikePattern › should translate wildcards and escape LIKE characters', () => {
+  assert.is(globToLikePattern('sdk-*'), 'sdk-%');
+  assert.is(globToLikePattern('my_repo?'), 'my^_repo_');
+  assert.is(globToLikePattern("it's"), "it''s");
+});
+
+test('selectRepositoriesForOrg › should split names, patterns and excludes for the organization', () => {
+  const selection = selectRepositoriesForOrg(
+    ['api', 'sdk-*', '!*-archive', 'acme-labs/tools', '!acme-labs/old-*'],
+    'acme',
+    { skipForks: true }
+  );
+
+  assert.equal(selection, {
+    repositories: ['api'],
+    repositoryFilter: { skipForks: true, patterns: ['sdk-*'], exclude: ['*-archive'] }
+  });
+});
+
+test('selectRepositoriesForOrg › should skip an organization without matching includes', () => {
+  assert.is(selectRepositoriesForOrg(['acme-labs/tools'], 'acme'), undefined);
+});
+
+test('selectRepositoriesForOrg › should keep every repository when only excludes are given', () => {
+  const selection = selectRepositoriesForOrg(['!*-archive'], 'acme');
+
+  assert.equal(selection, { repositories: undefined, repositoryFilter: { patterns: [], exclude: ['*-archive'] } });
+});
+
+test('selectRepositoriesForOrg › should return no filter for exact names only', () => {
+  assert.equal(selectRepositoriesForOrg(['api'], 'acme', {}), { repositories: ['api'], repositoryFilter: undefined });
+  assert.equal(selectRepositoriesForOrg(undefined, 'acme', {}), { repositories: undefined, repositoryFilter: undefined });
+});
+
+test('matchesRepositoryFilter › should combine include, exclude, topic, property and fork criteria', () => {
+  const filter = {
+    patterns: ['sdk-*'],
+    exclude: ['*-archive'],
+    topics: ['sdk'],
+    properties: { team: 'platform' },
+    skipArchived: true,
+    skipForks: true
+  };
+  const repo = { name: 'sdk-js', topics: ['SDK'], properties: { team: 'platform' } };
+
+  assert.ok(matchesRepositoryFilter(repo, undefined, filter));
+  assert.ok(matchesRepositoryFilter({ ...repo, name: 'tools' }, ['tools'], filter));
+  assert.not.ok(matchesRepositoryFilter({ ...repo, name: 'web' }, undefined, filter));
+  assert.not.ok(matchesRepositoryFilter({ ...repo, name: 'sdk-archive' }, undefined, filter));
+  assert.not.ok(matchesRepositoryFilter({ ...repo, topics: [] }, undefined, filter));
+  assert.not.ok(matchesRepositoryFilter({ ...repo, properties: { team: 'data' } }, undefined, filter));
+  assert.not.ok(matchesRepositoryFilter({ ...repo, isArchived: true }, undefined, filter));
+  assert.not.ok(matchesRepositoryFilter({ ...repo, isFork: true }, undefined, filter));
+});
+
+test('matchesRepositoryFilter › should include everything without criteria', () => {
+  assert.ok(matchesRepositoryFilter({ name: 'anything' }));
+});
+
+test.run();
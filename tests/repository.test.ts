@@ -3,6 +3,8 @@ import * as assert from 'uvu/assert';
 import { Repository } from '../src/core/repository';
 import { GitHubGraphQLClient } from '../src/clients/github-graphql-client';
 import {
+  GitHubRelease,
+  GitHubReleaseConnection,
   GitHubRepository,
   OrganizationResponse,
   ReleaseFetchParams,
@@ -39,6 +41,16 @@ class MockGitHubGraphQLClient {
     this.errorToThrow = error;
   }
 
+  releasePages: Record<string, GitHubReleaseConnection[]> = {};
+
+  releasePageRequests: string[] = [];
+
+  async fetchRepositoryReleasesPage(orgName: string, repoName: string, after: string): Promise<GitHubReleaseConnection> {
+    this.releasePageRequests.push(`${repoName}:${after}`);
+    const pages = this.releasePages[repoName] || [];
+    return pages.shift() || { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] };
+  }
+
   async fetchRepositoriesPage(variables: RepositoryQueryVariables): Promise<OrganizationResponse> {
     if (this.shouldThrowError && this.errorToThrow) {
       throw this.errorToThrow;
@@ -236,7 +248,8 @@ test('processRepositoryPage should process repositories correctly', () => {
     filteredReleases: 0,
     pageCount: 0,
     earlyStopEnabled: true,
-    repositoriesScanned: 0
+    repositoriesScanned: 0,
+    releasePagesByRepository: {}
   };
 
   const repos = [
@@ -267,7 +280,8 @@ test('processRepositoryPage should process all repos when early stopping disable
     filteredReleases: 0,
     pageCount: 0,
     earlyStopEnabled: false,
-    repositoriesScanned: 0
+    repositoriesScanned: 0,
+    releasePagesByRepository: {}
   };
 
   const repos = [
@@ -456,4 +470,87 @@ test('executeWithRetry should use exponential backoff delays', async () => {
   (repository as any).sleep = originalSleep;
 });
 
+function createMockRelease(tagName: string, publishedAt: string): GitHubRelease {
+  return {
+    tagName,
+    name: tagName,
+    publishedAt,
+    description: '',
+    url: `https://github.com/test-org/monorepo/releases/tag/${tagName}`,
+    author: { login: 'testuser' },
+    isPrerelease: false
+  };
+}
+
+test('fetchAllRepositories should page through releases until the window start is passed', async () => {
+  const repository = new Repository('test-token');
+  const mockClient = (repository as any).graphqlClient as MockGitHubGraphQLClient;
+
+  const monorepo = createMockRepository({
+    name: 'monorepo',
+    updatedAt: '2024-01-15T12:00:00Z',
+    releases: {
+      pageInfo: { hasNextPage: true, endCursor: 'rel-1' },
+      nodes: [
+        createMockRelease('pkg-a@1.0.2', '2024-01-15T10:00:00Z'),
+        createMockRelease('pkg-b@2.0.1', '2024-01-14T10:00:00Z')
+      ]
+    }
+  });
+  mockClient.releasePages.monorepo = [
+    {
+      pageInfo: { hasNextPage: true, endCursor: 'rel-2' },
+      nodes: [
+        createMockRelease('pkg-a@1.0.1', '2024-01-13T10:00:00Z'),
+        createMockRelease('pkg-a@1.0.0', '2024-01-09T10:00:00Z')
+      ]
+    },
+    {
+      pageInfo: { hasNextPage: false, endCursor: null },
+      nodes: [createMockRelease('pkg-b@2.0.0', '2024-01-01T10:00:00Z')]
+    }
+  ];
+  mockClient.setMockResponses([createMockOrganizationResponse([monorepo], false)]);
+
+  const repositories = await repository.fetchAllRepositories({
+    orgName: 'test-org',
+    startDate: new Date('2024-01-10T00:00:00Z')
+  });
+
+  // Second page already reaches before the window start, so the third is never requested
+  assert.equal(mockClient.releasePageRequests, ['monorepo:rel-1']);
+  assert.equal(repositories[0].releases.nodes.map(r => r.tagName), ['pkg-a@1.0.2', 'pkg-b@2.0.1', 'pkg-a@1.0.1']);
+
+  const stats = repository.getPaginationStats();
+  assert.equal(stats?.releasePagesByRepository, { monorepo: 2 });
+  assert.is(stats?.totalReleases, 4);
+  assert.is(stats?.filteredReleases, 3);
+});
+
+test('fetchAllRepositories should not page releases when the first page covers the window', async () => {
+  const repository = new Repository('test-token');
+  const mockClient = (repository as any).graphqlClient as MockGitHubGraphQLClient;
+
+  const repo = createMockRepository({
+    name: 'quiet-repo',
+    updatedAt: '2024-01-15T12:00:00Z',
+    releases: {
+      pageInfo: { hasNextPage: true, endCursor: 'rel-1' },
+      nodes: [
+        createMockRelease('v1.1.0', '2024-01-15T10:00:00Z'),
+        createMockRelease('v1.0.0', '2023-12-01T10:00:00Z')
+      ]
+    }
+  });
+  mockClient.setMockResponses([createMockOrganizationResponse([repo], false)]);
+
+  await repository.fetchAllRepositories({
+    orgName: 'test-org',
+    startDate: new Date('2024-01-10T00:00:00Z')
+  });
+
+  assert.equal(mockClient.releasePageRequests, []);
+  assert.equal(repository.getPaginationStats()?.releasePagesByRepository, { 'quiet-repo': 1 });
+});
+
 test.run();
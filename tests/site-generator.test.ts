@@ -0,0 +1,131 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildSiteData, loadDigestExports, renderSite, weekStart, writeSite } from '../src/core/site-generator';
+import { parseSiteArguments } from '../src/site';
+import { DigestDocumentRelease, DigestExport } from '../src/types';
+
+function createRelease(tagName: string, publishedAt: string, overrides: Partial<DigestDocumentRelease> = {}): DigestDocumentRelease {
+  return {
+    tagName,
+    name: tagName,
+    version: tagName,
+    url: `https://github.com/acme/api/releases/tag/${tagName}`,
+    publishedAt,
+    author: 'octocat',
+    prerelease: false,
+    ...overrides
+  };
+}
+
+function createExport(generatedAt: string, repositories: DigestExport['repositories']): DigestExport {
+  return {
+    generatedAt,
+    dateRange: `7 days to ${generatedAt.split('T')[0]}`,
+    organizations: ['acme'],
+    stats: {
+      totalReleases: 0,
+      prereleases: 0,
+      stableReleases: 0,
+      repositoriesWithReleases: 0,
+      timeRange: { from: '', to: '', hours: 168 }
+    },
+    repositories
+  };
+}
+
+const weekOne = createExport('2024-01-08T08:00:00Z', [
+  {
+    name: 'api',
+    organization: 'acme',
+    summary: 'First streaming support.',
+    summaryGenerated: true,
+    releases: [createRelease('v1.0.0', '2024-01-03T10:00:00Z'), createRelease('v1.1.0-rc.1', '2024-01-05T10:00:00Z', { prerelease: true })]
+  },
+  { name: 'web', organization: 'acme', summary: '1 release', summaryGenerated: false, releases: [createRelease('v2.0.0', '2024-01-04T10:00:00Z')] }
+]);
+
+const weekTwo = createExport('2024-01-15T08:00:00Z', [
+  {
+    name: 'api',
+    organization: 'acme',
+    summary: 'Retries <and> backoff.',
+    summaryGenerated: true,
+    // Overlapping windows export the same release again
+    releases: [createRelease('v1.1.0-rc.1', '2024-01-05T10:00:00Z', { prerelease: true }), createRelease('v1.1.0', '2024-01-10T10:00:00Z', { teams: ['platform'] })]
+  }
+]);
+
+test('weekStart › should return the Monday of the week in UTC', () => {
+  assert.is(weekStart('2024-01-07T23:00:00Z'), '2024-01-01');
+  assert.is(weekStart('2024-01-08T00:00:00Z'), '2024-01-08');
+});
+
+test('buildSiteData › should list each release once and keep generated summaries newest first', () => {
+  const data = buildSiteData([weekTwo, weekOne]);
+
+  assert.is(data.digestCount, 2);
+  assert.equal(data.releases.map(release => `${release.repository}@${release.tagName}`), [
+    'acme/api@v1.1.0',
+    'acme/api@v1.1.0-rc.1',
+    'acme/web@v2.0.0',
+    'acme/api@v1.0.0'
+  ]);
+
+  const [api, web] = data.repositories;
+  assert.equal([api.label, api.slug, web.label], ['api', 'acme-api', 'web']);
+  assert.equal(api.summaries.map(summary => summary.text), ['Retries <and> backoff.', 'First streaming support.']);
+  assert.equal(web.summaries, []);
+});
+
+test('renderSite › should render a searchable weekly index and a timeline page per repository', () => {
+  const files = renderSite(buildSiteData([weekOne, weekTwo]), 'Acme Releases', new Date('2024-01-15T09:00:00Z'));
+
+  assert.equal(Array.from(files.keys()), ['style.css', 'index.html', 'repos/acme-api.html', 'repos/acme-web.html']);
+
+  const index = files.get('index.html')!;
+  assert.ok(index.indexOf('<h2>Week of 2024-01-08</h2>') < index.indexOf('<h2>Week of 2024-01-01</h2>'));
+  assert.ok(index.includes('<tr data-search="api v1.1.0 v1.1.0">'));
+  assert.ok(index.includes('<a href="repos/acme-api.html">api</a>'));
+  assert.ok(index.includes('4 releases • 2 repositories • 2 digests'));
+  assert.ok(index.includes('<script>'));
+
+  const api = files.get('repos/acme-api.html')!;
+  assert.ok(api.includes('<link rel="stylesheet" href="../style.css">'));
+  assert.ok(api.includes('Retries &lt;and&gt; backoff.'));
+  assert.ok(api.includes('<li class="prerelease"><a href="https://github.com/acme/api/releases/tag/v1.1.0-rc.1">v1.1.0-rc.1</a><span class="badge">pre-release</span>'));
+  assert.ok(api.includes('octocat • platform'));
+});
+
+test('loadDigestExports › should read digest exports and skip other JSON files', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'digests-'));
+  writeFileSync(join(directory, '2024-01-08.json'), JSON.stringify(weekOne));
+  writeFileSync(join(directory, 'ledger.json'), JSON.stringify({ deliveries: {} }));
+  writeFileSync(join(directory, 'broken.json'), '{');
+  writeFileSync(join(directory, 'notes.txt'), 'not json');
+
+  assert.equal(loadDigestExports(directory), [weekOne]);
+  assert.throws(() => loadDigestExports(join(directory, 'missing')), /Digest directory not found/);
+});
+
+test('writeSite › should write files into nested directories', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'site-'));
+
+  writeSite(directory, new Map([['index.html', 'index'], ['repos/acme-api.html', 'api']]));
+
+  assert.is(readFileSync(join(directory, 'repos', 'acme-api.html'), 'utf-8'), 'api');
+});
+
+test('parseSiteArguments › should parse directories and title and reject unknown arguments', () => {
+  assert.equal(parseSiteArguments([]), { input: 'digests', output: 'site', title: 'Release Dashboard' });
+  assert.equal(
+    parseSiteArguments(['--input', 'history', '--output', 'public', '--title', 'Acme Releases']),
+    { input: 'history', output: 'public', title: 'Acme Releases' }
+  );
+  assert.throws(() => parseSiteArguments(['--input']), /Missing value for --input/);
+  assert.throws(() => parseSiteArguments(['--serve']), /Unknown argument: --serve/);
+});
+
+test.run();
@@ -0,0 +1,123 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { formatReleaseBlocks, escapeMrkdwn, MAX_BLOCKS_PER_MESSAGE } from '../src/core/slack-blocks';
+import { SummaryConfig } from '../src/types';
+import { createRelease } from './helpers/releases';
+
+const config: SummaryConfig = {
+  timeframe: { type: 'date', value: new Date('2024-01-15T00:00:00Z') },
+  dataSource: 'GitHub API'
+};
+
+test('formatReleaseBlocks › should render header, stats fields, repository sections and dividers', async () => {
+  const releases = [
+    createRelease('acme/api'),
+    createRelease('acme/api', { name: 'v1.1.0-rc.1', isPrerelease: true, author: 'hubot', url: 'https://github.com/acme/api/releases/tag/v1.1.0-rc.1' }),
+    createRelease('acme/web')
+  ];
+
+  const [message, ...rest] = await formatReleaseBlocks(releases, config);
+
+  assert.is(rest.length, 0);
+  assert.ok(message.text.includes('RELEASE SUMMARY - 2024-01-15'));
+  assert.ok(message.text.includes('```'), 'code-block table is kept as fallback text');
+
+  const blocks = message.blocks!;
+  assert.equal(blocks[0], { type: 'header', text: { type: 'plain_text', text: '📊 Release Summary - 2024-01-15', emoji: true } });
+  assert.equal(blocks[1].fields!.map(f => f.text), ['*Releases*\n3', '*Stable*\n2', '*Pre-release*\n1', '*Repositories*\n2']);
+  assert.equal(blocks[2].elements, [{ type: 'mrkdwn', text: 'Source: GitHub API' }]);
+  assert.is(blocks[3].type, 'divider');
+
+  assert.equal(blocks[4].text!.text, '*api*\n<https://github.com/acme/api/releases/tag/v1.0.0|v1.0.0> · <https://github.com/acme/api/releases/tag/v1.1.0-rc.1|v1.1.0-rc.1> _(pre-release)_');
+  assert.equal(blocks[5].elements, [{ type: 'mrkdwn', text: '👤 octocat, hubot • 📅 2024-01-15 10:00 UTC' }]);
+  assert.is(blocks[6].type, 'divider');
+  assert.is(blocks[7].text!.text.startsWith('*web*'), true);
+});
+
+test('formatReleaseBlocks › should render a single message when there are no releases', async () => {
+  const messages = await formatReleaseBlocks([], config);
+
+  assert.is(messages.length, 1);
+  assert.ok(messages[0].text.includes('No releases found'));
+  assert.is(messages[0].blocks![1].text!.text, 'No releases found for 2024-01-15');
+});
+
+test('formatReleaseBlocks › should add team subheaders when releases carry teams', async () => {
+  const releases = [
+    createRelease('acme/api', { teams: ['platform'] }),
+    createRelease('acme/docs')
+  ];
+
+  const [message] = await formatReleaseBlocks(releases, config);
+  const texts = message.blocks!.filter(block => block.type === 'section' && block.text).map(block => block.text!.text);
+
+  assert.equal(texts.filter(text => text.startsWith('*👥')), ['*👥 platform*', '*👥 Unowned*']);
+});
+
+test('formatReleaseBlocks › should split digests exceeding the block limit without breaking repositories apart', async () => {
+  const releases = Array.from({ length: 30 }, (_, index) => createRelease(`acme/repo-${index}`));
+
+  const messages = await formatReleaseBlocks(releases, config);
+
+  assert.is(messages.length, 2);
+  messages.forEach(message => assert.ok(message.blocks!.length <= MAX_BLOCKS_PER_MESSAGE));
+  assert.is(messages[1].blocks![0].type, 'section');
+  assert.ok(messages[1].text.endsWith('(continued)'));
+});
+
+test('formatReleaseBlocks › should split a repository with many releases across sections without cutting links', async () => {
+  const releases = Array.from({ length: 200 }, (_, index) => createRelease('acme/api', {
+    name: `v1.${index}.0`,
+    url: `https://github.com/acme/api/releases/tag/v1.${index}.0`
+  }));
+  const summaries = new Map([['acme/api', { text: 'Adds streaming. '.repeat(300).trim(), generated: true }]]);
+
+  const [message] = await formatReleaseBlocks(releases, { ...config, includeDescriptions: true }, summaries);
+  const texts = message.blocks!.slice(4).filter(block => block.type === 'section').map(block => block.text!.text);
+  const links = texts.join(' · ').match(/<[^>]+>/g) ?? [];
+
+  assert.ok(texts.length > 2);
+  texts.forEach(text => assert.ok(text.length <= 3000));
+  assert.ok(texts[0].startsWith('*api*\n<https://github.com/acme/api/releases/tag/v1.0.0|v1.0.0>'));
+  assert.is(links.length, 200);
+  links.forEach((link, index) => assert.is(link, `<https://github.com/acme/api/releases/tag/v1.${index}.0|v1.${index}.0>`));
+  assert.not.ok(texts.some(text => text.includes('…')));
+
+  // The summary follows the versions in sections of its own
+  const summaryStart = texts.findIndex(text => text.startsWith('Adds streaming.'));
+  assert.ok(summaryStart > 0);
+  assert.not.ok(texts.slice(0, summaryStart).some(text => text.includes('Adds streaming.')));
+  assert.not.ok(texts.slice(summaryStart).some(text => text.includes('<')));
+  assert.is(texts.slice(summaryStart).join(' '), 'Adds streaming. '.repeat(300).trim());
+});
+
+test('formatReleaseBlocks › should post intro blocks as a separate thread parent when threaded', async () => {
+  const [parent, reply, ...rest] = await formatReleaseBlocks([createRelease('acme/api')], { ...config, threaded: true });
+
+  assert.is(rest.length, 0);
+  assert.is(parent.blocks![0].type, 'header');
+  assert.not.ok(parent.text.includes('```'));
+  assert.is(reply.blocks![0].text!.text.startsWith('*api*'), true);
+  assert.ok(reply.text.startsWith('```'));
+});
+
+test('escapeMrkdwn › should escape Slack control characters', () => {
+  assert.is(escapeMrkdwn('a < b & c > d'), 'a &lt; b &amp; c &gt; d');
+});
+
+test('formatReleaseBlocks › should show the digest\'s summaries in team slices with their own repository labels', async () => {
+  const releases = [createRelease('acme/api'), createRelease('labs/api', { organization: 'labs' })];
+  const summaries = new Map([
+    ['acme/api', { text: 'Acme adds streaming.', generated: true }],
+    ['labs/api', { text: 'Labs fixes retries.', generated: true }]
+  ]);
+
+  const digest = JSON.stringify(await formatReleaseBlocks(releases, { ...config, includeDescriptions: true }, summaries));
+  const slice = JSON.stringify(await formatReleaseBlocks([releases[0]], { ...config, includeDescriptions: true, team: 'platform' }, summaries));
+
+  assert.ok(digest.includes('Acme adds streaming.') && digest.includes('Labs fixes retries.'));
+  assert.ok(slice.includes('Acme adds streaming.'));
+  assert.not.ok(slice.includes('Labs fixes retries.'));
+});
+
+test.run();
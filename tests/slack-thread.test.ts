@@ -0,0 +1,116 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SlackWebClient } from '../src/clients/slack-web-client';
+import { SlackThreadPublisher, SlackThreadStore, digestThreadKey } from '../src/core/slack-thread';
+
+interface SlackCall {
+  method: string;
+  body: any;
+  authorization: string;
+}
+
+/**
+ * Fake Slack Web API recording calls and answering with increasing message timestamps
+ */
+function createSlackApi(failures: Record<string, string> = {}) {
+  const calls: SlackCall[] = [];
+  let nextTs = 1;
+
+  const fetchFn = async (url: string, init?: any) => {
+    const method = url.slice(url.lastIndexOf('/') + 1);
+    const body = JSON.parse(init.body);
+    calls.push({ method, body, authorization: init.headers.Authorization });
+
+    const error = failures[`${method}:${body.ts ?? ''}`];
+    const result = error
+      ? { ok: false, error }
+      : { ok: true, ts: method === 'chat.postMessage' ? `100.${nextTs++}` : body.ts };
+    return { ok: true, status: 200, statusText: 'OK', json: async () => result, text: async () => JSON.stringify(result) };
+  };
+
+  return { calls, client: new SlackWebClient('xoxb-test', fetchFn as any) };
+}
+
+function createStore(): { store: SlackThreadStore; path: string } {
+  const path = join(mkdtempSync(join(tmpdir(), 'slack-threads-')), 'threads.json');
+  return { store: new SlackThreadStore(path), path };
+}
+
+test('SlackThreadPublisher › should post the header as parent and the rest as thread replies', async () => {
+  const { calls, client } = createSlackApi();
+  const { store, path } = createStore();
+
+  const record = await new SlackThreadPublisher(client, store).publish('C123', ['header', 'table', 'details'], '24h@2024-01-15');
+
+  assert.equal(calls.map(call => [call.method, call.body.text, call.body.thread_ts]), [
+    ['chat.postMessage', 'header', undefined],
+    ['chat.postMessage', 'table', '100.1'],
+    ['chat.postMessage', 'details', '100.1']
+  ]);
+  assert.is(calls[0].authorization, 'Bearer xoxb-test');
+  assert.is(record.parentTs, '100.1');
+  assert.equal(record.replyTs, ['100.2', '100.3']);
+  assert.equal(JSON.parse(readFileSync(path, 'utf-8'))['24h@2024-01-15'].parentTs, '100.1');
+});
+
+test('SlackThreadPublisher › should update the recorded thread on rerun instead of posting a new one', async () => {
+  const { store } = createStore();
+  await new SlackThreadPublisher(createSlackApi().client, store).publish('C123', ['header', 'table', 'details'], 'key');
+
+  const { calls, client } = createSlackApi();
+  const record = await new SlackThreadPublisher(client, store).publish('C123', ['new header', 'new table'], 'key');
+
+  assert.equal(calls.map(call => [call.method, call.body.ts]), [
+    ['chat.update', '100.1'],
+    ['chat.update', '100.2'],
+    ['chat.delete', '100.3']
+  ]);
+  assert.equal(record.replyTs, ['100.2']);
+  assert.equal(store.get('key')!.replyTs, ['100.2']);
+});
+
+test('SlackThreadPublisher › should post a new thread when the recorded parent was deleted', async () => {
+  const { store } = createStore();
+  await new SlackThreadPublisher(createSlackApi().client, store).publish('C123', ['header'], 'key');
+
+  const { calls, client } = createSlackApi({ 'chat.update:100.1': 'message_not_found' });
+  const record = await new SlackThreadPublisher(client, store).publish('C123', ['header', 'table'], 'key');
+
+  assert.equal(calls.map(call => call.method), ['chat.update', 'chat.postMessage', 'chat.postMessage']);
+  assert.is(record.parentTs, '100.1');
+  assert.equal(record.replyTs, ['100.2']);
+});
+
+test('SlackThreadPublisher › should surface Slack API errors', async () => {
+  const { client } = createSlackApi({ 'chat.postMessage:': 'channel_not_found' });
+  const { store } = createStore();
+
+  try {
+    await new SlackThreadPublisher(client, store).publish('C404', ['header'], 'key');
+    assert.unreachable('should have thrown an error');
+  } catch (error: any) {
+    assert.ok(error.message.includes('channel_not_found'));
+    assert.is(store.get('key'), undefined);
+  }
+});
+
+test('digestThreadKey › should identify a digest by timeframe, fetched window and team', () => {
+  const dateRange = { startDate: new Date('2024-01-14T18:30:00Z'), endDate: new Date('2024-01-15T18:30:00Z') };
+
+  assert.is(digestThreadKey({ timeframe: { type: 'hours', value: 24 }, dateRange }), '24h@2024-01-14T18:30:00.000Z..2024-01-15T18:30:00.000Z');
+  assert.is(digestThreadKey({ timeframe: { type: 'date', value: new Date('2024-01-10T00:00:00Z') }, dateRange }), 'date-2024-01-10');
+  assert.is(digestThreadKey({ timeframe: { type: 'days', value: 7 }, team: 'platform', dateRange }), '7d@2024-01-14T18:30:00.000Z..2024-01-15T18:30:00.000Z#platform');
+});
+
+test('digestThreadKey › should give same-day --hours windows their own threads', () => {
+  const timeframe = { type: 'hours' as const, value: 1 };
+  const morning = digestThreadKey({ timeframe, dateRange: { startDate: new Date('2024-01-15T08:00:00Z'), endDate: new Date('2024-01-15T09:00:00Z') } });
+  const later = digestThreadKey({ timeframe, dateRange: { startDate: new Date('2024-01-15T09:00:00Z'), endDate: new Date('2024-01-15T10:00:00Z') } });
+
+  assert.is.not(morning, later);
+});
+
+test.run();
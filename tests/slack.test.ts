@@ -59,6 +59,24 @@ test('postToSlack - should successfully post to Slack with long message', async
   assert.ok(true);
 });
 
+test('postToSlack - should accept a Block Kit message with fallback text', async () => {
+  const originalFetch = global.fetch;
+  let sentBody: any;
+  global.fetch = (async (url: string, init: any) => {
+    sentBody = JSON.parse(init.body);
+    return { ok: true, status: 200, statusText: 'OK', text: async () => 'ok' };
+  }) as any;
+
+  try {
+    const blocks = [{ type: 'divider' }];
+    await postToSlack({ text: 'Fallback text', blocks }, 'https://hooks.slack.com/test');
+
+    assert.equal(sentBody, { text: 'Fallback text', blocks });
+  } finally {
+    global.fetch = originalFetch;
+  }
+});
+
 test('postToSlack - should throw error for invalid webhook URL (null)', async () => {
   try {
     await postToSlack('Test message', null as any);
@@ -374,4 +374,69 @@ test('buildReleasesSql › should validate SQL structure and keywords', () => {
   assert.match(sql, /'2025-08-19T00:00:00\.000Z'/); // Dates quoted
 });
 
+test('buildReleasesSql › should filter by repository owner when an organization is given', () => {
+  const client = new SnowflakeClient(mockSnowflakeConfig);
+  const startDate = new Date('2025-01-01T00:00:00.000Z');
+  const endDate = new Date('2025-01-07T23:59:59.999Z');
+
+  const sql = client.buildReleasesSql(startDate, endDate, ['repo-server'], 'release', 'acme-labs');
+
+  assert.match(sql, /AND repository_name IN \('repo-server'\)/);
+  assert.match(sql, /AND repository_owner_login = 'acme-labs'/);
+});
+
+test('buildReleasesSql › should escape quotes in repository names and the organization', () => {
+  const client = new SnowflakeClient(mockSnowflakeConfig);
+  const startDate = new Date('2025-01-01T00:00:00.000Z');
+  const endDate = new Date('2025-01-07T23:59:59.999Z');
+
+  const sql = client.buildReleasesSql(startDate, endDate, ["o'brien-tools", "x') OR 1=1 OR ('"], 'release', "acme'labs");
+
+  assert.ok(sql.includes("AND repository_name IN ('o''brien-tools', 'x'') OR 1=1 OR (''')"));
+  assert.ok(sql.includes("AND repository_owner_login = 'acme''labs'"));
+
+  const withPatterns = client.buildReleasesSql(startDate, endDate, ["o'brien-tools"], 'release', undefined, { patterns: ['sdk-*'] });
+  assert.ok(withPatterns.includes("AND (repository_name IN ('o''brien-tools') OR repository_name ILIKE 'sdk-%' ESCAPE '^')"));
+});
+
+test('buildReleasesSql › should not filter by repository owner without an organization', () => {
+  const client = new SnowflakeClient(mockSnowflakeConfig);
+  const sql = client.buildReleasesSql(new Date('2025-01-01T00:00:00.000Z'), new Date('2025-01-07T23:59:59.999Z'));
+
+  assert.not.match(sql, /repository_owner_login/);
+});
+
+test('buildReleasesSql › should translate glob include and exclude patterns to ILIKE predicates', () => {
+  const client = new SnowflakeClient(mockSnowflakeConfig);
+  const sql = client.buildReleasesSql(
+    new Date('2025-01-01T00:00:00.000Z'),
+    new Date('2025-01-07T23:59:59.999Z'),
+    ['tools'],
+    'release',
+    undefined,
+    { patterns: ['sdk-*', 'lib_?'], exclude: ['*-archive'] }
+  );
+
+  assert.ok(sql.includes("AND (repository_name IN ('tools') OR repository_name ILIKE 'sdk-%' ESCAPE '^' OR repository_name ILIKE 'lib^__' ESCAPE '^')"));
+  assert.ok(sql.includes("AND NOT repository_name ILIKE '%-archive' ESCAPE '^'"));
+});
+
+test('buildReleasesSql › should filter by topics, custom properties, archived and forked repositories', () => {
+  const client = new SnowflakeClient(mockSnowflakeConfig);
+  const sql = client.buildReleasesSql(
+    new Date('2025-01-01T00:00:00.000Z'),
+    new Date('2025-01-07T23:59:59.999Z'),
+    undefined,
+    'release',
+    undefined,
+    { topics: ['SDK', 'cli'], properties: { team: "o'brien" }, skipArchived: true, skipForks: true }
+  );
+
+  assert.ok(sql.includes("AND ARRAYS_OVERLAP(repository_topics, ARRAY_CONSTRUCT('sdk', 'cli'))"));
+  assert.ok(sql.includes(`AND repository_custom_properties:"team"::STRING = 'o''brien'`));
+  assert.ok(sql.includes('AND COALESCE(repository_archived, FALSE) = FALSE'));
+  assert.ok(sql.includes('AND COALESCE(repository_fork, FALSE) = FALSE'));
+  assert.not.match(sql, /repository_name IN/);
+});
+
 test.run();
@@ -0,0 +1,244 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import OpenAI from 'openai';
+import { GeminiClient, GeminiProvider } from '../src/AI/gemini';
+import { LocalProvider } from '../src/AI/local';
+import { OpenRouterProvider } from '../src/AI/open-router';
+import { SummaryProviderRegistry, summaryProviderRegistry } from '../src/AI/registry';
+import { Summarizer, parseSummaryChain, parseSummaryRules } from '../src/AI/summarizer';
+import { SummaryProvider } from '../src/types';
+
+/**
+ * Provider whose models fail until the one named `working`
+ */
+class FakeProvider implements SummaryProvider {
+  readonly label: string;
+
+  readonly calls: string[] = [];
+
+  constructor(
+    readonly name: string,
+    private readonly modelList: string[],
+    private readonly working?: string,
+    private readonly configured = true
+  ) {
+    this.label = `Fake ${name}`;
+  }
+
+  isConfigured(): boolean {
+    return this.configured;
+  }
+
+  models(): string[] {
+    return this.modelList;
+  }
+
+  async summarize(prompt: string, model: string): Promise<string> {
+    this.calls.push(model);
+    if (model !== this.working) {
+      throw new Error(`${model} unavailable`);
+    }
+    return `${model}: ${prompt}`;
+  }
+}
+
+function createRegistry(...providers: FakeProvider[]): SummaryProviderRegistry {
+  const registry = new SummaryProviderRegistry();
+  providers.forEach(provider => registry.register(provider.name, () => provider));
+  return registry;
+}
+
+test('Summarizer › should walk each provider\'s models in chain order until one succeeds', async () => {
+  const primary = new FakeProvider('primary', ['big', 'bigger']);
+  const fallback = new FakeProvider('fallback', ['model-a', 'model-b', 'model-c'], 'model-b');
+  const registry = createRegistry(primary, fallback);
+  const summarizer = new Summarizer(parseSummaryChain(['primary', 'fallback'], registry), registry);
+
+  assert.is(await summarizer.summarize('notes'), 'model-b: notes');
+  assert.equal(primary.calls, ['big', 'bigger']);
+  assert.equal(fallback.calls, ['model-a', 'model-b']);
+  assert.equal(
+    summarizer.getLastAttempts().map(({ provider, model, error }) => ({ provider, model, error })),
+    [
+      { provider: 'primary', model: 'big', error: 'big unavailable' },
+      { provider: 'primary', model: 'bigger', error: 'bigger unavailable' },
+      { provider: 'fallback', model: 'model-a', error: 'model-a unavailable' },
+      { provider: 'fallback', model: 'model-b', error: undefined }
+    ]
+  );
+  assert.ok(summarizer.getLastAttempts().every(attempt => attempt.latencyMs >= 0));
+});
+
+test('Summarizer › should try only the pinned model and skip unconfigured providers', async () => {
+  const unconfigured = new FakeProvider('local', ['small'], 'small', false);
+  const router = new FakeProvider('router', ['default', 'org/model:free'], 'org/model:free');
+  const registry = createRegistry(unconfigured, router);
+  const summarizer = new Summarizer(parseSummaryChain(['local', 'Router:org/model:free'], registry), registry);
+
+  assert.is(await summarizer.summarize('notes'), 'org/model:free: notes');
+  assert.equal(unconfigured.calls, []);
+  assert.equal(router.calls, ['org/model:free']);
+});
+
+test('Summarizer › should fail when every attempt fails or no provider is configured', async () => {
+  const failing = new FakeProvider('failing', ['one', 'two']);
+  const unconfigured = new FakeProvider('local', ['small'], 'small', false);
+  const registry = createRegistry(failing, unconfigured);
+
+  await new Summarizer([{ provider: 'failing' }], registry).summarize('notes').then(
+    () => assert.unreachable('should have thrown'),
+    (error: Error) => assert.is(error.message, 'All 2 AI attempts failed, last error: two unavailable')
+  );
+  await new Summarizer([{ provider: 'local' }], registry).summarize('notes').then(
+    () => assert.unreachable('should have thrown'),
+    (error: Error) => assert.match(error.message, /No configured summary provider in chain: local/)
+  );
+});
+
+test('Summarizer › should keep repositories matching a rule on the rule\'s provider only', async () => {
+  const local = new FakeProvider('local', ['llama3.1', 'qwen2.5'], 'qwen2.5');
+  const cloud = new FakeProvider('cloud', ['big'], 'big');
+  const registry = createRegistry(local, cloud);
+  const rules = parseSummaryRules({ 'acme/payments-*': 'local', 'secret-*': 'local:llama3.1' }, registry);
+  const summarizer = new Summarizer([{ provider: 'cloud' }], registry, rules);
+
+  assert.is(await summarizer.summarize('notes', 'acme/payments-api'), 'qwen2.5: notes');
+  await summarizer.summarize('notes', 'other-org/secret-tool').then(
+    () => assert.unreachable('should have thrown'),
+    (error: Error) => assert.is(error.message, 'All 1 AI attempts failed, last error: llama3.1 unavailable')
+  );
+  assert.is(await summarizer.summarize('notes', 'other-org/payments-api'), 'big: notes');
+  assert.equal(local.calls, ['llama3.1', 'qwen2.5', 'llama3.1']);
+  assert.equal(cloud.calls, ['big']);
+  assert.throws(() => parseSummaryRules({ 'secret-*': 'mystery' }, registry), /Unknown summary provider\(s\): mystery/);
+});
+
+test('parseSummaryChain › should reject providers that are not registered', () => {
+  assert.equal(parseSummaryChain(['anthropic', 'openrouter:anthropic/claude-sonnet-4']), [
+    { provider: 'anthropic', model: undefined },
+    { provider: 'openrouter', model: 'anthropic/claude-sonnet-4' }
+  ]);
+  assert.throws(
+    () => parseSummaryChain(['anthropic', 'mystery']),
+    /Unknown summary provider\(s\): mystery\. Registered providers: anthropic, gemini, openrouter, local/
+  );
+  assert.throws(() => summaryProviderRegistry.register('Anthropic', () => new OpenRouterProvider()), /already registered: anthropic/);
+});
+
+test('OpenRouterProvider › should try AI_MODEL, the default model, then the free models of models.json', async () => {
+  const originalModel = process.env.AI_MODEL;
+  process.env.AI_MODEL = 'openai/gpt-4o-mini';
+  try {
+    const { freeModels } = JSON.parse(readFileSync(join(__dirname, '../src/AI/models.json'), 'utf-8'));
+    const requests: string[] = [];
+    const client = {
+      chat: {
+        completions: {
+          create: async ({ model }: { model: string }) => {
+            requests.push(model);
+            return { choices: [{ message: { content: `summary from ${model}` } }] };
+          }
+        }
+      }
+    } as unknown as OpenAI;
+    const provider = new OpenRouterProvider(client);
+
+    assert.equal(provider.models(), ['openai/gpt-4o-mini', 'anthropic/claude-sonnet-4', ...freeModels]);
+    assert.ok(provider.isConfigured());
+    assert.is(await provider.summarize('notes', freeModels[0]), `summary from ${freeModels[0]}`);
+    assert.equal(requests, [freeModels[0]]);
+  } finally {
+    if (originalModel === undefined) {
+      delete process.env.AI_MODEL;
+    } else {
+      process.env.AI_MODEL = originalModel;
+    }
+  }
+});
+
+test('LocalProvider › should use LOCAL_AI_BASE_URL and LOCAL_AI_MODEL', async () => {
+  const originalBaseUrl = process.env.LOCAL_AI_BASE_URL;
+  const originalModel = process.env.LOCAL_AI_MODEL;
+  delete process.env.LOCAL_AI_BASE_URL;
+  process.env.LOCAL_AI_MODEL = 'qwen2.5:7b';
+  try {
+    assert.not.ok(new LocalProvider().isConfigured());
+    process.env.LOCAL_AI_BASE_URL = 'http://localhost:11434/v1';
+
+    const requests: string[] = [];
+    const client = {
+      chat: {
+        completions: {
+          create: async ({ model }: { model: string }) => {
+            requests.push(model);
+            return { choices: [{ message: { content: requests.length > 1 ? 'Adds offline mode.' : '  ' } }] };
+          }
+        }
+      }
+    } as unknown as OpenAI;
+    const provider = new LocalProvider(client);
+
+    assert.ok(provider.isConfigured());
+    assert.equal(provider.models(), ['qwen2.5:7b']);
+    await provider.summarize('notes', 'qwen2.5:7b').then(
+      () => assert.unreachable('should have thrown'),
+      (error: Error) => assert.is(error.message, 'Local returned empty content')
+    );
+    assert.is(await provider.summarize('notes', 'qwen2.5:7b'), 'Adds offline mode.');
+    assert.equal(requests, ['qwen2.5:7b', 'qwen2.5:7b']);
+  } finally {
+    if (originalBaseUrl === undefined) {
+      delete process.env.LOCAL_AI_BASE_URL;
+    } else {
+      process.env.LOCAL_AI_BASE_URL = originalBaseUrl;
+    }
+    if (originalModel === undefined) {
+      delete process.env.LOCAL_AI_MODEL;
+    } else {
+      process.env.LOCAL_AI_MODEL = originalModel;
+    }
+  }
+});
+
+test('GeminiProvider › should summarize the prompt with the configured model', async () => {
+  const originalModel = process.env.GEMINI_MODEL;
+  process.env.GEMINI_MODEL = 'gemini-2.0-flash-lite';
+  try {
+    const requests: unknown[] = [];
+    const client = {
+      models: {
+        generateContent: async (params: unknown) => {
+          requests.push(params);
+          return { text: 'Adds streaming responses.' };
+        }
+      }
+    } as unknown as GeminiClient;
+    const provider = new GeminiProvider(client);
+
+    assert.ok(provider.isConfigured());
+    assert.equal(provider.models(), ['gemini-2.0-flash-lite']);
+    assert.is(await provider.summarize('Summarize: notes', 'gemini-2.0-flash-lite'), 'Adds streaming responses.');
+    assert.equal(requests, [{ model: 'gemini-2.0-flash-lite', contents: 'Summarize: notes', config: { maxOutputTokens: 500 } }]);
+  } finally {
+    if (originalModel === undefined) {
+      delete process.env.GEMINI_MODEL;
+    } else {
+      process.env.GEMINI_MODEL = originalModel;
+    }
+  }
+});
+
+test('GeminiProvider › should fail on empty responses so the chain moves on', async () => {
+  const client = {
+    models: { generateContent: async () => ({ text: undefined, candidates: [{ finishReason: 'SAFETY' }] }) }
+  } as unknown as GeminiClient;
+
+  await new GeminiProvider(client).summarize('notes', 'gemini-2.5-flash').then(
+    () => assert.unreachable('should have thrown'),
+    (error: Error) => assert.is(error.message, 'Gemini returned empty content (finish reason: SAFETY)')
+  );
+});
+
+test.run();
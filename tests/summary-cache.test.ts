@@ -0,0 +1,139 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SummaryProviderRegistry } from '../src/AI/registry';
+import { JsonFileSummaryCacheBackend, SummaryCache, summaryCacheKey } from '../src/AI/summary-cache';
+import { configureSummarizer, configureSummaryCache, summarizeText } from '../src/AI/summarizer';
+import { SummaryCacheBackend, SummaryCacheEntry, SummaryProvider } from '../src/types';
+
+/**
+ * In-memory backend, standing in for any pluggable cache storage
+ */
+class MemorySummaryCacheBackend implements SummaryCacheBackend {
+  entriesByKey = new Map<string, SummaryCacheEntry>();
+
+  async get(key: string): Promise<SummaryCacheEntry | undefined> {
+    return this.entriesByKey.get(key);
+  }
+
+  async set(key: string, entry: SummaryCacheEntry): Promise<void> {
+    this.entriesByKey.set(key, entry);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => this.entriesByKey.delete(key));
+  }
+
+  async entries(): Promise<Array<[string, SummaryCacheEntry]>> {
+    return Array.from(this.entriesByKey.entries());
+  }
+}
+
+/**
+ * Provider counting its calls; fails while `failing` is set
+ */
+class CountingProvider implements SummaryProvider {
+  readonly name = 'counting';
+
+  readonly label = 'Counting';
+
+  calls = 0;
+
+  failing = false;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  models(): string[] {
+    return ['counter-1'];
+  }
+
+  async summarize(): Promise<string> {
+    this.calls++;
+    if (this.failing) {
+      throw new Error('counter unavailable');
+    }
+    return `Summary ${this.calls}`;
+  }
+}
+
+const countingProvider = new CountingProvider();
+const registry = new SummaryProviderRegistry();
+registry.register('counting', () => countingProvider);
+
+function entry(summary: string, createdAt: string): SummaryCacheEntry {
+  return { summary, provider: 'anthropic', model: 'claude', createdAt };
+}
+
+test('SummaryCache › should count hits and misses and expire entries past the TTL', async () => {
+  const backend = new MemorySummaryCacheBackend();
+  const cache = new SummaryCache(backend, 7, 10);
+  const now = new Date('2025-07-20T00:00:00Z');
+
+  await cache.set('fresh', entry('Fresh summary', '2025-07-19T00:00:00Z'), now);
+  await backend.set('stale', entry('Stale summary', '2025-07-10T00:00:00Z'));
+
+  assert.is((await cache.get('fresh', now))?.summary, 'Fresh summary');
+  assert.is(await cache.get('stale', now), undefined);
+  assert.is(await cache.get('unknown', now), undefined);
+  assert.not.ok(backend.entriesByKey.has('stale'));
+  assert.equal(cache.getStats(), { hits: 1, misses: 2, stored: 1, expired: 1, evicted: 0 });
+});
+
+test('SummaryCache › should evict the oldest entries beyond the size limit', async () => {
+  const backend = new MemorySummaryCacheBackend();
+  const cache = new SummaryCache(backend, 30, 2);
+  const now = new Date('2025-07-20T00:00:00Z');
+
+  await cache.set('b', entry('B', '2025-07-18T00:00:00Z'), now);
+  await cache.set('a', entry('A', '2025-07-17T00:00:00Z'), now);
+  await cache.set('c', entry('C', '2025-07-19T00:00:00Z'), now);
+
+  assert.equal(Array.from(backend.entriesByKey.keys()).sort(), ['b', 'c']);
+  assert.equal(cache.getStats(), { hits: 0, misses: 0, stored: 3, expired: 0, evicted: 1 });
+});
+
+test('JsonFileSummaryCacheBackend › should persist entries across instances', async () => {
+  const path = join(mkdtempSync(join(tmpdir(), 'summary-cache-')), 'cache.json');
+
+  await new JsonFileSummaryCacheBackend(path).set('key', entry('Cached', '2025-07-19T00:00:00Z'));
+  const reloaded = new JsonFileSummaryCacheBackend(path);
+  assert.is((await reloaded.get('key'))?.summary, 'Cached');
+
+  await reloaded.delete(['key']);
+  assert.equal(JSON.parse(readFileSync(path, 'utf-8')), {});
+});
+
+test('summaryCacheKey › should change with the prompt template, models and text', () => {
+  const key = summaryCacheKey('Summarize: ${text}', ['anthropic:claude'], 'notes');
+
+  assert.is(key, summaryCacheKey('Summarize: ${text}', ['anthropic:claude'], 'notes'));
+  assert.is.not(key, summaryCacheKey('Summarize briefly: ${text}', ['anthropic:claude'], 'notes'));
+  assert.is.not(key, summaryCacheKey('Summarize: ${text}', ['gemini:gemini-2.5-flash'], 'notes'));
+  assert.is.not(key, summaryCacheKey('Summarize: ${text}', ['anthropic:claude'], 'other notes'));
+});
+
+test('summarizeText › should reuse cached summaries and never cache the fallback text', async () => {
+  const cache = new SummaryCache(new MemorySummaryCacheBackend(), 30, 10);
+  configureSummarizer(['counting'], {}, registry);
+  configureSummaryCache(cache);
+  try {
+    assert.is(await summarizeText('Adds streaming.', 'acme/sdk'), 'Summary 1');
+    assert.is(await summarizeText('Adds streaming.', 'acme/sdk'), 'Summary 1');
+    assert.is(countingProvider.calls, 1);
+
+    countingProvider.failing = true;
+    assert.is(await summarizeText('Fixes a crash.', 'acme/sdk'), 'Fixes a crash.');
+    countingProvider.failing = false;
+    assert.is(await summarizeText('Fixes a crash.', 'acme/sdk'), 'Summary 3');
+    assert.equal(cache.getStats(), { hits: 1, misses: 3, stored: 2, expired: 0, evicted: 0 });
+  } finally {
+    configureSummarizer();
+    configureSummaryCache(null);
+  }
+});
+
+test.run();
@@ -0,0 +1,160 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  TeamOwnership,
+  assignTeams,
+  parseCodeownersTeams,
+  teamsForRelease
+} from '../src/core/team-ownership';
+import { createSummaryTable, groupReleasesByTeam } from '../src/core/format';
+import { ReleaseInfo, TeamDefinition } from '../src/types';
+
+function createRelease(repository: string, overrides: Partial<ReleaseInfo> = {}): ReleaseInfo {
+  return {
+    repository,
+    organization: repository.split('/')[0],
+    tagName: 'v1.0.0',
+    name: 'v1.0.0',
+    publishedAt: '2024-01-15T10:00:00Z',
+    description: '',
+    url: `https://github.com/${repository}/releases/tag/v1.0.0`,
+    author: 'octocat',
+    isPrerelease: false,
+    ...overrides
+  };
+}
+
+test('parseCodeownersTeams › should use the last catch-all rule and keep organization teams', () => {
+  const codeowners = [
+    '# Default owners',
+    '*       @acme/legacy',
+    '/docs/  @acme/docs-team',
+    '*       @acme/platform @acme/sre @someone other@example.com  # current owners',
+  ].join('\n');
+
+  assert.equal(parseCodeownersTeams(codeowners, 'acme'), ['platform', 'sre']);
+  assert.equal(parseCodeownersTeams('/src/ @acme/core', 'acme'), []);
+});
+
+test('teamsForRelease › should match bare names, org/repo names and glob patterns', () => {
+  const teams: TeamDefinition[] = [
+    { name: 'platform', repositories: ['api', 'acme-labs/tools'] },
+    { name: 'sdk', repositories: ['sdk-*'] },
+    { name: 'labs', repositories: ['acme-labs/*'] }
+  ];
+
+  assert.equal(teamsForRelease(createRelease('acme/api'), teams), ['platform']);
+  assert.equal(teamsForRelease(createRelease('acme/sdk-js'), teams), ['sdk']);
+  assert.equal(teamsForRelease(createRelease('acme-labs/tools'), teams), ['platform', 'labs']);
+  assert.equal(teamsForRelease(createRelease('acme/tools'), teams), []);
+});
+
+test('TeamOwnership › loadTeams › should read teams from a file and merge team webhooks', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'teams-'));
+  const teamsFile = join(dir, 'teams.json');
+  writeFileSync(teamsFile, JSON.stringify({
+    teams: [
+      { name: 'platform', repositories: ['api'], webhookUrl: 'https://hooks.slack.com/services/T000/B000/PLATFORM' },
+      { name: 'sdk', repositories: ['sdk-*'] }
+    ]
+  }));
+
+  const teams = await new TeamOwnership().loadTeams({
+    teamOwnershipSource: 'file',
+    teamsFile,
+    teamWebhooks: { sdk: 'https://hooks.slack.com/services/T000/B000/SDK' }
+  }, []);
+
+  assert.equal(teams, [
+    { name: 'platform', repositories: ['api'], webhookUrl: 'https://hooks.slack.com/services/T000/B000/PLATFORM' },
+    { name: 'sdk', repositories: ['sdk-*'], webhookUrl: 'https://hooks.slack.com/services/T000/B000/SDK' }
+  ]);
+});
+
+test('TeamOwnership › loadTeams › should reject a team file webhook that is not a Slack webhook', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'teams-'));
+  const teamsFile = join(dir, 'teams.json');
+  writeFileSync(teamsFile, JSON.stringify({
+    teams: [{ name: 'platform', repositories: ['api'], webhookUrl: 'https://example.com/services/T000/B000/PLATFORM' }]
+  }));
+
+  try {
+    await new TeamOwnership().loadTeams({ teamOwnershipSource: 'file', teamsFile }, []);
+    assert.unreachable('should have thrown an error');
+  } catch (error: any) {
+    assert.instance(error, Error);
+    assert.ok(error.message.includes('team platform has an invalid webhookUrl'));
+    assert.ok(error.message.includes('hooks.slack.com'));
+  }
+});
+
+test('TeamOwnership › loadTeams › should read CODEOWNERS only for released repositories', async () => {
+  const requested: string[] = [];
+  const repository: any = {
+    fetchCodeowners: async (orgName: string, repoName: string) => {
+      requested.push(`${orgName}/${repoName}`);
+      return repoName === 'api' ? '* @acme/platform' : null;
+    }
+  };
+
+  const teams = await new TeamOwnership(repository).loadTeams(
+    { teamOwnershipSource: 'codeowners' },
+    [createRelease('acme/api'), createRelease('acme/api', { tagName: 'v1.1.0' }), createRelease('acme/web')]
+  );
+
+  assert.equal(requested, ['acme/api', 'acme/web']);
+  assert.equal(teams, [{ name: 'platform', repositories: ['acme/api'] }]);
+});
+
+test('TeamOwnership › loadTeams › should treat admin and maintain team permissions as ownership', async () => {
+  const repository: any = {
+    fetchTeamRepositories: async () => [
+      { slug: 'platform', repositories: [{ name: 'api', permission: 'ADMIN' }, { name: 'web', permission: 'WRITE' }] },
+      { slug: 'frontend', repositories: [{ name: 'web', permission: 'MAINTAIN' }] }
+    ]
+  };
+
+  const teams = await new TeamOwnership(repository).loadTeams({ teamOwnershipSource: 'github', orgNames: ['acme'] }, []);
+
+  assert.equal(teams, [
+    { name: 'platform', repositories: ['acme/api'] },
+    { name: 'frontend', repositories: ['acme/web'] }
+  ]);
+});
+
+test('TeamOwnership › loadTeams › should return no teams when ownership is not configured', async () => {
+  assert.equal(await new TeamOwnership().loadTeams({}, []), []);
+});
+
+test('groupReleasesByTeam › should list shared releases under every owner and unowned releases last', () => {
+  const releases = assignTeams(
+    [createRelease('acme/web'), createRelease('acme/api'), createRelease('acme/docs')],
+    [{ name: 'platform', repositories: ['api', 'web'] }, { name: 'frontend', repositories: ['web'] }]
+  );
+
+  const byTeam = groupReleasesByTeam(releases);
+
+  assert.equal(Array.from(byTeam.keys()), ['platform', 'frontend', 'Unowned']);
+  assert.equal(byTeam.get('platform')!.map(r => r.repository), ['acme/web', 'acme/api']);
+  assert.equal(byTeam.get('Unowned')!.map(r => r.repository), ['acme/docs']);
+});
+
+test('createSummaryTable › should add team subheaders only when releases carry teams', () => {
+  const releases = assignTeams(
+    [createRelease('acme/api'), createRelease('acme/docs')],
+    [{ name: 'platform', repositories: ['api'] }]
+  );
+
+  const table = createSummaryTable(releases);
+  assert.ok(table.indexOf('[platform]') < table.indexOf('[Unowned]'));
+  assert.ok(table.indexOf('[platform]') < table.indexOf('api '));
+  assert.ok(table.indexOf('[Unowned]') < table.indexOf('docs '));
+
+  assert.not.ok(createSummaryTable(releases, false).includes('[platform]'));
+  assert.not.ok(createSummaryTable([createRelease('acme/api')]).includes('['));
+});
+
+test.run();
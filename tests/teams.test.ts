@@ -0,0 +1,94 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { TeamsClient } from '../src/clients/teams-client';
+import { formatReleaseCard } from '../src/core/teams-cards';
+import { AdaptiveCardElement, SummaryConfig, TeamsMessage } from '../src/types';
+import { createRelease } from './helpers/releases';
+
+const config: SummaryConfig = {
+  timeframe: { type: 'date', value: new Date('2024-01-15T00:00:00Z') },
+  dataSource: 'GitHub API'
+};
+
+const noDelay = { maxRetries: 3, baseDelay: 0, maxDelay: 0 };
+
+function cellTexts(row: AdaptiveCardElement): string[] {
+  return row.cells!.map(cell => cell.items![0].text!);
+}
+
+test('formatReleaseCard › should render stats facts and a release table with linked versions', async () => {
+  const releases = [
+    createRelease('acme/api'),
+    createRelease('acme/web', { name: 'v2.0.0-rc.1', isPrerelease: true, url: 'https://github.com/acme/web/releases/tag/v2.0.0-rc.1' })
+  ];
+
+  const message = await formatReleaseCard(releases, config);
+  const card = message.attachments[0].content;
+
+  assert.is(message.attachments[0].contentType, 'application/vnd.microsoft.card.adaptive');
+  assert.is(card.version, '1.5');
+  assert.is(card.body[0].text, '📊 Release Summary - 2024-01-15');
+  assert.is(card.body[1].text, 'Source: GitHub API');
+  assert.equal(card.body[2].facts, [
+    { title: 'Releases', value: '2' },
+    { title: 'Stable', value: '1' },
+    { title: 'Pre-release', value: '1' },
+    { title: 'Repositories', value: '2' }
+  ]);
+
+  const table = card.body[3];
+  assert.is(table.type, 'Table');
+  assert.equal(cellTexts(table.rows![0]), ['Repository', 'Version', 'Published At']);
+  assert.equal(cellTexts(table.rows![1]), ['api', '[v1.0.0](https://github.com/acme/api/releases/tag/v1.0.0)', '2024-01-15 10:00 UTC']);
+  assert.equal(cellTexts(table.rows![2])[1], '[v2.0.0-rc.1](https://github.com/acme/web/releases/tag/v2.0.0-rc.1) (pre-release)');
+  assert.is(card.body.length, 4, 'no summaries without descriptions');
+});
+
+test('formatReleaseCard › should add a collapsible summary per repository when descriptions are included', async () => {
+  const summaries = new Map([['acme/api', { text: 'Adds streaming responses.', generated: true }]]);
+  const message = await formatReleaseCard([createRelease('acme/api')], { ...config, includeDescriptions: true }, summaries);
+  const [toggle, summary] = message.attachments[0].content.body.slice(4);
+
+  assert.equal(toggle.selectAction, { type: 'Action.ToggleVisibility', title: 'Show summary', targetElements: ['summary-0'] });
+  assert.is(summary.id, 'summary-0');
+  assert.is(summary.isVisible, false);
+  assert.is(summary.items![0].text, 'Adds streaming responses.');
+});
+
+test('formatReleaseCard › should report when no releases were found', async () => {
+  const message = await formatReleaseCard([], config);
+
+  assert.is(message.attachments[0].content.body.at(-1)!.text, 'No releases found for 2024-01-15');
+});
+
+test('TeamsClient › should retry server errors and succeed', async () => {
+  const statuses = [502, 202];
+  let calls = 0;
+  const fetchFn = async () => {
+    const status = statuses[calls++];
+    return { ok: status < 300, status, statusText: '', text: async () => '' };
+  };
+
+  await new TeamsClient('https://example.webhook.office.com/webhookb2/x', noDelay, fetchFn as any).postMessage({} as TeamsMessage);
+
+  assert.is(calls, 2);
+});
+
+test('TeamsClient › should not retry client errors', async () => {
+  let calls = 0;
+  const fetchFn = async () => {
+    calls++;
+    return { ok: false, status: 400, statusText: 'Bad Request', text: async () => 'invalid card' };
+  };
+
+  try {
+    await new TeamsClient('https://example.webhook.office.com/webhookb2/x', noDelay, fetchFn as any).postMessage({} as TeamsMessage);
+    assert.unreachable('should have thrown an error');
+  } catch (error: any) {
+    assert.ok(error.message.includes('Failed to post to Teams'));
+    assert.ok(error.message.includes('invalid card'));
+    assert.is(calls, 1);
+  }
+});
+
+test.run();
@@ -0,0 +1,82 @@
+import { test } from 'uvu';
+import * as assert from 'uvu/assert';
+import { SCHEMA_VERSION_HEADER, SIGNATURE_HEADER, WebhookClient, signPayload } from '../src/clients/webhook-client';
+import { createDigestDocument } from '../src/core/digest-document';
+import { SummaryConfig } from '../src/types';
+import { createRelease } from './helpers/releases';
+
+const config: SummaryConfig = {
+  timeframe: { type: 'date', value: new Date('2024-01-15T00:00:00Z') },
+  dataSource: 'GitHub API'
+};
+
+const noRetry = { maxRetries: 1, baseDelay: 0, maxDelay: 0 };
+
+function captureFetch(status = 200) {
+  const requests: Array<{ url: string; init: any }> = [];
+  const fetchFn = async (url: string, init: any) => {
+    requests.push({ url, init });
+    return { ok: status < 300, status, statusText: '', text: async () => 'rejected' };
+  };
+  return { requests, fetchFn: fetchFn as any };
+}
+
+test('createDigestDocument › should build a versioned document grouped by repository', async () => {
+  const releases = [
+    createRelease('acme/api'),
+    createRelease('acme/api', { tagName: 'v1.1.0-beta', name: 'v1.1.0-beta', isPrerelease: true }),
+    createRelease('acme/web', { teams: ['frontend'] })
+  ];
+
+  const document = await createDigestDocument(releases, config, undefined, new Date('2024-01-16T08:00:00Z'));
+
+  assert.is(document.schemaVersion, 1);
+  assert.is(document.type, 'release-digest');
+  assert.is(document.generatedAt, '2024-01-16T08:00:00.000Z');
+  assert.equal(document.timeframe, { type: 'date', value: '2024-01-15', startDate: undefined, endDate: undefined, text: '2024-01-15' });
+  assert.equal(document.organizations, ['acme']);
+  assert.equal(document.stats, { releases: 3, stable: 2, prerelease: 1, repositories: 2 });
+  assert.equal(document.repositories.map(repo => repo.name), ['api', 'web']);
+  assert.equal(document.repositories[0].releases[0], {
+    tagName: 'v1.0.0',
+    name: 'v1.0.0',
+    version: 'v1.0.0',
+    url: 'https://github.com/acme/api/releases/tag/v1.0.0',
+    publishedAt: '2024-01-15T10:00:00Z',
+    author: 'octocat',
+    prerelease: false,
+    teams: undefined
+  });
+  assert.equal(document.repositories[1].releases[0].teams, ['frontend']);
+  assert.is(document.repositories[0].summary, undefined);
+});
+
+test('WebhookClient › should sign the body with the shared secret', async () => {
+  const { requests, fetchFn } = captureFetch();
+  const document = await createDigestDocument([createRelease('acme/api')], config);
+
+  await new WebhookClient('https://example.com/hooks/digest', 'shh', noRetry, fetchFn).postDocument(document);
+
+  const { url, init } = requests[0];
+  assert.is(url, 'https://example.com/hooks/digest');
+  assert.equal(JSON.parse(init.body), JSON.parse(JSON.stringify(document)));
+  assert.is(init.headers[SCHEMA_VERSION_HEADER], '1');
+  assert.is(init.headers[SIGNATURE_HEADER], signPayload(init.body, 'shh'));
+  assert.ok(/^sha256=[0-9a-f]{64}$/.test(init.headers[SIGNATURE_HEADER]));
+});
+
+test('WebhookClient › should post unsigned without a secret and report rejections', async () => {
+  const { requests, fetchFn } = captureFetch(422);
+  const document = await createDigestDocument([], config);
+
+  try {
+    await new WebhookClient('https://example.com/hooks/digest', undefined, noRetry, fetchFn).postDocument(document);
+    assert.unreachable('should have thrown an error');
+  } catch (error: any) {
+    assert.ok(error.message.includes('Failed to post to webhook'));
+    assert.ok(error.message.includes('422'));
+    assert.is(requests[0].init.headers[SIGNATURE_HEADER], undefined);
+  }
+});
+
+test.run();